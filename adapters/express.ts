@@ -0,0 +1,97 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { WebhookHandler } from "../types";
+import {
+  createCheckoutRoute as createFetchCheckoutRoute,
+  createPortalRoute as createFetchPortalRoute,
+  type CheckoutRouteOptions,
+  type PortalRouteOptions,
+} from "./fetch";
+import { readRawBody, sendResponse, toRequest, type ParsedBody } from "./node";
+
+export type { CheckoutRouteOptions, PortalRouteOptions };
+
+/**
+ * The parts of an Express request the adapter uses.
+ */
+export type ExpressRequest = IncomingMessage & ParsedBody;
+
+/**
+ * Express route handler. Errors are passed to `next`.
+ */
+export type ExpressHandler<Req extends ExpressRequest = ExpressRequest> = (
+  req: Req,
+  res: ServerResponse,
+  next: (error?: unknown) => void
+) => void;
+
+/**
+ * Serve a provider's webhook handler from Express. Mount it before
+ * `express.json()`, or with `express.raw()`, so the signature is checked
+ * against the raw body.
+ *
+ * @example
+ * ```ts
+ * import express from "express";
+ * import { toExpressHandler } from "@xyz/payment/adapters/express";
+ *
+ * const app = express();
+ * app.post(
+ *   "/webhooks/stripe",
+ *   express.raw({ type: "application/json" }),
+ *   toExpressHandler(usePayment("stripe").webhookHandler)
+ * );
+ * app.use(express.json());
+ * ```
+ */
+export function toExpressHandler(handler: WebhookHandler): ExpressHandler {
+  return (req, res, next) => {
+    readRawBody(req)
+      .then((body) => handler(toRequest(req, body)))
+      .then((response) => sendResponse(res, response))
+      .catch(next);
+  };
+}
+
+/**
+ * Create an Express route that starts a checkout and redirects to it.
+ *
+ * @example
+ * ```ts
+ * app.get(
+ *   "/billing/checkout",
+ *   createCheckoutRoute({
+ *     provider: usePayment("stripe"),
+ *     params: (req: express.Request) => ({
+ *       type: "subscription",
+ *       productId: "price_pro",
+ *       email: req.user.email,
+ *       redirectUrl: "https://example.com/billing",
+ *     }),
+ *   })
+ * );
+ * ```
+ */
+export function createCheckoutRoute<Req extends ExpressRequest>(
+  options: CheckoutRouteOptions<Req>
+): ExpressHandler<Req> {
+  const route = createFetchCheckoutRoute(options);
+  return (req, res, next) => {
+    route(req)
+      .then((response) => sendResponse(res, response))
+      .catch(next);
+  };
+}
+
+/**
+ * Create an Express route that redirects to the customer portal.
+ */
+export function createPortalRoute<Req extends ExpressRequest>(
+  options: PortalRouteOptions<Req>
+): ExpressHandler<Req> {
+  const route = createFetchPortalRoute(options);
+  return (req, res, next) => {
+    route(req)
+      .then((response) => sendResponse(res, response))
+      .catch(next);
+  };
+}
@@ -0,0 +1,99 @@
+import type { IncomingMessage } from "node:http";
+import type { WebhookHandler } from "../types";
+import {
+  createCheckoutRoute as createFetchCheckoutRoute,
+  createPortalRoute as createFetchPortalRoute,
+  type CheckoutRouteOptions,
+  type PortalRouteOptions,
+} from "./fetch";
+import { readRawBody, toRequest, type ParsedBody } from "./node";
+
+export type { CheckoutRouteOptions, PortalRouteOptions };
+
+/**
+ * The parts of a Fastify request the adapter uses.
+ */
+export type FastifyRequest = ParsedBody & {
+  raw: IncomingMessage;
+};
+
+/**
+ * The parts of a Fastify reply the adapter uses.
+ */
+export type FastifyReply = {
+  code(statusCode: number): FastifyReply;
+  header(name: string, value: string): FastifyReply;
+  send(payload?: unknown): FastifyReply;
+};
+
+/**
+ * Fastify route handler.
+ */
+export type FastifyHandler<Req extends FastifyRequest = FastifyRequest> = (
+  request: Req,
+  reply: FastifyReply
+) => Promise<FastifyReply>;
+
+/**
+ * Write a WHATWG `Response` to a Fastify reply.
+ */
+async function sendReply(
+  reply: FastifyReply,
+  response: Response
+): Promise<FastifyReply> {
+  reply.code(response.status);
+  response.headers.forEach((value, name) => {
+    reply.header(name, value);
+  });
+  return reply.send(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Serve a provider's webhook handler from Fastify. Fastify parses JSON
+ * bodies, so register a buffer content type parser in the webhook route's
+ * scope (or use `fastify-raw-body`) to keep the raw body for the signature
+ * check.
+ *
+ * @example
+ * ```ts
+ * import { toFastifyHandler } from "@xyz/payment/adapters/fastify";
+ *
+ * app.register(async (webhooks) => {
+ *   webhooks.addContentTypeParser(
+ *     "*",
+ *     { parseAs: "buffer" },
+ *     (_req, body, done) => done(null, body)
+ *   );
+ *   webhooks.post(
+ *     "/webhooks/stripe",
+ *     toFastifyHandler(usePayment("stripe").webhookHandler)
+ *   );
+ * });
+ * ```
+ */
+export function toFastifyHandler(handler: WebhookHandler): FastifyHandler {
+  return async (request, reply) => {
+    const body = await readRawBody(request.raw, request);
+    return sendReply(reply, await handler(toRequest(request.raw, body)));
+  };
+}
+
+/**
+ * Create a Fastify route that starts a checkout and redirects to it.
+ */
+export function createCheckoutRoute<Req extends FastifyRequest>(
+  options: CheckoutRouteOptions<Req>
+): FastifyHandler<Req> {
+  const route = createFetchCheckoutRoute(options);
+  return async (request, reply) => sendReply(reply, await route(request));
+}
+
+/**
+ * Create a Fastify route that redirects to the customer portal.
+ */
+export function createPortalRoute<Req extends FastifyRequest>(
+  options: PortalRouteOptions<Req>
+): FastifyHandler<Req> {
+  const route = createFetchPortalRoute(options);
+  return async (request, reply) => sendReply(reply, await route(request));
+}
@@ -0,0 +1,93 @@
+import type {
+  CreateCheckoutLinkParams,
+  CreateCustomerPortalLinkParams,
+  PaymentProvider,
+} from "../types";
+
+/**
+ * Builds the parameters of a redirect route from the incoming request, e.g.
+ * from the signed-in user. Return a `Response` instead to answer the request
+ * yourself, for example with a redirect to the login page.
+ */
+export type RouteParams<Req, Params> = (
+  req: Req
+) => Params | Response | Promise<Params | Response>;
+
+/**
+ * Options for a route that redirects to a new checkout.
+ */
+export type CheckoutRouteOptions<Req = Request> = {
+  /** Provider to create the checkout with, e.g. `usePayment("stripe")` */
+  provider: PaymentProvider;
+  /** Checkout parameters for the request */
+  params: RouteParams<Req, CreateCheckoutLinkParams>;
+};
+
+/**
+ * Options for a route that redirects to the customer portal.
+ */
+export type PortalRouteOptions<Req = Request> = {
+  /** Provider to create the portal link with, e.g. `usePayment("stripe")` */
+  provider: PaymentProvider;
+  /** Portal parameters for the request */
+  params: RouteParams<Req, CreateCustomerPortalLinkParams>;
+};
+
+/**
+ * Redirect to a provider URL with `303 See Other`, so a form POST is followed
+ * with a GET.
+ */
+function redirectTo(url: string | null): Response {
+  if (!url) {
+    return new Response("The payment provider did not return a URL", {
+      status: 502,
+    });
+  }
+  return new Response(null, { status: 303, headers: { Location: url } });
+}
+
+/**
+ * Create a route that starts a checkout and redirects the customer to it.
+ * Errors from the provider are thrown to the caller.
+ *
+ * @example
+ * ```ts
+ * import { createCheckoutRoute } from "@xyz/payment/adapters/fetch";
+ *
+ * const checkout = createCheckoutRoute({
+ *   provider: usePayment("stripe"),
+ *   params: async (request) => ({
+ *     type: "subscription",
+ *     productId: new URL(request.url).searchParams.get("plan") ?? "price_pro",
+ *     redirectUrl: "https://example.com/billing",
+ *   }),
+ * });
+ * ```
+ */
+export function createCheckoutRoute<Req = Request>(
+  options: CheckoutRouteOptions<Req>
+): (req: Req) => Promise<Response> {
+  return async (req) => {
+    const params = await options.params(req);
+    if (params instanceof Response) {
+      return params;
+    }
+    return redirectTo(await options.provider.createCheckoutLink(params));
+  };
+}
+
+/**
+ * Create a route that redirects the customer to the provider's billing
+ * portal. Errors from the provider are thrown to the caller.
+ */
+export function createPortalRoute<Req = Request>(
+  options: PortalRouteOptions<Req>
+): (req: Req) => Promise<Response> {
+  return async (req) => {
+    const params = await options.params(req);
+    if (params instanceof Response) {
+      return params;
+    }
+    return redirectTo(await options.provider.createCustomerPortalLink(params));
+  };
+}
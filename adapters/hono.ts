@@ -0,0 +1,60 @@
+import type { WebhookHandler } from "../types";
+import {
+  createCheckoutRoute as createFetchCheckoutRoute,
+  createPortalRoute as createFetchPortalRoute,
+  type CheckoutRouteOptions,
+  type PortalRouteOptions,
+} from "./fetch";
+
+export type { CheckoutRouteOptions, PortalRouteOptions };
+
+/**
+ * The parts of a Hono context the adapter uses.
+ */
+export type HonoContext = {
+  req: { raw: Request };
+};
+
+/**
+ * Hono route handler.
+ */
+export type HonoHandler<Ctx extends HonoContext = HonoContext> = (
+  c: Ctx
+) => Promise<Response>;
+
+/**
+ * Serve a provider's webhook handler from Hono. Hono keeps the original
+ * `Request`, so the raw body reaches the handler untouched.
+ *
+ * @example
+ * ```ts
+ * import { toHonoHandler } from "@xyz/payment/adapters/hono";
+ *
+ * app.post(
+ *   "/webhooks/stripe",
+ *   toHonoHandler(usePayment("stripe").webhookHandler)
+ * );
+ * ```
+ */
+export function toHonoHandler(handler: WebhookHandler): HonoHandler {
+  return (c) => handler(c.req.raw);
+}
+
+/**
+ * Create a Hono route that starts a checkout and redirects to it. `params`
+ * receives the Hono context, e.g. to read the signed-in user with `c.get()`.
+ */
+export function createCheckoutRoute<Ctx extends HonoContext>(
+  options: CheckoutRouteOptions<Ctx>
+): HonoHandler<Ctx> {
+  return createFetchCheckoutRoute(options);
+}
+
+/**
+ * Create a Hono route that redirects to the customer portal.
+ */
+export function createPortalRoute<Ctx extends HonoContext>(
+  options: PortalRouteOptions<Ctx>
+): HonoHandler<Ctx> {
+  return createFetchPortalRoute(options);
+}
@@ -0,0 +1,86 @@
+import type { IncomingMessage } from "node:http";
+import type { WebhookHandler } from "../types";
+import {
+  createCheckoutRoute as createFetchCheckoutRoute,
+  createPortalRoute as createFetchPortalRoute,
+  type CheckoutRouteOptions,
+  type PortalRouteOptions,
+} from "./fetch";
+import { toNodeHandler, type NodeHandler } from "./node";
+
+export type { CheckoutRouteOptions, PortalRouteOptions };
+
+/**
+ * App Router route handler.
+ */
+export type NextRouteHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Serve a provider's webhook handler from an App Router route. Route handlers
+ * receive the original `Request`, so the raw body is preserved.
+ *
+ * @example
+ * ```ts
+ * // app/api/webhooks/stripe/route.ts
+ * import { toNextHandler } from "@xyz/payment/adapters/next";
+ *
+ * export const POST = toNextHandler(usePayment("stripe").webhookHandler);
+ * ```
+ */
+export function toNextHandler(handler: WebhookHandler): NextRouteHandler {
+  return (request) => handler(request);
+}
+
+/**
+ * Serve a provider's webhook handler from a Pages Router API route. Turn off
+ * Next's body parser for the route so the raw body can be read.
+ *
+ * @example
+ * ```ts
+ * // pages/api/webhooks/stripe.ts
+ * import { toNextApiHandler } from "@xyz/payment/adapters/next";
+ *
+ * export const config = { api: { bodyParser: false } };
+ * export default toNextApiHandler(usePayment("stripe").webhookHandler);
+ * ```
+ */
+export function toNextApiHandler(
+  handler: WebhookHandler
+): NodeHandler<IncomingMessage> {
+  return toNodeHandler(handler);
+}
+
+/**
+ * Create an App Router route that starts a checkout and redirects to it.
+ *
+ * @example
+ * ```ts
+ * // app/billing/checkout/route.ts
+ * export const GET = createCheckoutRoute({
+ *   provider: usePayment("stripe"),
+ *   params: async () => {
+ *     const user = await currentUser();
+ *     return {
+ *       type: "subscription",
+ *       productId: "price_pro",
+ *       email: user.email,
+ *       redirectUrl: "https://example.com/billing",
+ *     };
+ *   },
+ * });
+ * ```
+ */
+export function createCheckoutRoute(
+  options: CheckoutRouteOptions<Request>
+): NextRouteHandler {
+  return createFetchCheckoutRoute(options);
+}
+
+/**
+ * Create an App Router route that redirects to the customer portal.
+ */
+export function createPortalRoute(
+  options: PortalRouteOptions<Request>
+): NextRouteHandler {
+  return createFetchPortalRoute(options);
+}
@@ -0,0 +1,211 @@
+import {
+  STATUS_CODES,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { logger } from "@xyz/logger";
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  NotFoundError,
+  PaymentError,
+  ProviderUnsupportedError,
+} from "../errors";
+import type { WebhookHandler } from "../types";
+import {
+  createCheckoutRoute as createFetchCheckoutRoute,
+  createPortalRoute as createFetchPortalRoute,
+  type CheckoutRouteOptions,
+  type PortalRouteOptions,
+} from "./fetch";
+
+export type { CheckoutRouteOptions, PortalRouteOptions };
+
+/**
+ * A body left on the request by middleware: `body` from a raw body parser,
+ * or `rawBody` from raw-body plugins.
+ */
+export type ParsedBody = {
+  body?: unknown;
+  rawBody?: unknown;
+};
+
+/**
+ * Handler for Node's `http.createServer`.
+ */
+export type NodeHandler<Req extends IncomingMessage = IncomingMessage> = (
+  req: Req,
+  res: ServerResponse
+) => Promise<void>;
+
+/**
+ * Read the raw request body, byte for byte, as webhook signatures are
+ * computed over it. Uses a `Buffer` or string left by middleware, or reads the
+ * request stream. Throws if middleware already parsed the body into an
+ * object, since the original bytes are gone.
+ */
+export async function readRawBody(
+  req: IncomingMessage,
+  parsed: ParsedBody = req as IncomingMessage & ParsedBody
+): Promise<Buffer> {
+  for (const body of [parsed.rawBody, parsed.body]) {
+    if (Buffer.isBuffer(body)) {
+      return body;
+    }
+    if (typeof body === "string") {
+      return Buffer.from(body);
+    }
+  }
+
+  if (req.readableEnded) {
+    throw new Error(
+      "The request body was already parsed, so the raw body needed to verify the webhook signature is gone. Mount the webhook route before any JSON body parser, or use a raw body parser for it."
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Build a WHATWG `Request` from a Node request and its raw body.
+ */
+export function toRequest(req: IncomingMessage, body?: Buffer): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  const encrypted = (req.socket as { encrypted?: boolean } | undefined)
+    ?.encrypted;
+  const origin = `${encrypted ? "https" : "http"}://${req.headers.host ?? "localhost"}`;
+  const method = req.method ?? "GET";
+
+  return new Request(new URL(req.url ?? "/", origin), {
+    method,
+    headers,
+    body:
+      method === "GET" || method === "HEAD" || !body
+        ? undefined
+        : new Uint8Array(body),
+  });
+}
+
+/**
+ * Write a WHATWG `Response` to a Node response.
+ */
+export async function sendResponse(
+  res: ServerResponse,
+  response: Response
+): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    res.setHeader(name, value);
+  });
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * HTTP status for a failed request. Only requests rejected by our own checks,
+ * before reaching the provider, are the caller's fault (`4xx`). A failing or
+ * unreachable provider is a `502`; anything else is a `500`.
+ */
+function errorStatus(error: unknown): number {
+  if (error instanceof InvalidRequestError && error.httpStatus === null) {
+    return error instanceof NotFoundError ? 404 : 400;
+  }
+  if (
+    !(error instanceof PaymentError) ||
+    error instanceof ConfigurationError ||
+    error instanceof ProviderUnsupportedError
+  ) {
+    return 500;
+  }
+  return 502;
+}
+
+/**
+ * Answer a request that failed with an error and log it. Only the caller's
+ * own errors are answered with their message; others get a generic body, as
+ * provider responses can carry internal details. Ends the response even if it
+ * was partly written.
+ */
+function sendError(res: ServerResponse, error: unknown): void {
+  const status = errorStatus(error);
+  if (status >= 500) {
+    logger.error("Payment request failed", error);
+  }
+
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.statusCode = status;
+  res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  res.end(
+    status < 500 && error instanceof PaymentError
+      ? error.message
+      : STATUS_CODES[status]
+  );
+}
+
+/**
+ * Send the response a route builds, or an error response if it throws.
+ */
+async function respond(
+  res: ServerResponse,
+  route: () => Promise<Response>
+): Promise<void> {
+  try {
+    await sendResponse(res, await route());
+  } catch (error) {
+    sendError(res, error);
+  }
+}
+
+/**
+ * Serve a provider's webhook handler from Node's `http` server. Errors are
+ * answered with an error status, so the returned promise never rejects.
+ *
+ * @example
+ * ```ts
+ * import { createServer } from "node:http";
+ * import { toNodeHandler } from "@xyz/payment/adapters/node";
+ *
+ * const handleWebhook = toNodeHandler(usePayment("stripe").webhookHandler);
+ * createServer((req, res) => {
+ *   if (req.url === "/webhooks/stripe") return handleWebhook(req, res);
+ * }).listen(3000);
+ * ```
+ */
+export function toNodeHandler(handler: WebhookHandler): NodeHandler {
+  return (req, res) =>
+    respond(res, async () => handler(toRequest(req, await readRawBody(req))));
+}
+
+/**
+ * Create a Node route that starts a checkout and redirects to it.
+ */
+export function createCheckoutRoute<Req extends IncomingMessage>(
+  options: CheckoutRouteOptions<Req>
+): NodeHandler<Req> {
+  const route = createFetchCheckoutRoute(options);
+  return (req, res) => respond(res, () => route(req));
+}
+
+/**
+ * Create a Node route that redirects to the customer portal.
+ */
+export function createPortalRoute<Req extends IncomingMessage>(
+  options: PortalRouteOptions<Req>
+): NodeHandler<Req> {
+  const route = createFetchPortalRoute(options);
+  return (req, res) => respond(res, () => route(req));
+}
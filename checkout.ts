@@ -0,0 +1,151 @@
+import { InvalidRequestError, ProviderUnsupportedError } from "./errors";
+import { money } from "./money";
+import type {
+  CheckoutItem,
+  CreateCheckoutLinkParams,
+  CreateDiscountParams,
+  ProviderCapabilities,
+} from "./types";
+
+/**
+ * A checkout item with its quantity resolved.
+ */
+export type ResolvedCheckoutItem = Required<CheckoutItem>;
+
+/**
+ * Resolve the products of a checkout from `items`, or from `productId` and
+ * `seats`.
+ */
+export function checkoutItems(
+  params: Pick<CreateCheckoutLinkParams, "productId" | "seats" | "items">,
+  provider: string
+): ResolvedCheckoutItem[] {
+  const { productId, seats, items } = params;
+  let requested: CheckoutItem[];
+
+  if (items) {
+    if (productId !== undefined || seats !== undefined) {
+      throw new InvalidRequestError(
+        "Pass either items or productId and seats, not both",
+        { provider }
+      );
+    }
+    if (items.length === 0) {
+      throw new InvalidRequestError("items must not be empty", { provider });
+    }
+    requested = items;
+  } else if (productId) {
+    requested = [{ productId, quantity: seats }];
+  } else {
+    throw new InvalidRequestError("Missing productId or items", { provider });
+  }
+
+  const resolved = requested.map((item) => ({
+    productId: item.productId,
+    quantity: item.quantity ?? 1,
+  }));
+
+  for (const item of resolved) {
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw new InvalidRequestError(
+        `Invalid quantity ${item.quantity} for ${item.productId}: expected a positive integer`,
+        { provider }
+      );
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve the only product of a checkout, for providers that sell one product
+ * per checkout.
+ */
+export function singleCheckoutItem(
+  params: Pick<CreateCheckoutLinkParams, "productId" | "seats" | "items">,
+  provider: string,
+  label: string
+): ResolvedCheckoutItem {
+  const items = checkoutItems(params, provider);
+  if (items.length > 1) {
+    throw new ProviderUnsupportedError(
+      `${label} checkouts sell a single product; multi-item checkouts are not supported`,
+      { provider }
+    );
+  }
+  return items[0];
+}
+
+// Checkout parameters and the capability each one needs
+const CHECKOUT_PARAM_CAPABILITIES: [
+  keyof CreateCheckoutLinkParams,
+  keyof ProviderCapabilities,
+][] = [
+  ["trialPeriodDays", "trials"],
+  ["seats", "seats"],
+  ["customerId", "customerId"],
+  ["email", "email"],
+  ["name", "name"],
+  ["discountCode", "discountCodes"],
+  ["allowPromotionCodes", "promotionCodes"],
+];
+
+/**
+ * Reject checkout parameters the provider would otherwise ignore. Providers
+ * call this in strict mode.
+ */
+export function assertCheckoutCapabilities(
+  params: CreateCheckoutLinkParams,
+  capabilities: ProviderCapabilities,
+  provider: string,
+  label: string
+): void {
+  for (const [param, capability] of CHECKOUT_PARAM_CAPABILITIES) {
+    if (params[param] !== undefined && !capabilities[capability]) {
+      throw new ProviderUnsupportedError(
+        `${label} checkouts do not support ${param}`,
+        { provider }
+      );
+    }
+  }
+  if (
+    !capabilities.seats &&
+    params.items?.some((item) => item.quantity !== undefined)
+  ) {
+    throw new ProviderUnsupportedError(
+      `${label} checkouts do not support item quantities`,
+      { provider }
+    );
+  }
+}
+
+/**
+ * Check the terms of a new discount before sending them to the provider.
+ */
+export function assertDiscountParams(
+  params: CreateDiscountParams,
+  provider: string
+): void {
+  const { percentOff, amountOff, duration, durationInMonths } = params;
+
+  if ((percentOff === undefined) === (amountOff === undefined)) {
+    throw new InvalidRequestError("Set either percentOff or amountOff", {
+      provider,
+    });
+  }
+  if (percentOff !== undefined && !(percentOff > 0 && percentOff <= 100)) {
+    throw new InvalidRequestError(
+      `Invalid percentOff ${percentOff}: expected a number above 0 and up to 100`,
+      { provider }
+    );
+  }
+  if (amountOff) {
+    money(amountOff.amount, amountOff.currency, provider);
+  }
+  if ((duration === "repeating") !== (durationInMonths !== undefined)) {
+    throw new InvalidRequestError(
+      "durationInMonths is required for, and only allowed with, repeating discounts",
+      { provider }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { ConfigurationError } from "./errors";
+import type { PaymentMode, ProviderOptions } from "./types";
+
+/**
+ * Read an environment variable.
+ * Returns undefined on runtimes without `process.env`, such as Cloudflare
+ * Workers, where credentials must be passed to the provider factory.
+ */
+export function readEnv(name: string): string | undefined {
+  return typeof process === "undefined" ? undefined : process.env[name];
+}
+
+/**
+ * Resolve the mode of a provider instance.
+ * Order: `mode` (or deprecated `environment`), the `PAYMENT_MODE` env
+ * variable, the mode encoded in the API key, then "test".
+ * Throws when the configured mode contradicts the API key.
+ */
+export function resolveMode(
+  provider: string,
+  options: ProviderOptions,
+  keyMode: PaymentMode | null = null
+): PaymentMode {
+  const envMode = readEnv("PAYMENT_MODE");
+  if (envMode !== undefined && envMode !== "test" && envMode !== "live") {
+    throw new ConfigurationError(
+      `Invalid env variable PAYMENT_MODE: expected "test" or "live", got "${envMode}"`,
+      { provider }
+    );
+  }
+
+  const mode = options.mode ?? options.environment ?? envMode ?? keyMode;
+  if (mode && keyMode && mode !== keyMode) {
+    throw new ConfigurationError(
+      `${provider} is configured for ${mode} mode but the API key is a ${keyMode} key`,
+      { provider }
+    );
+  }
+
+  return mode ?? "test";
+}
+
+/**
+ * Mode encoded in an API key prefix such as `sk_test_` / `sk_live_`.
+ */
+export function modeFromKeyPrefix(
+  key: string,
+  prefixes: Record<PaymentMode, string[]>
+): PaymentMode | null {
+  if (prefixes.test.some((prefix) => key.startsWith(prefix))) return "test";
+  if (prefixes.live.some((prefix) => key.startsWith(prefix))) return "live";
+  return null;
+}
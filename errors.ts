@@ -0,0 +1,209 @@
+/**
+ * Details attached to a payment error.
+ */
+export type PaymentErrorOptions = {
+  /** Provider that produced the error */
+  provider: string;
+  /** HTTP status of the provider response, if any */
+  httpStatus?: number | null;
+  /** Provider error code, e.g. `resource_missing` */
+  code?: string | null;
+  /** Card decline code, e.g. `insufficient_funds` */
+  declineCode?: string | null;
+  /** Whether retrying the same request may succeed */
+  retryable?: boolean;
+  /** Error body or cause as received */
+  raw?: unknown;
+};
+
+/**
+ * Base class for every error thrown by a payment provider.
+ */
+export class PaymentError extends Error {
+  readonly provider: string;
+  readonly httpStatus: number | null;
+  readonly code: string | null;
+  readonly declineCode: string | null;
+  readonly retryable: boolean;
+  readonly raw: unknown;
+
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message);
+    this.name = "PaymentError";
+    this.provider = options.provider;
+    this.httpStatus = options.httpStatus ?? null;
+    this.code = options.code ?? null;
+    this.declineCode = options.declineCode ?? null;
+    this.retryable = options.retryable ?? false;
+    this.raw = options.raw;
+  }
+}
+
+/**
+ * The API key or access token is missing, invalid or lacks permissions.
+ */
+export class AuthenticationError extends PaymentError {
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message, options);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * The request was rejected, e.g. an unknown product ID or invalid parameter.
+ */
+export class InvalidRequestError extends PaymentError {
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message, options);
+    this.name = "InvalidRequestError";
+  }
+}
+
+/**
+ * The requested resource does not exist.
+ */
+export class NotFoundError extends InvalidRequestError {
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * The card was declined.
+ */
+export class CardDeclinedError extends PaymentError {
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message, options);
+    this.name = "CardDeclinedError";
+  }
+}
+
+/**
+ * Too many requests; retry after backing off.
+ */
+export class RateLimitError extends PaymentError {
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message, { retryable: true, ...options });
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The provider could not be reached or did not answer in time.
+ */
+export class ApiConnectionError extends PaymentError {
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message, options);
+    this.name = "ApiConnectionError";
+  }
+}
+
+/**
+ * The provider does not support the requested operation.
+ */
+export class ProviderUnsupportedError extends PaymentError {
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message, options);
+    this.name = "ProviderUnsupportedError";
+  }
+}
+
+/**
+ * The provider is misconfigured, e.g. a missing credential or a key that
+ * contradicts the configured mode.
+ */
+export class ConfigurationError extends PaymentError {
+  constructor(message: string, options: PaymentErrorOptions) {
+    super(message, options);
+    this.name = "ConfigurationError";
+  }
+}
+
+/**
+ * Details attached to a validation error.
+ */
+export type ValidationErrorOptions = PaymentErrorOptions & {
+  /** Location of the unexpected value, e.g. `data.attributes.url` */
+  path: string;
+  /** The unexpected value */
+  value: unknown;
+};
+
+/**
+ * A provider API response or webhook payload does not have the expected
+ * shape, e.g. because the provider changed a field.
+ */
+export class ValidationError extends PaymentError {
+  readonly path: string;
+  readonly value: unknown;
+
+  constructor(message: string, options: ValidationErrorOptions) {
+    super(message, options);
+    this.name = "ValidationError";
+    this.path = options.path;
+    this.value = options.value;
+  }
+}
+
+/**
+ * Error details read from a provider's native error body.
+ */
+export type ProviderErrorDetails = {
+  message?: string | null;
+  code?: string | null;
+  declineCode?: string | null;
+  /** Set when the provider reports the failure as a card decline */
+  isDecline?: boolean;
+};
+
+/**
+ * Read an error response body as JSON, falling back to text.
+ */
+export async function readErrorBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Build the typed error for a failed provider API response.
+ */
+export function createApiError(
+  provider: string,
+  label: string,
+  status: number,
+  details: ProviderErrorDetails,
+  raw: unknown
+): PaymentError {
+  const message = `${label} API error (${status}): ${
+    details.message || (typeof raw === "string" ? raw : JSON.stringify(raw))
+  }`;
+  const options: PaymentErrorOptions = {
+    provider,
+    httpStatus: status,
+    code: details.code,
+    declineCode: details.declineCode,
+    raw,
+  };
+
+  if (details.isDecline || details.declineCode) {
+    return new CardDeclinedError(message, options);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, options);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, options);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, options);
+  }
+  if (status >= 500) {
+    return new PaymentError(message, { ...options, retryable: true });
+  }
+  return new InvalidRequestError(message, options);
+}
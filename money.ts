@@ -0,0 +1,119 @@
+import { InvalidRequestError } from "./errors";
+import type { Money } from "./types";
+
+/**
+ * Decimal places of currencies that do not use two (ISO 4217).
+ * Every other currency has two decimal places.
+ */
+export const CURRENCY_DECIMALS: Readonly<Record<string, number>> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+  UYW: 4,
+};
+
+/**
+ * Number of decimal places of a currency, e.g. 2 for USD, 0 for JPY and 3
+ * for KWD.
+ */
+export function currencyDecimals(currency: string): number {
+  return CURRENCY_DECIMALS[currency.toUpperCase()] ?? 2;
+}
+
+/**
+ * Create a `Money` value, checking that the amount is a whole number of minor
+ * units and the currency is a three-letter code.
+ *
+ * @example
+ * ```ts
+ * money(2999, "USD"); // $29.99
+ * money(5000, "KWD"); // 5.000 KWD
+ * money(500, "JPY"); // ¥500
+ * ```
+ */
+export function money(
+  amount: number,
+  currency: string,
+  provider = "unknown"
+): Money {
+  if (!/^[A-Za-z]{3}$/.test(currency)) {
+    throw new InvalidRequestError(`Invalid currency code: ${currency}`, {
+      provider,
+      code: "invalid_currency",
+    });
+  }
+  assertMinorUnits(amount, provider);
+  return { amount, currency: currency.toUpperCase() };
+}
+
+/**
+ * Check that an amount is a non-negative whole number of minor units.
+ */
+export function assertMinorUnits(amount: number, provider = "unknown"): void {
+  if (!Number.isSafeInteger(amount) || amount < 0) {
+    throw new InvalidRequestError(
+      `Invalid amount ${amount}: amounts are whole numbers in the currency's smallest unit`,
+      { provider, code: "invalid_amount" }
+    );
+  }
+}
+
+/**
+ * Convert a decimal amount such as `29.99` into minor units (`2999`).
+ * Amounts with more decimal places than the currency has are rejected rather
+ * than rounded.
+ */
+export function toMinorUnits(
+  amount: number,
+  currency: string,
+  provider = "unknown"
+): number {
+  const code = currency.toUpperCase();
+  const decimals = currencyDecimals(code);
+  const scaled = amount * 10 ** decimals;
+  const minor = Math.round(scaled);
+
+  // Allow for binary floating point error, e.g. 29.99 * 100 = 2998.9999...
+  if (Math.abs(scaled - minor) > 1e-6) {
+    throw new InvalidRequestError(
+      `Invalid amount ${amount} ${code}: ${code} has ${decimals} decimal places`,
+      { provider, code: "invalid_amount" }
+    );
+  }
+  assertMinorUnits(minor, provider);
+  return minor;
+}
+
+/**
+ * Convert minor units (`2999`) into a decimal amount (`29.99`).
+ */
+export function fromMinorUnits(
+  amount: number,
+  currency: string,
+  provider = "unknown"
+): number {
+  assertMinorUnits(amount, provider);
+  return amount / 10 ** currencyDecimals(currency);
+}
@@ -1,15 +1,75 @@
 import { logger } from "@xyz/logger";
 import type {
+  CancelSubscription,
   CreateCheckoutLink,
+  CreateCheckoutSession,
+  CreateCustomer,
   CreateCustomerPortalLink,
+  CreateDiscount,
+  CreateRefund,
+  CreateWebhookHandler,
+  FindCustomerByEmail,
+  GetCheckoutSession,
+  GetCustomer,
+  GetSubscription,
+  ListDiscounts,
+  ListRefunds,
+  ListSubscriptions,
+  ProviderCapabilities,
+  SetSubscriptionSeats,
+  UpdateCustomer,
   WebhookHandler,
 } from "../types";
 
+// The console provider accepts everything and logs it
+export const capabilities: ProviderCapabilities = {
+  customerPortal: true,
+  trials: true,
+  seats: true,
+  customerId: true,
+  email: true,
+  name: true,
+  multiItem: true,
+  discountCodes: true,
+  promotionCodes: true,
+  subscriptions: true,
+  listSubscriptions: true,
+  cancelImmediately: true,
+  seatUpdates: true,
+  customerWrites: true,
+  refunds: true,
+  discounts: true,
+};
+
 export const createCheckoutLink: CreateCheckoutLink = async (params) => {
   logger.info("Creating checkout link", params);
   return "https://example.com/checkout/mock-session-id";
 };
 
+export const createCheckoutSession: CreateCheckoutSession = async (params) => {
+  logger.info("Creating checkout session", params);
+  return {
+    provider: "console",
+    id: "mock-session-id",
+    url: "https://example.com/checkout/mock-session-id",
+    status: "open",
+    expiresAt: null,
+    raw: null,
+  };
+};
+
+export const getCheckoutSession: GetCheckoutSession = async (id) => {
+  logger.info("Getting checkout session", { id });
+  return {
+    provider: "console",
+    id,
+    url: `https://example.com/checkout/${id}`,
+    status: "paid",
+    expiresAt: null,
+    raw: null,
+  };
+};
+
 export const createCustomerPortalLink: CreateCustomerPortalLink = async (
   params
 ) => {
@@ -17,10 +77,135 @@ export const createCustomerPortalLink: CreateCustomerPortalLink = async (
   return "https://example.com/portal/mock-session-id";
 };
 
-export const webhookHandler: WebhookHandler = async (req) => {
-  logger.info("Received webhook", {
-    method: req.method,
-    url: req.url,
-  });
-  return new Response(null, { status: 200 });
+export const cancelSubscription: CancelSubscription = async (id, options) => {
+  logger.info("Canceling subscription", { id, ...options });
+};
+
+export const setSubscriptionSeats: SetSubscriptionSeats = async (params) => {
+  logger.info("Setting subscription seats", params);
+};
+
+export const getSubscription: GetSubscription = async (id) => {
+  logger.info("Getting subscription", { id });
+  return {
+    provider: "console",
+    id,
+    customerId: "mock-customer-id",
+    status: "active",
+    productId: "mock-product-id",
+    seats: 1,
+    currentPeriodStart: null,
+    currentPeriodEnd: null,
+    trialEnd: null,
+    cancelAtPeriodEnd: false,
+    raw: null,
+  };
+};
+
+export const listSubscriptions: ListSubscriptions = async (params) => {
+  logger.info("Listing subscriptions", params);
+  return [];
+};
+
+export const createCustomer: CreateCustomer = async (params) => {
+  logger.info("Creating customer", params);
+  return {
+    provider: "console",
+    id: "mock-customer-id",
+    email: params.email,
+    name: params.name ?? null,
+    organizationId: params.organizationId ?? null,
+    userId: params.userId ?? null,
+    metadata: params.metadata ?? {},
+    raw: null,
+  };
+};
+
+export const getCustomer: GetCustomer = async (id) => {
+  logger.info("Getting customer", { id });
+  return {
+    provider: "console",
+    id,
+    email: "user@example.com",
+    name: null,
+    organizationId: null,
+    userId: null,
+    metadata: {},
+    raw: null,
+  };
+};
+
+export const updateCustomer: UpdateCustomer = async (params) => {
+  logger.info("Updating customer", params);
+  return {
+    provider: "console",
+    id: params.id,
+    email: params.email ?? "user@example.com",
+    name: params.name ?? null,
+    organizationId: params.organizationId ?? null,
+    userId: params.userId ?? null,
+    metadata: params.metadata ?? {},
+    raw: null,
+  };
+};
+
+export const findCustomerByEmail: FindCustomerByEmail = async (email) => {
+  logger.info("Finding customer by email", { email });
+  return null;
+};
+
+export const createRefund: CreateRefund = async (params) => {
+  logger.info("Creating refund", params);
+  return {
+    provider: "console",
+    id: "mock-refund-id",
+    paymentId: params.paymentId,
+    amount: params.amount ?? null,
+    currency: null,
+    status: "succeeded",
+    reason: params.reason ?? null,
+    createdAt: new Date(),
+    raw: null,
+  };
 };
+
+export const listRefunds: ListRefunds = async (params) => {
+  logger.info("Listing refunds", params);
+  return [];
+};
+
+export const createDiscount: CreateDiscount = async (params) => {
+  logger.info("Creating discount", params);
+  return {
+    provider: "console",
+    id: "mock-discount-id",
+    code: params.code,
+    name: params.name ?? null,
+    percentOff: params.percentOff ?? null,
+    amountOff: params.amountOff?.amount ?? null,
+    currency: params.amountOff?.currency ?? null,
+    duration: params.duration ?? "once",
+    durationInMonths: params.durationInMonths ?? null,
+    maxRedemptions: params.maxRedemptions ?? null,
+    timesRedeemed: 0,
+    expiresAt: params.expiresAt ?? null,
+    active: true,
+    raw: null,
+  };
+};
+
+export const listDiscounts: ListDiscounts = async (params) => {
+  logger.info("Listing discounts", params);
+  return [];
+};
+
+export const createWebhookHandler: CreateWebhookHandler =
+  (_options) => async (req) => {
+    logger.info("Received webhook", {
+      method: req.method,
+      url: req.url,
+    });
+    return new Response(null, { status: 200 });
+  };
+
+export const webhookHandler: WebhookHandler = createWebhookHandler();
@@ -1,136 +1,857 @@
 import { createHmac } from "node:crypto";
 import type {
+  CancelSubscription,
+  CheckoutSession,
+  CheckoutSessionStatus,
   CreateCheckoutLink,
+  CreateCheckoutSession,
+  CreateCustomer,
   CreateCustomerPortalLink,
-  WebhookHandler,
+  CreateDiscount,
+  CreateRefund,
+  CreateWebhookHandler,
+  Customer,
+  Discount,
+  FindCustomerByEmail,
+  GetCheckoutSession,
+  GetCustomer,
+  GetSubscription,
+  ListDiscounts,
+  ListRefunds,
+  ListSubscriptions,
+  PaymentEvent,
+  PaymentMode,
+  PaymentProvider,
+  ProviderCapabilities,
+  ProviderOptions,
+  SeatProration,
+  SetSubscriptionSeats,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionStatus,
+  UpdateCustomer,
 } from "../types";
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  ProviderUnsupportedError,
+  createApiError,
+  readErrorBody,
+  type PaymentError,
+} from "../errors";
+import { createTransport, type TransportRequestInit } from "../transport";
+import {
+  assertCheckoutCapabilities,
+  assertDiscountParams,
+  singleCheckoutItem,
+} from "../checkout";
+import { modeFromKeyPrefix, readEnv, resolveMode } from "../config";
+import * as schema from "../schema";
+import {
+  bodyDigest,
+  invalidPayloadResponse,
+  readMetadataIds,
+  respondToEvent,
+  safeEqual,
+  toDate,
+} from "../webhook";
 
-function getCreemApiUrl(): string {
-  return process.env.NODE_ENV === "production"
-    ? "https://api.creem.io/v1"
-    : "https://test-api.creem.io/v1";
+const CREEM_API_URLS: Record<PaymentMode, string> = {
+  test: "https://test-api.creem.io/v1",
+  live: "https://api.creem.io/v1",
+};
+
+// Test keys are checked first since live keys share the `creem_` prefix
+const CREEM_KEY_PREFIXES = { test: ["creem_test_"], live: ["creem_"] };
+
+const CREEM_CAPABILITIES: ProviderCapabilities = {
+  customerPortal: true,
+  trials: false,
+  seats: true,
+  customerId: false,
+  email: true,
+  name: false,
+  multiItem: false,
+  discountCodes: true,
+  promotionCodes: false,
+  subscriptions: true,
+  listSubscriptions: false,
+  cancelImmediately: true,
+  seatUpdates: true,
+  customerWrites: false,
+  refunds: false,
+  discounts: true,
+};
+
+const SUBSCRIPTION_EVENT_TYPES: Record<string, SubscriptionEvent["type"]> = {
+  "subscription.active": "subscription.created",
+  "subscription.trialing": "subscription.created",
+  "subscription.update": "subscription.updated",
+  "subscription.paused": "subscription.updated",
+  "subscription.canceled": "subscription.canceled",
+  "subscription.expired": "subscription.expired",
+};
+
+const SUBSCRIPTION_STATUSES: Record<string, SubscriptionStatus> = {
+  trialing: "trialing",
+  active: "active",
+  unpaid: "past_due",
+  paused: "paused",
+  canceled: "canceled",
+  scheduled_cancel: "active",
+  expired: "expired",
+};
+
+const CHECKOUT_STATUSES: Record<string, CheckoutSessionStatus> = {
+  pending: "open",
+  processing: "processing",
+  completed: "paid",
+  expired: "expired",
+};
+
+const UPDATE_BEHAVIORS: Record<SeatProration, string> = {
+  prorate: "proration-charge",
+  invoice: "proration-charge-immediately",
+  none: "proration-none",
+};
+
+// Creem sends related resources either expanded or as a bare ID
+const refSchema = schema.optional(
+  schema.union(schema.string, schema.object({ id: schema.string }))
+);
+
+const productRefSchema = schema.optional(
+  schema.union(
+    schema.string,
+    schema.object({
+      id: schema.string,
+      price: schema.optional(schema.number),
+      currency: schema.optional(schema.string),
+    })
+  )
+);
+
+const checkoutSchema = schema.object({
+  id: schema.string,
+  checkout_url: schema.optional(schema.string),
+  status: schema.string,
+  subscription: refSchema,
+  product: productRefSchema,
+  order: schema.optional(
+    schema.object({
+      amount: schema.optional(schema.number),
+      currency: schema.optional(schema.string),
+    })
+  ),
+});
+
+const subscriptionSchema = schema.object({
+  id: schema.string,
+  customer: refSchema,
+  status: schema.string,
+  product: productRefSchema,
+  items: schema.optional(
+    schema.array(
+      schema.object({
+        id: schema.string,
+        units: schema.optional(schema.number),
+      })
+    )
+  ),
+  current_period_start_date: schema.optional(schema.string),
+  current_period_end_date: schema.optional(schema.string),
+  last_transaction_id: schema.optional(schema.string),
+});
+
+const refundSchema = schema.object({
+  id: schema.string,
+  transaction: refSchema,
+  refund_amount: schema.optional(schema.number),
+  refund_currency: schema.optional(schema.string),
+});
+
+const customerSchema = schema.object({
+  id: schema.string,
+  email: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+});
+
+const discountSchema = schema.object({
+  id: schema.string,
+  code: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  type: schema.optional(schema.string),
+  percentage: schema.optional(schema.number),
+  amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  duration: schema.optional(schema.oneOf("once", "forever", "repeating")),
+  duration_in_months: schema.optional(schema.number),
+  max_redemptions: schema.optional(schema.number),
+  expiry_date: schema.optional(schema.string),
+  status: schema.optional(schema.string),
+});
+
+const eventSchema = schema.object({
+  id: schema.optional(schema.string),
+  eventType: schema.string,
+  object: schema.object({ customer: refSchema }),
+});
+
+type CreemEvent = schema.Infer<typeof eventSchema>;
+
+/**
+ * Check the object of a Creem event against a schema.
+ */
+function eventObject<T>(
+  objectSchema: schema.Schema<T>,
+  event: CreemEvent
+): T {
+  return schema.parse(
+    objectSchema,
+    event.object,
+    "creem",
+    "Creem webhook payload",
+    "object"
+  );
+}
+
+/**
+ * Read the ID of a related resource.
+ */
+function idOf(value: schema.Infer<typeof refSchema>): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
 }
 
-function getCreemApiKey(): string {
-  const apiKey = process.env.CREEM_API_KEY;
-  if (!apiKey) {
-    throw new Error("Missing env variable CREEM_API_KEY");
+/**
+ * Map a Creem event onto the normalized event model.
+ */
+function toPaymentEvent(payload: CreemEvent): PaymentEvent | null {
+  const base = {
+    provider: "creem",
+    id: payload.id ?? null,
+    providerEventType: payload.eventType,
+    customerId: idOf(payload.object.customer),
+    ...readMetadataIds(payload.object.metadata),
+    raw: payload,
+  };
+
+  switch (payload.eventType) {
+    case "checkout.completed": {
+      const object = eventObject(checkoutSchema, payload);
+      return {
+        ...base,
+        type: "checkout.completed",
+        checkoutId: object.id,
+        subscriptionId: idOf(object.subscription),
+        productId: idOf(object.product),
+        amount: object.order?.amount ?? null,
+        currency: object.order?.currency?.toUpperCase() ?? null,
+      };
+    }
+    case "subscription.active":
+    case "subscription.trialing":
+    case "subscription.update":
+    case "subscription.paused":
+    case "subscription.canceled":
+    case "subscription.expired": {
+      const object = eventObject(subscriptionSchema, payload);
+      return {
+        ...base,
+        type: SUBSCRIPTION_EVENT_TYPES[payload.eventType],
+        subscriptionId: object.id,
+        productId: idOf(object.product),
+        status: SUBSCRIPTION_STATUSES[object.status] ?? "active",
+        seats: object.items?.[0]?.units ?? null,
+        currentPeriodEnd: toDate(object.current_period_end_date),
+        cancelAtPeriodEnd: object.status === "scheduled_cancel",
+      };
+    }
+    case "subscription.paid": {
+      const object = eventObject(subscriptionSchema, payload);
+      const product = typeof object.product === "object" ? object.product : null;
+      return {
+        ...base,
+        type: "payment.succeeded",
+        paymentId: object.last_transaction_id ?? object.id,
+        subscriptionId: object.id,
+        amount: product?.price ?? null,
+        currency: product?.currency?.toUpperCase() ?? null,
+      };
+    }
+    case "refund.created": {
+      const object = eventObject(refundSchema, payload);
+      return {
+        ...base,
+        type: "refund.created",
+        refundId: object.id,
+        paymentId: idOf(object.transaction),
+        amount: object.refund_amount ?? null,
+        currency: object.refund_currency?.toUpperCase() ?? null,
+        status: "succeeded",
+      };
+    }
+    default:
+      return null;
   }
-  return apiKey;
 }
 
-async function creemFetch(
-  path: string,
-  init: RequestInit
-): Promise<Response> {
-  const apiKey = getCreemApiKey();
-  const baseUrl = getCreemApiUrl();
-
-  return fetch(`${baseUrl}${path}`, {
-    ...init,
-    headers: {
-      "x-api-key": apiKey,
-      "Content-Type": "application/json",
-      ...init.headers,
-    },
-  });
+/**
+ * Map a Creem checkout object onto the normalized checkout session model.
+ */
+function toCheckoutSession(
+  object: schema.Infer<typeof checkoutSchema>
+): CheckoutSession {
+  return {
+    provider: "creem",
+    id: object.id,
+    url: object.checkout_url ?? null,
+    status: CHECKOUT_STATUSES[object.status] ?? "open",
+    expiresAt: null,
+    raw: object,
+  };
 }
 
-export const createCheckoutLink: CreateCheckoutLink = async (params) => {
-  const { productId, redirectUrl, organizationId, userId, seats, email } =
-    params;
-
-  const response = await creemFetch("/checkouts", {
-    method: "POST",
-    body: JSON.stringify({
-      product_id: productId,
-      units: seats ?? 1,
-      success_url: redirectUrl ?? undefined,
-      metadata: {
-        organization_id: organizationId || null,
-        user_id: userId || null,
-      },
-      customer: {
-        email,
-      },
-    }),
-  });
+/**
+ * Map a Creem subscription object onto the normalized subscription model.
+ */
+function toSubscription(
+  object: schema.Infer<typeof subscriptionSchema>
+): Subscription {
+  return {
+    provider: "creem",
+    id: object.id,
+    customerId: idOf(object.customer),
+    status: SUBSCRIPTION_STATUSES[object.status] ?? "active",
+    productId: idOf(object.product),
+    seats: object.items?.[0]?.units ?? null,
+    currentPeriodStart: toDate(object.current_period_start_date),
+    currentPeriodEnd: toDate(object.current_period_end_date),
+    trialEnd: null,
+    cancelAtPeriodEnd: object.status === "scheduled_cancel",
+    raw: object,
+  };
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Creem API error: ${JSON.stringify(error)}`);
-  }
+/**
+ * Map a Creem customer object onto the normalized customer model.
+ */
+function toCustomer(object: schema.Infer<typeof customerSchema>): Customer {
+  return {
+    provider: "creem",
+    id: object.id,
+    email: object.email ?? null,
+    name: object.name ?? null,
+    organizationId: null,
+    userId: null,
+    metadata: {},
+    raw: object,
+  };
+}
 
-  const result = (await response.json()) as { checkout_url: string };
-  return result.checkout_url;
-};
+/**
+ * Map a Creem discount object onto the normalized discount model.
+ */
+function toDiscount(object: schema.Infer<typeof discountSchema>): Discount {
+  const fixed = object.type === "fixed";
+  return {
+    provider: "creem",
+    id: object.id,
+    code: object.code ?? null,
+    name: object.name ?? null,
+    percentOff: fixed ? null : (object.percentage ?? null),
+    amountOff: fixed ? (object.amount ?? null) : null,
+    currency: fixed ? (object.currency ?? null) : null,
+    duration: object.duration ?? null,
+    durationInMonths: object.duration_in_months ?? null,
+    maxRedemptions: object.max_redemptions ?? null,
+    timesRedeemed: null,
+    expiresAt: toDate(object.expiry_date),
+    active: object.status === "active",
+    raw: object,
+  };
+}
 
-export const createCustomerPortalLink: CreateCustomerPortalLink = async (
-  params
-) => {
-  const { customerId } = params;
-
-  const response = await creemFetch("/customers/billing", {
-    method: "POST",
-    body: JSON.stringify({
-      customer_id: customerId,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Creem API error: ${JSON.stringify(error)}`);
-  }
+/**
+ * Map a Creem error response onto a typed payment error.
+ */
+async function creemError(response: Response): Promise<PaymentError> {
+  const body = await readErrorBody(response);
+  const { error, message } = (body ?? {}) as {
+    error?: string;
+    message?: string | string[];
+  };
+  return createApiError(
+    "creem",
+    "Creem",
+    response.status,
+    {
+      message: Array.isArray(message) ? message.join("; ") : message,
+      code: error,
+    },
+    body
+  );
+}
 
-  const result = (await response.json()) as { customer_portal_link: string };
-  return result.customer_portal_link;
+/**
+ * Creem provider configuration.
+ * Unset credentials fall back to environment variables.
+ */
+export type CreemConfig = ProviderOptions & {
+  /** API key (default: `CREEM_API_KEY`) */
+  apiKey?: string;
+  /** Webhook signing secret (default: `CREEM_WEBHOOK_SECRET`) */
+  webhookSecret?: string;
 };
 
-export const webhookHandler: WebhookHandler = async (req) => {
-  if (req.method !== "POST") {
-    return new Response("Method not allowed", { status: 405 });
-  }
+/**
+ * Create an isolated Creem provider instance.
+ *
+ * @example
+ * ```ts
+ * import { createCreemProvider } from "@xyz/payment/providers/creem";
+ *
+ * const creem = createCreemProvider({
+ *   apiKey: workspace.creemKey,
+ *   mode: "live",
+ * });
+ * ```
+ */
+export function createCreemProvider(
+  config: CreemConfig = {}
+): PaymentProvider {
+  const request = createTransport(config, { provider: "creem" });
 
-  const signature = req.headers.get("creem-signature");
-  if (!signature) {
-    return new Response("Missing signature", { status: 400 });
+  function getCreemApiUrl(apiKey: string): string {
+    const mode = resolveMode(
+      "creem",
+      config,
+      modeFromKeyPrefix(apiKey, CREEM_KEY_PREFIXES)
+    );
+    return config.baseUrl ?? CREEM_API_URLS[mode];
   }
 
-  const secret = process.env.CREEM_WEBHOOK_SECRET;
-  if (!secret) {
-    return new Response("Missing CREEM_WEBHOOK_SECRET", { status: 500 });
+  function getCreemApiKey(): string {
+    const apiKey = config.apiKey ?? readEnv("CREEM_API_KEY");
+    if (!apiKey) {
+      throw new ConfigurationError("Missing env variable CREEM_API_KEY", {
+        provider: "creem",
+      });
+    }
+    return apiKey;
   }
 
-  const bodyText = await req.text();
-  const computedSignature = createHmac("sha256", secret)
-    .update(bodyText)
-    .digest("hex");
+  async function creemFetch(
+    path: string,
+    init: TransportRequestInit
+  ): Promise<Response> {
+    const apiKey = getCreemApiKey();
+    const baseUrl = getCreemApiUrl(apiKey);
 
-  if (computedSignature !== signature) {
-    return new Response("Invalid signature", { status: 400 });
+    return request(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+    });
   }
 
-  try {
-    const payload = JSON.parse(bodyText) as {
-      eventType: string;
-      object: Record<string, unknown>;
+  const createCheckoutSession: CreateCheckoutSession = async (params) => {
+    if (config.strict) {
+      assertCheckoutCapabilities(params, CREEM_CAPABILITIES, "creem", "Creem");
+    }
+    const {
+      redirectUrl,
+      organizationId,
+      userId,
+      email,
+      discountCode,
+      allowPromotionCodes,
+    } = params;
+    if (allowPromotionCodes === false) {
+      throw new ProviderUnsupportedError(
+        "Creem always lets customers enter a discount code at checkout",
+        { provider: "creem" }
+      );
+    }
+    const { productId, quantity } = singleCheckoutItem(
+      params,
+      "creem",
+      "Creem"
+    );
+
+    const response = await creemFetch("/checkouts", {
+      method: "POST",
+      body: JSON.stringify({
+        product_id: productId,
+        units: quantity,
+        discount_code: discountCode,
+        success_url: redirectUrl ?? undefined,
+        metadata: {
+          organization_id: organizationId || null,
+          user_id: userId || null,
+        },
+        customer: {
+          email,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+
+    return toCheckoutSession(
+      await schema.readJson(response, checkoutSchema, "creem", "Creem")
+    );
+  };
+
+  const createCheckoutLink: CreateCheckoutLink = async (params) => {
+    const session = await createCheckoutSession(params);
+    return session.url;
+  };
+
+  const getCheckoutSession: GetCheckoutSession = async (id) => {
+    const response = await creemFetch(
+      `/checkouts?checkout_id=${encodeURIComponent(id)}`,
+      { method: "GET" }
+    );
+
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+
+    return toCheckoutSession(
+      await schema.readJson(response, checkoutSchema, "creem", "Creem")
+    );
+  };
+
+  const createCustomerPortalLink: CreateCustomerPortalLink = async (
+    params
+  ) => {
+    const { customerId } = params;
+
+    const response = await creemFetch("/customers/billing", {
+      method: "POST",
+      body: JSON.stringify({
+        customer_id: customerId,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ customer_portal_link: schema.string }),
+      "creem",
+      "Creem"
+    );
+    return result.customer_portal_link;
+  };
+
+  const cancelSubscription: CancelSubscription = async (id, options = {}) => {
+    const response = await creemFetch(
+      `/subscriptions/${encodeURIComponent(id)}/cancel`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          mode: options.immediately ? "immediate" : "scheduled",
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+  };
+
+  const setSubscriptionSeats: SetSubscriptionSeats = async (params) => {
+    const { id, seats, proration = "prorate" } = params;
+
+    // Units are set per subscription item, so look up its ID first
+    const subscriptionResponse = await creemFetch(
+      `/subscriptions?subscription_id=${encodeURIComponent(id)}`,
+      { method: "GET" }
+    );
+
+    if (!subscriptionResponse.ok) {
+      throw await creemError(subscriptionResponse);
+    }
+
+    const subscription = await schema.readJson(
+      subscriptionResponse,
+      schema.object({
+        items: schema.array(schema.object({ id: schema.string })),
+      }),
+      "creem",
+      "Creem"
+    );
+    if (subscription.items.length !== 1) {
+      throw new InvalidRequestError(
+        `Creem subscription ${id} has ${subscription.items.length} items; seats can only be set on a single-item subscription`,
+        { provider: "creem" }
+      );
+    }
+
+    const response = await creemFetch(
+      `/subscriptions/${encodeURIComponent(id)}/update`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          items: [{ id: subscription.items[0].id, units: seats }],
+          update_behavior: UPDATE_BEHAVIORS[proration],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+  };
+
+  const getSubscription: GetSubscription = async (id) => {
+    const response = await creemFetch(
+      `/subscriptions?subscription_id=${encodeURIComponent(id)}`,
+      { method: "GET" }
+    );
+
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+
+    return toSubscription(
+      await schema.readJson(response, subscriptionSchema, "creem", "Creem")
+    );
+  };
+
+  const listSubscriptions: ListSubscriptions = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Creem has no API for listing a customer's subscriptions. Store subscription IDs from webhooks and use getSubscription().",
+      { provider: "creem" }
+    );
+  };
+
+  // Creem creates customers during checkout and has no customer write API
+  const createCustomer: CreateCustomer = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Creem creates customers during checkout. Pass email to createCheckoutLink instead.",
+      { provider: "creem" }
+    );
+  };
+
+  const getCustomer: GetCustomer = async (id) => {
+    const response = await creemFetch(
+      `/customers?customer_id=${encodeURIComponent(id)}`,
+      { method: "GET" }
+    );
+
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "creem", "Creem")
+    );
+  };
+
+  const updateCustomer: UpdateCustomer = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Creem has no API for updating customers.",
+      { provider: "creem" }
+    );
+  };
+
+  const findCustomerByEmail: FindCustomerByEmail = async (email) => {
+    const response = await creemFetch(
+      `/customers?email=${encodeURIComponent(email)}`,
+      { method: "GET" }
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "creem", "Creem")
+    );
+  };
+
+  // Creem issues refunds from its dashboard only; they arrive as webhooks
+  const createRefund: CreateRefund = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Creem has no refunds API. Issue refunds from the Creem dashboard and handle the refund.created webhook.",
+      { provider: "creem" }
+    );
+  };
+
+  const listRefunds: ListRefunds = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Creem has no refunds API. Record refunds from the refund.created webhook.",
+      { provider: "creem" }
+    );
+  };
+
+  /**
+   * Creem discounts must name the products they apply to.
+   */
+  const createDiscount: CreateDiscount = async (params) => {
+    assertDiscountParams(params, "creem");
+    const {
+      code,
+      name,
+      percentOff,
+      amountOff,
+      duration = "once",
+      durationInMonths,
+      maxRedemptions,
+      expiresAt,
+      productIds,
+    } = params;
+
+    if (!productIds || productIds.length === 0) {
+      throw new InvalidRequestError(
+        "Creem discounts apply to specific products; pass productIds",
+        { provider: "creem" }
+      );
+    }
+
+    const response = await creemFetch("/discounts", {
+      method: "POST",
+      body: JSON.stringify({
+        name: name ?? code,
+        code,
+        type: amountOff ? "fixed" : "percentage",
+        percentage: percentOff,
+        amount: amountOff?.amount,
+        currency: amountOff?.currency,
+        duration,
+        duration_in_months: durationInMonths,
+        max_redemptions: maxRedemptions,
+        expiry_date: expiresAt?.toISOString(),
+        applies_to_products: productIds,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await creemError(response);
+    }
+
+    return toDiscount(
+      await schema.readJson(response, discountSchema, "creem", "Creem")
+    );
+  };
+
+  const listDiscounts: ListDiscounts = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Creem has no API for listing discounts. Store discount IDs from createDiscount().",
+      { provider: "creem" }
+    );
+  };
+
+  const createWebhookHandler: CreateWebhookHandler = (options = {}) =>
+    async (req) => {
+      if (req.method !== "POST") {
+        return new Response("Method not allowed", { status: 405 });
+      }
+
+      const signature = req.headers.get("creem-signature");
+      if (!signature) {
+        return new Response("Missing signature", { status: 401 });
+      }
+
+      const secret = config.webhookSecret ?? readEnv("CREEM_WEBHOOK_SECRET");
+      if (!secret) {
+        return new Response("Missing CREEM_WEBHOOK_SECRET", { status: 401 });
+      }
+
+      const bodyText = await req.text();
+      const computedSignature = createHmac("sha256", secret)
+        .update(bodyText)
+        .digest("hex");
+
+      if (!safeEqual(computedSignature, signature)) {
+        return new Response("Invalid signature", { status: 401 });
+      }
+
+      let json: unknown;
+      try {
+        json = JSON.parse(bodyText);
+      } catch {
+        return new Response("Invalid webhook payload", { status: 400 });
+      }
+      let payload: CreemEvent;
+      let event: PaymentEvent | null;
+      try {
+        payload = schema.parse(
+          eventSchema,
+          json,
+          "creem",
+          "Creem webhook payload"
+        );
+        event = toPaymentEvent(payload);
+      } catch (error) {
+        return invalidPayloadResponse(error);
+      }
+
+      // Creem signs no timestamp, so only the delivery store catches replays
+      return respondToEvent({
+        provider: "creem",
+        deliveryId: payload.id ?? bodyDigest(bodyText),
+        event,
+        options,
+        successStatus: 204,
+      });
     };
 
-    // Handle webhook events - implement your business logic here
-    switch (payload.eventType) {
-      case "checkout.completed":
-      case "subscription.active":
-      case "subscription.canceled":
-      case "subscription.expired":
-        // Implement your business logic here
-        break;
-      default:
-        // Unhandled event type
-        break;
-    }
-
-    return new Response(null, { status: 204 });
-  } catch {
-    return new Response("Invalid webhook payload", { status: 400 });
-  }
-};
+  return {
+    capabilities: CREEM_CAPABILITIES,
+    createCheckoutLink,
+    createCheckoutSession,
+    getCheckoutSession,
+    createCustomerPortalLink,
+    cancelSubscription,
+    setSubscriptionSeats,
+    getSubscription,
+    listSubscriptions,
+    createCustomer,
+    getCustomer,
+    updateCustomer,
+    findCustomerByEmail,
+    createRefund,
+    listRefunds,
+    createDiscount,
+    listDiscounts,
+    webhookHandler: createWebhookHandler(),
+    createWebhookHandler,
+  };
+}
+
+const defaultProvider = createCreemProvider();
+
+export const capabilities = defaultProvider.capabilities;
+export const createCheckoutLink = defaultProvider.createCheckoutLink;
+export const createCheckoutSession = defaultProvider.createCheckoutSession;
+export const getCheckoutSession = defaultProvider.getCheckoutSession;
+export const createCustomerPortalLink =
+  defaultProvider.createCustomerPortalLink;
+export const cancelSubscription = defaultProvider.cancelSubscription;
+export const setSubscriptionSeats = defaultProvider.setSubscriptionSeats;
+export const getSubscription = defaultProvider.getSubscription;
+export const listSubscriptions = defaultProvider.listSubscriptions;
+export const createCustomer = defaultProvider.createCustomer;
+export const getCustomer = defaultProvider.getCustomer;
+export const updateCustomer = defaultProvider.updateCustomer;
+export const findCustomerByEmail = defaultProvider.findCustomerByEmail;
+export const createRefund = defaultProvider.createRefund;
+export const listRefunds = defaultProvider.listRefunds;
+export const createDiscount = defaultProvider.createDiscount;
+export const listDiscounts = defaultProvider.listDiscounts;
+export const webhookHandler = defaultProvider.webhookHandler;
+export const createWebhookHandler = defaultProvider.createWebhookHandler;
@@ -1,155 +1,1180 @@
-import { createHmac } from "node:crypto";
 import type {
+  CancelSubscription,
+  CheckoutSession,
+  CheckoutSessionStatus,
   CreateCheckoutLink,
+  CreateCheckoutSession,
+  CreateCustomer,
   CreateCustomerPortalLink,
-  WebhookHandler,
+  CreateDiscount,
+  CreateRefund,
+  CreateWebhookHandler,
+  Customer,
+  Discount,
+  FindCustomerByEmail,
+  GetCheckoutSession,
+  GetCustomer,
+  GetSubscription,
+  ListDiscounts,
+  ListRefunds,
+  ListSubscriptions,
+  PaymentEvent,
+  PaymentMode,
+  PaymentProvider,
+  ProviderCapabilities,
+  ProviderOptions,
+  Refund,
+  RefundEvent,
+  RefundStatus,
+  SetSubscriptionSeats,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionStatus,
+  UpdateCustomer,
+  UpdateCustomerParams,
 } from "../types";
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  ProviderUnsupportedError,
+  createApiError,
+  readErrorBody,
+  type PaymentError,
+} from "../errors";
+import { createTransport } from "../transport";
+import {
+  assertCheckoutCapabilities,
+  assertDiscountParams,
+  checkoutItems,
+} from "../checkout";
+import { assertMinorUnits } from "../money";
+import { readEnv, resolveMode } from "../config";
+import * as schema from "../schema";
+import {
+  invalidPayloadResponse,
+  isWithinTolerance,
+  readMetadataIds,
+  respondToEvent,
+  standardWebhookKey,
+  toDate,
+  verifyStandardWebhookSignature,
+} from "../webhook";
 
-function getDodoPaymentsApiUrl(): string {
-  return process.env.NODE_ENV === "production"
-    ? "https://api.dodopayments.com/v1"
-    : "https://api.dodopayments.com/test/v1";
+const DODO_PAYMENTS_API_URLS: Record<PaymentMode, string> = {
+  test: "https://api.dodopayments.com/test/v1",
+  live: "https://api.dodopayments.com/v1",
+};
+
+const DODO_PAYMENTS_CAPABILITIES: ProviderCapabilities = {
+  customerPortal: true,
+  trials: true,
+  seats: true,
+  customerId: true,
+  email: true,
+  name: true,
+  multiItem: true,
+  discountCodes: true,
+  promotionCodes: true,
+  subscriptions: true,
+  listSubscriptions: true,
+  cancelImmediately: true,
+  seatUpdates: true,
+  customerWrites: true,
+  refunds: true,
+  discounts: true,
+};
+
+const SUBSCRIPTION_EVENT_TYPES: Record<string, SubscriptionEvent["type"]> = {
+  "subscription.active": "subscription.created",
+  "subscription.updated": "subscription.updated",
+  "subscription.renewed": "subscription.updated",
+  "subscription.on_hold": "subscription.updated",
+  "subscription.plan_changed": "subscription.updated",
+  "subscription.cancelled": "subscription.canceled",
+  "subscription.failed": "subscription.expired",
+  "subscription.expired": "subscription.expired",
+};
+
+const SUBSCRIPTION_STATUSES: Record<string, SubscriptionStatus> = {
+  pending: "incomplete",
+  active: "active",
+  on_hold: "past_due",
+  paused: "paused",
+  cancelled: "canceled",
+  failed: "expired",
+  expired: "expired",
+};
+
+// Checkout sessions report the status of their payment, once there is one
+const CHECKOUT_STATUSES: Record<string, CheckoutSessionStatus> = {
+  processing: "processing",
+  requires_customer_action: "open",
+  requires_merchant_action: "processing",
+  requires_payment_method: "open",
+  requires_confirmation: "open",
+  requires_capture: "processing",
+  partially_captured: "processing",
+  partially_captured_and_capturable: "processing",
+  succeeded: "paid",
+  failed: "failed",
+  cancelled: "expired",
+};
+
+const REFUND_EVENT_TYPES: Record<string, RefundEvent["type"]> = {
+  "refund.succeeded": "refund.created",
+  "refund.failed": "refund.updated",
+};
+
+const REFUND_STATUSES: Record<string, RefundStatus> = {
+  pending: "pending",
+  review: "pending",
+  succeeded: "succeeded",
+  failed: "failed",
+};
+
+const customerRefSchema = schema.optional(
+  schema.object({ customer_id: schema.optional(schema.string) })
+);
+
+// Creating a session returns `session_id` and the URL; retrieving one
+// returns `id` and the payment status but no URL
+const checkoutFields = {
+  checkout_url: schema.optional(schema.string),
+  payment_status: schema.optional(schema.string),
+};
+
+const createdCheckoutSchema = schema.object({
+  ...checkoutFields,
+  session_id: schema.string,
+});
+
+const checkoutSchema = schema.object({
+  ...checkoutFields,
+  id: schema.string,
+});
+
+const subscriptionSchema = schema.object({
+  subscription_id: schema.string,
+  customer: customerRefSchema,
+  status: schema.string,
+  product_id: schema.optional(schema.string),
+  quantity: schema.optional(schema.number),
+  created_at: schema.optional(schema.string),
+  trial_period_days: schema.optional(schema.number),
+  previous_billing_date: schema.optional(schema.string),
+  next_billing_date: schema.optional(schema.string),
+  cancel_at_next_billing_date: schema.optional(schema.boolean),
+});
+
+const customerSchema = schema.object({
+  customer_id: schema.string,
+  email: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+});
+
+const refundSchema = schema.object({
+  refund_id: schema.string,
+  payment_id: schema.optional(schema.string),
+  amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  status: schema.string,
+  reason: schema.optional(schema.string),
+  created_at: schema.optional(schema.string),
+});
+
+// Payments embed their line items and refunds
+const paymentSchema = schema.object({
+  payment_id: schema.string,
+  subscription_id: schema.optional(schema.string),
+  total_amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  product_cart: schema.optional(
+    schema.array(schema.object({ product_id: schema.string }))
+  ),
+  refunds: schema.optional(schema.array(refundSchema)),
+});
+
+const discountSchema = schema.object({
+  discount_id: schema.string,
+  code: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  amount: schema.number,
+  subscription_cycles: schema.optional(schema.number),
+  usage_limit: schema.optional(schema.number),
+  times_used: schema.optional(schema.number),
+  expires_at: schema.optional(schema.string),
+});
+
+const eventSchema = schema.object({
+  type: schema.string,
+  data: schema.object({ customer: customerRefSchema }),
+});
+
+/**
+ * Schema for a page of DodoPayments list results.
+ */
+function listSchema<T>(item: schema.Schema<T>) {
+  return schema.object({ items: schema.array(item) });
 }
 
-function getDodoPaymentsApiKey(): string {
-  const apiKey = process.env.DODO_PAYMENTS_API_KEY;
-  if (!apiKey) {
-    throw new Error("Missing env variable DODO_PAYMENTS_API_KEY");
+type DodoPaymentsEvent = schema.Infer<typeof eventSchema>;
+
+/**
+ * Check the data of a DodoPayments event against a schema.
+ */
+function eventData<T>(
+  dataSchema: schema.Schema<T>,
+  event: DodoPaymentsEvent
+): T {
+  return schema.parse(
+    dataSchema,
+    event.data,
+    "dodopayments",
+    "DodoPayments webhook payload",
+    "data"
+  );
+}
+
+/**
+ * Map a DodoPayments event onto the normalized event model.
+ */
+function toPaymentEvent(
+  event: DodoPaymentsEvent,
+  webhookId: string
+): PaymentEvent | null {
+  const base = {
+    provider: "dodopayments",
+    id: webhookId,
+    providerEventType: event.type,
+    customerId: event.data.customer?.customer_id ?? null,
+    ...readMetadataIds(event.data.metadata),
+    raw: event,
+  };
+
+  switch (event.type) {
+    case "subscription.active":
+    case "subscription.updated":
+    case "subscription.renewed":
+    case "subscription.on_hold":
+    case "subscription.plan_changed":
+    case "subscription.cancelled":
+    case "subscription.failed":
+    case "subscription.expired": {
+      const data = eventData(subscriptionSchema, event);
+      return {
+        ...base,
+        type: SUBSCRIPTION_EVENT_TYPES[event.type],
+        subscriptionId: data.subscription_id,
+        productId: data.product_id ?? null,
+        status: SUBSCRIPTION_STATUSES[data.status] ?? "active",
+        seats: data.quantity ?? null,
+        currentPeriodEnd: toDate(data.next_billing_date),
+        cancelAtPeriodEnd: Boolean(data.cancel_at_next_billing_date),
+      };
+    }
+    case "payment.succeeded":
+    case "payment.failed": {
+      const data = eventData(paymentSchema, event);
+      return {
+        ...base,
+        type: event.type,
+        paymentId: data.payment_id,
+        subscriptionId: data.subscription_id ?? null,
+        amount: data.total_amount ?? null,
+        currency: data.currency ?? null,
+      };
+    }
+    case "refund.succeeded":
+    case "refund.failed": {
+      const data = eventData(refundSchema, event);
+      return {
+        ...base,
+        type: REFUND_EVENT_TYPES[event.type],
+        refundId: data.refund_id,
+        paymentId: data.payment_id ?? null,
+        amount: data.amount ?? null,
+        currency: data.currency ?? null,
+        status: REFUND_STATUSES[data.status] ?? "pending",
+      };
+    }
+    default:
+      return null;
   }
-  return apiKey;
 }
 
-export const createCheckoutLink: CreateCheckoutLink = async (params) => {
-  const apiKey = getDodoPaymentsApiKey();
-  const baseUrl = getDodoPaymentsApiUrl();
-  const {
-    productId,
-    redirectUrl,
-    customerId,
-    organizationId,
-    userId,
-    trialPeriodDays,
-    seats,
-    email,
-    name,
-  } = params;
-
-  const metadata: Record<string, string> = {};
-  if (organizationId) metadata.organization_id = organizationId;
-  if (userId) metadata.user_id = userId;
-
-  const response = await fetch(`${baseUrl}/checkout-sessions`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      product_cart: [
-        {
-          product_id: productId,
-          quantity: seats ?? 1,
-        },
-      ],
-      return_url: redirectUrl ?? "",
-      customer: customerId
-        ? { customer_id: customerId }
-        : { email: email ?? "", name: name ?? "" },
-      metadata,
-      subscription_data: trialPeriodDays
-        ? { trial_period_days: trialPeriodDays }
-        : undefined,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`DodoPayments API error: ${JSON.stringify(error)}`);
+/**
+ * Map a DodoPayments checkout session onto the normalized checkout session
+ * model.
+ */
+function toCheckoutSession(
+  id: string,
+  data: { checkout_url?: string | null; payment_status?: string | null }
+): CheckoutSession {
+  return {
+    provider: "dodopayments",
+    id,
+    url: data.checkout_url ?? null,
+    status: CHECKOUT_STATUSES[data.payment_status ?? ""] ?? "open",
+    expiresAt: null,
+    raw: data,
+  };
+}
+
+/**
+ * Map a DodoPayments subscription object onto the normalized subscription
+ * model.
+ */
+function toSubscription(
+  data: schema.Infer<typeof subscriptionSchema>
+): Subscription {
+  const createdAt = toDate(data.created_at);
+  const trialDays = data.trial_period_days ?? 0;
+  return {
+    provider: "dodopayments",
+    id: data.subscription_id,
+    customerId: data.customer?.customer_id ?? null,
+    status: SUBSCRIPTION_STATUSES[data.status] ?? "active",
+    productId: data.product_id ?? null,
+    seats: data.quantity ?? null,
+    currentPeriodStart: toDate(data.previous_billing_date),
+    currentPeriodEnd: toDate(data.next_billing_date),
+    // DodoPayments reports the trial length; the trial starts at creation
+    trialEnd:
+      createdAt && trialDays > 0
+        ? new Date(createdAt.getTime() + trialDays * 24 * 60 * 60 * 1000)
+        : null,
+    cancelAtPeriodEnd: Boolean(data.cancel_at_next_billing_date),
+    raw: data,
+  };
+}
+
+/**
+ * Map a DodoPayments customer object onto the normalized customer model.
+ */
+function toCustomer(data: schema.Infer<typeof customerSchema>): Customer {
+  return {
+    provider: "dodopayments",
+    id: data.customer_id,
+    email: data.email ?? null,
+    name: data.name ?? null,
+    organizationId: null,
+    userId: null,
+    metadata: {},
+    raw: data,
+  };
+}
+
+/**
+ * Map a DodoPayments refund object onto the normalized refund model.
+ */
+function toRefund(data: schema.Infer<typeof refundSchema>): Refund {
+  return {
+    provider: "dodopayments",
+    id: data.refund_id,
+    paymentId: data.payment_id ?? null,
+    amount: data.amount ?? null,
+    currency: data.currency ?? null,
+    status: REFUND_STATUSES[data.status] ?? "pending",
+    reason: data.reason ?? null,
+    createdAt: toDate(data.created_at),
+    raw: data,
+  };
+}
+
+/**
+ * Map a DodoPayments discount object onto the normalized discount model.
+ */
+function toDiscount(data: schema.Infer<typeof discountSchema>): Discount {
+  const cycles = data.subscription_cycles ?? null;
+  const usageLimit = data.usage_limit ?? null;
+  const timesUsed = data.times_used ?? null;
+  const expiresAt = toDate(data.expires_at);
+  return {
+    provider: "dodopayments",
+    id: data.discount_id,
+    code: data.code ?? null,
+    name: data.name ?? null,
+    percentOff: data.amount / 100,
+    amountOff: null,
+    currency: null,
+    duration: cycles === null ? "forever" : cycles === 1 ? "once" : "repeating",
+    durationInMonths: cycles !== null && cycles > 1 ? cycles : null,
+    maxRedemptions: usageLimit,
+    timesRedeemed: timesUsed,
+    expiresAt,
+    active:
+      (!expiresAt || expiresAt.getTime() > Date.now()) &&
+      (usageLimit === null || (timesUsed ?? 0) < usageLimit),
+    raw: data,
+  };
+}
+
+/**
+ * DodoPayments customers have no metadata; reject it instead of dropping it.
+ */
+function assertNoCustomerMetadata(params: Partial<UpdateCustomerParams>): void {
+  if (params.organizationId || params.userId || params.metadata) {
+    throw new ProviderUnsupportedError(
+      "DodoPayments customers do not support metadata. Pass organizationId and userId to createCheckoutLink instead.",
+      { provider: "dodopayments" }
+    );
   }
+}
+
+/**
+ * Map a DodoPayments error response onto a typed payment error.
+ */
+async function dodoPaymentsError(response: Response): Promise<PaymentError> {
+  const body = await readErrorBody(response);
+  const { code, message } = (body ?? {}) as {
+    code?: string;
+    message?: string;
+  };
+  return createApiError(
+    "dodopayments",
+    "DodoPayments",
+    response.status,
+    { message, code },
+    body
+  );
+}
 
-  const result = (await response.json()) as { checkout_url: string };
-  return result.checkout_url;
+/**
+ * DodoPayments provider configuration.
+ * Unset credentials fall back to environment variables.
+ */
+export type DodoPaymentsConfig = ProviderOptions & {
+  /** API key (default: `DODO_PAYMENTS_API_KEY`) */
+  apiKey?: string;
+  /** Webhook signing secret (default: `DODO_PAYMENTS_WEBHOOK_SECRET`) */
+  webhookSecret?: string;
 };
 
-export const createCustomerPortalLink: CreateCustomerPortalLink = async (
-  params
-) => {
-  const apiKey = getDodoPaymentsApiKey();
-  const baseUrl = getDodoPaymentsApiUrl();
-  const { customerId } = params;
+/**
+ * Create an isolated DodoPayments provider instance.
+ *
+ * @example
+ * ```ts
+ * import { createDodoPaymentsProvider } from "@xyz/payment/providers/dodopayments";
+ *
+ * const dodo = createDodoPaymentsProvider({
+ *   apiKey: workspace.dodoKey,
+ *   mode: "live",
+ * });
+ * ```
+ */
+export function createDodoPaymentsProvider(
+  config: DodoPaymentsConfig = {}
+): PaymentProvider {
+  const request = createTransport(config, { provider: "dodopayments" });
+
+  function getDodoPaymentsApiUrl(): string {
+    return (
+      config.baseUrl ??
+      DODO_PAYMENTS_API_URLS[resolveMode("dodopayments", config)]
+    );
+  }
+
+  function getDodoPaymentsApiKey(): string {
+    const apiKey = config.apiKey ?? readEnv("DODO_PAYMENTS_API_KEY");
+    if (!apiKey) {
+      throw new ConfigurationError(
+        "Missing env variable DODO_PAYMENTS_API_KEY",
+        { provider: "dodopayments" }
+      );
+    }
+    return apiKey;
+  }
+
+  const createCheckoutSession: CreateCheckoutSession = async (params) => {
+    if (config.strict) {
+      assertCheckoutCapabilities(
+        params,
+        DODO_PAYMENTS_CAPABILITIES,
+        "dodopayments",
+        "DodoPayments"
+      );
+    }
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const {
+      redirectUrl,
+      customerId,
+      organizationId,
+      userId,
+      trialPeriodDays,
+      email,
+      name,
+      discountCode,
+      allowPromotionCodes,
+    } = params;
+    const items = checkoutItems(params, "dodopayments");
+
+    const metadata: Record<string, string> = {};
+    if (organizationId) metadata.organization_id = organizationId;
+    if (userId) metadata.user_id = userId;
 
-  const response = await fetch(
-    `${baseUrl}/customers/${customerId}/portal`,
-    {
+    const response = await request(`${baseUrl}/checkout-sessions`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${apiKey}`,
         "Content-Type": "application/json",
       },
+      body: JSON.stringify({
+        product_cart: items.map((item) => ({
+          product_id: item.productId,
+          quantity: item.quantity,
+        })),
+        return_url: redirectUrl ?? "",
+        customer: customerId
+          ? { customer_id: customerId }
+          : { email: email ?? "", name: name ?? "" },
+        metadata,
+        discount_code: discountCode,
+        feature_flags:
+          allowPromotionCodes === undefined
+            ? undefined
+            : { allow_discount_code: allowPromotionCodes },
+        subscription_data: trialPeriodDays
+          ? { trial_period_days: trialPeriodDays }
+          : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
     }
-  );
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`DodoPayments API error: ${JSON.stringify(error)}`);
-  }
+    const session = await schema.readJson(
+      response,
+      createdCheckoutSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
+    return toCheckoutSession(session.session_id, session);
+  };
 
-  const result = (await response.json()) as { link: string };
-  return result.link;
-};
+  const createCheckoutLink: CreateCheckoutLink = async (params) => {
+    const session = await createCheckoutSession(params);
+    return session.url;
+  };
 
-export const webhookHandler: WebhookHandler = async (req) => {
-  const webhookSecret = process.env.DODO_PAYMENTS_WEBHOOK_SECRET;
+  const getCheckoutSession: GetCheckoutSession = async (id) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
 
-  if (!webhookSecret) {
-    return new Response("Missing DODO_PAYMENTS_WEBHOOK_SECRET", { status: 500 });
-  }
+    const response = await request(
+      `${baseUrl}/checkout-sessions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${apiKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const session = await schema.readJson(
+      response,
+      checkoutSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
+    return toCheckoutSession(session.id, session);
+  };
+
+  const createCustomerPortalLink: CreateCustomerPortalLink = async (
+    params
+  ) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const { customerId } = params;
+
+    const response = await request(
+      `${baseUrl}/customers/${encodeURIComponent(customerId)}/portal`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ link: schema.string }),
+      "dodopayments",
+      "DodoPayments"
+    );
+    return result.link;
+  };
+
+  const cancelSubscription: CancelSubscription = async (id, options = {}) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+
+    const response = await request(
+      `${baseUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(
+          options.immediately
+            ? { status: "cancelled" }
+            : { cancel_at_next_billing_date: true }
+        ),
+      }
+    );
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+  };
+
+  const setSubscriptionSeats: SetSubscriptionSeats = async (params) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const { id, seats, proration = "prorate" } = params;
+
+    // DodoPayments settles plan changes at once and cannot skip proration
+    if (proration === "none") {
+      throw new ProviderUnsupportedError(
+        'DodoPayments always prorates seat changes; use proration "prorate" or "invoice"',
+        { provider: "dodopayments" }
+      );
+    }
+
+    // Quantity changes go through a plan change to the current product
+    const subscriptionResponse = await request(
+      `${baseUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${apiKey}` },
+      }
+    );
+
+    if (!subscriptionResponse.ok) {
+      throw await dodoPaymentsError(subscriptionResponse);
+    }
+
+    const subscription = await schema.readJson(
+      subscriptionResponse,
+      schema.object({ product_id: schema.string }),
+      "dodopayments",
+      "DodoPayments"
+    );
+
+    const response = await request(
+      `${baseUrl}/subscriptions/${encodeURIComponent(id)}/change-plan`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          product_id: subscription.product_id,
+          quantity: seats,
+          proration_billing_mode: "prorated_immediately",
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+  };
+
+  const getSubscription: GetSubscription = async (id) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+
+    const response = await request(
+      `${baseUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${apiKey}` },
+      }
+    );
 
-  if (!req.body) {
-    return new Response("Invalid request", { status: 400 });
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const subscription = await schema.readJson(
+      response,
+      subscriptionSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
+    return toSubscription(subscription);
+  };
+
+  const listSubscriptions: ListSubscriptions = async (params) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const subscriptions: Subscription[] = [];
+    const pageSize = 100;
+
+    for (let pageNumber = 0; ; pageNumber++) {
+      const query = new URLSearchParams({
+        customer_id: params.customerId,
+        page_size: String(pageSize),
+        page_number: String(pageNumber),
+      });
+
+      const response = await request(`${baseUrl}/subscriptions?${query}`, {
+        method: "GET",
+        headers: { Authorization: `Bearer ${apiKey}` },
+      });
+
+      if (!response.ok) {
+        throw await dodoPaymentsError(response);
+      }
+
+      const result = await schema.readJson(
+        response,
+        listSchema(subscriptionSchema),
+        "dodopayments",
+        "DodoPayments"
+      );
+      subscriptions.push(...result.items.map(toSubscription));
+
+      if (result.items.length < pageSize) {
+        return subscriptions;
+      }
+    }
+  };
+
+  const createCustomer: CreateCustomer = async (params) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    assertNoCustomerMetadata(params);
+
+    const response = await request(`${baseUrl}/customers`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        email: params.email,
+        name: params.name ?? params.email,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const customer = await schema.readJson(
+      response,
+      customerSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
+    return toCustomer(customer);
+  };
+
+  const getCustomer: GetCustomer = async (id) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+
+    const response = await request(
+      `${baseUrl}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${apiKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const customer = await schema.readJson(
+      response,
+      customerSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
+    return toCustomer(customer);
+  };
+
+  const updateCustomer: UpdateCustomer = async (params) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const { id, email, name } = params;
+    assertNoCustomerMetadata(params);
+
+    if (email !== undefined) {
+      throw new ProviderUnsupportedError(
+        "DodoPayments does not support changing a customer's email.",
+        { provider: "dodopayments" }
+      );
+    }
+
+    const response = await request(
+      `${baseUrl}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const customer = await schema.readJson(
+      response,
+      customerSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
+    return toCustomer(customer);
+  };
+
+  const findCustomerByEmail: FindCustomerByEmail = async (email) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const query = new URLSearchParams({ email, page_size: "1" });
+
+    const response = await request(`${baseUrl}/customers?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(customerSchema),
+      "dodopayments",
+      "DodoPayments"
+    );
+    return result.items[0] ? toCustomer(result.items[0]) : null;
+  };
+
+  async function getPayment(
+    paymentId: string
+  ): Promise<schema.Infer<typeof paymentSchema>> {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+
+    const response = await request(
+      `${baseUrl}/payments/${encodeURIComponent(paymentId)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${apiKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    return schema.readJson(
+      response,
+      paymentSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
   }
 
-  try {
-    const body = await req.text();
-    const headers = req.headers;
+  const createRefund: CreateRefund = async (params) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const { paymentId, amount, reason } = params;
+    if (amount !== undefined) assertMinorUnits(amount, "dodopayments");
 
-    const webhookId = headers.get("webhook-id");
-    const webhookSignature = headers.get("webhook-signature");
-    const webhookTimestamp = headers.get("webhook-timestamp");
+    // Partial refunds are issued against a line item of the payment
+    let items: { item_id: string; amount: number }[] | undefined;
+    if (amount !== undefined) {
+      const payment = await getPayment(paymentId);
+      const item = payment.product_cart?.[0];
+      if (!item) {
+        throw new InvalidRequestError(
+          `Payment ${paymentId} has no line item to refund`,
+          { provider: "dodopayments" }
+        );
+      }
+      items = [{ item_id: item.product_id, amount }];
+    }
 
-    if (!webhookId || !webhookSignature || !webhookTimestamp) {
-      return new Response("Missing webhook headers", { status: 400 });
+    const response = await request(`${baseUrl}/refunds`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ payment_id: paymentId, reason, items }),
+    });
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const refund = await schema.readJson(
+      response,
+      refundSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
+    return toRefund(refund);
+  };
+
+  const listRefunds: ListRefunds = async (params = {}) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const { paymentId, limit = 100 } = params;
+
+    // Payments embed their refunds, which avoids paging through all of them
+    if (paymentId) {
+      const payment = await getPayment(paymentId);
+      return (payment.refunds ?? []).slice(0, limit).map(toRefund);
+    }
+
+    const query = new URLSearchParams({
+      page_size: String(Math.min(limit, 100)),
+    });
+
+    const response = await request(`${baseUrl}/refunds?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(refundSchema),
+      "dodopayments",
+      "DodoPayments"
+    );
+    return result.items.map(toRefund);
+  };
+
+  /**
+   * DodoPayments discounts are percentages only. Durations are counted in
+   * subscription billing cycles.
+   */
+  const createDiscount: CreateDiscount = async (params) => {
+    assertDiscountParams(params, "dodopayments");
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const {
+      code,
+      name,
+      percentOff,
+      amountOff,
+      duration = "once",
+      durationInMonths,
+      maxRedemptions,
+      expiresAt,
+      productIds,
+    } = params;
+
+    if (amountOff) {
+      throw new ProviderUnsupportedError(
+        "DodoPayments discounts are percentages only; use percentOff",
+        { provider: "dodopayments" }
+      );
     }
 
-    const payload = `${webhookId}.${webhookTimestamp}.${body}`;
-    const expectedSignature = createHmac("sha256", webhookSecret)
-      .update(payload)
-      .digest("hex");
+    const response = await request(`${baseUrl}/discounts`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        type: "percentage",
+        // Percentages are sent in basis points, e.g. 540 for 5.4%
+        amount: Math.round((percentOff ?? 0) * 100),
+        code,
+        name,
+        usage_limit: maxRedemptions,
+        expires_at: expiresAt?.toISOString(),
+        restricted_to: productIds,
+        subscription_cycles:
+          duration === "once"
+            ? 1
+            : duration === "repeating"
+              ? durationInMonths
+              : null,
+      }),
+    });
 
-    if (webhookSignature !== expectedSignature) {
-      return new Response("Invalid webhook signature", { status: 401 });
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
     }
 
-    const event = JSON.parse(body) as {
-      type: string;
-      data: Record<string, unknown>;
+    const discount = await schema.readJson(
+      response,
+      discountSchema,
+      "dodopayments",
+      "DodoPayments"
+    );
+    return toDiscount(discount);
+  };
+
+  const listDiscounts: ListDiscounts = async (params = {}) => {
+    const apiKey = getDodoPaymentsApiKey();
+    const baseUrl = getDodoPaymentsApiUrl();
+    const { limit = 100 } = params;
+
+    const query = new URLSearchParams({
+      page_size: String(Math.min(limit, 100)),
+    });
+
+    const response = await request(`${baseUrl}/discounts?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+
+    if (!response.ok) {
+      throw await dodoPaymentsError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(discountSchema),
+      "dodopayments",
+      "DodoPayments"
+    );
+    return result.items.map(toDiscount);
+  };
+
+  const createWebhookHandler: CreateWebhookHandler = (options = {}) =>
+    async (req) => {
+      const webhookSecret =
+        config.webhookSecret ?? readEnv("DODO_PAYMENTS_WEBHOOK_SECRET");
+
+      if (!webhookSecret) {
+        return new Response("Missing DODO_PAYMENTS_WEBHOOK_SECRET", {
+          status: 401,
+        });
+      }
+
+      if (!req.body) {
+        return new Response("Invalid request", { status: 400 });
+      }
+
+      const webhookId = req.headers.get("webhook-id");
+      const webhookSignature = req.headers.get("webhook-signature");
+      const webhookTimestamp = req.headers.get("webhook-timestamp");
+
+      if (!webhookId || !webhookSignature || !webhookTimestamp) {
+        return new Response("Missing webhook headers", { status: 401 });
+      }
+
+      // Dodo Payments signs with Standard Webhooks: a `whsec_` key and
+      // `v1,<base64>` signatures
+      const body = await req.text();
+      const isValid = verifyStandardWebhookSignature({
+        id: webhookId,
+        timestamp: webhookTimestamp,
+        body,
+        signature: webhookSignature,
+        key: standardWebhookKey(webhookSecret),
+      });
+
+      if (!isValid) {
+        return new Response("Invalid webhook signature", { status: 401 });
+      }
+
+      if (!isWithinTolerance(webhookTimestamp, options)) {
+        return new Response("Timestamp outside tolerance", { status: 401 });
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return new Response("Invalid webhook payload", { status: 400 });
+      }
+      let event: PaymentEvent | null;
+      try {
+        const parsed = schema.parse(
+          eventSchema,
+          payload,
+          "dodopayments",
+          "DodoPayments webhook payload"
+        );
+        event = toPaymentEvent(parsed, webhookId);
+      } catch (error) {
+        return invalidPayloadResponse(error);
+      }
+
+      return respondToEvent({
+        provider: "dodopayments",
+        deliveryId: webhookId,
+        event,
+        options,
+        successStatus: 204,
+      });
     };
 
-    // Handle webhook events - implement your business logic here
-    switch (event.type) {
-      case "checkout.session.completed":
-      case "subscription.created":
-      case "subscription.updated":
-      case "subscription.cancelled":
-        // Implement your business logic here
-        break;
-      default:
-        // Unhandled event type
-        break;
-    }
-
-    return new Response(null, { status: 204 });
-  } catch {
-    return new Response("Invalid webhook payload", { status: 400 });
-  }
-};
+  return {
+    capabilities: DODO_PAYMENTS_CAPABILITIES,
+    createCheckoutLink,
+    createCheckoutSession,
+    getCheckoutSession,
+    createCustomerPortalLink,
+    cancelSubscription,
+    setSubscriptionSeats,
+    getSubscription,
+    listSubscriptions,
+    createCustomer,
+    getCustomer,
+    updateCustomer,
+    findCustomerByEmail,
+    createRefund,
+    listRefunds,
+    createDiscount,
+    listDiscounts,
+    webhookHandler: createWebhookHandler(),
+    createWebhookHandler,
+  };
+}
+
+const defaultProvider = createDodoPaymentsProvider();
+
+export const capabilities = defaultProvider.capabilities;
+export const createCheckoutLink = defaultProvider.createCheckoutLink;
+export const createCheckoutSession = defaultProvider.createCheckoutSession;
+export const getCheckoutSession = defaultProvider.getCheckoutSession;
+export const createCustomerPortalLink =
+  defaultProvider.createCustomerPortalLink;
+export const cancelSubscription = defaultProvider.cancelSubscription;
+export const setSubscriptionSeats = defaultProvider.setSubscriptionSeats;
+export const getSubscription = defaultProvider.getSubscription;
+export const listSubscriptions = defaultProvider.listSubscriptions;
+export const createCustomer = defaultProvider.createCustomer;
+export const getCustomer = defaultProvider.getCustomer;
+export const updateCustomer = defaultProvider.updateCustomer;
+export const findCustomerByEmail = defaultProvider.findCustomerByEmail;
+export const createRefund = defaultProvider.createRefund;
+export const listRefunds = defaultProvider.listRefunds;
+export const createDiscount = defaultProvider.createDiscount;
+export const listDiscounts = defaultProvider.listDiscounts;
+export const webhookHandler = defaultProvider.webhookHandler;
+export const createWebhookHandler = defaultProvider.createWebhookHandler;
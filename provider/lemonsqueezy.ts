@@ -1,163 +1,1250 @@
-import { createHmac, timingSafeEqual } from "node:crypto";
+import { createHmac } from "node:crypto";
 import type {
+  CancelSubscription,
+  CheckoutSession,
   CreateCheckoutLink,
+  CreateCheckoutSession,
+  CreateCustomer,
   CreateCustomerPortalLink,
-  WebhookHandler,
+  CreateDiscount,
+  CreateRefund,
+  CreateWebhookHandler,
+  Customer,
+  Discount,
+  FindCustomerByEmail,
+  GetCheckoutSession,
+  GetCustomer,
+  GetSubscription,
+  ListDiscounts,
+  ListRefunds,
+  ListSubscriptions,
+  PaymentEvent,
+  PaymentProvider,
+  ProviderCapabilities,
+  ProviderOptions,
+  Refund,
+  SetSubscriptionSeats,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionStatus,
+  UpdateCustomer,
+  UpdateCustomerParams,
 } from "../types";
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  ProviderUnsupportedError,
+  createApiError,
+  readErrorBody,
+  type PaymentError,
+} from "../errors";
+import { createTransport } from "../transport";
+import {
+  assertCheckoutCapabilities,
+  assertDiscountParams,
+  singleCheckoutItem,
+} from "../checkout";
+import { assertMinorUnits } from "../money";
+import { readEnv } from "../config";
+import * as schema from "../schema";
+import {
+  bodyDigest,
+  invalidPayloadResponse,
+  readMetadataIds,
+  respondToEvent,
+  safeEqual,
+  toDate,
+} from "../webhook";
 
 const LEMONSQUEEZY_API_URL = "https://api.lemonsqueezy.com/v1";
 
-function getLemonSqueezyApiKey(): string {
-  const apiKey = process.env.LEMONSQUEEZY_API_KEY;
-  if (!apiKey) {
-    throw new Error("Missing env variable LEMONSQUEEZY_API_KEY");
+const LEMONSQUEEZY_CAPABILITIES: ProviderCapabilities = {
+  customerPortal: true,
+  trials: false,
+  seats: true,
+  customerId: false,
+  email: true,
+  name: true,
+  multiItem: false,
+  discountCodes: true,
+  promotionCodes: true,
+  subscriptions: true,
+  listSubscriptions: true,
+  cancelImmediately: false,
+  seatUpdates: true,
+  customerWrites: true,
+  refunds: true,
+  discounts: true,
+};
+
+const SUBSCRIPTION_EVENT_TYPES: Record<string, SubscriptionEvent["type"]> = {
+  subscription_created: "subscription.created",
+  subscription_updated: "subscription.updated",
+  subscription_resumed: "subscription.updated",
+  subscription_paused: "subscription.updated",
+  subscription_unpaused: "subscription.updated",
+  subscription_cancelled: "subscription.canceled",
+  subscription_expired: "subscription.expired",
+};
+
+const SUBSCRIPTION_STATUSES: Record<string, SubscriptionStatus> = {
+  on_trial: "trialing",
+  active: "active",
+  past_due: "past_due",
+  unpaid: "past_due",
+  paused: "paused",
+  cancelled: "canceled",
+  expired: "expired",
+};
+
+// Related resource IDs are numbers
+const idSchema = schema.optional(schema.union(schema.number, schema.string));
+
+/**
+ * Schema for a JSON:API resource with the given attributes.
+ */
+function resourceSchema<S extends schema.Shape>(attributes: S) {
+  return schema.object({
+    id: schema.string,
+    type: schema.string,
+    attributes: schema.object(attributes),
+  });
+}
+
+const checkoutSchema = resourceSchema({
+  url: schema.optional(schema.string),
+  expires_at: schema.optional(schema.string),
+});
+
+const subscriptionSchema = resourceSchema({
+  customer_id: idSchema,
+  status: schema.string,
+  variant_id: idSchema,
+  first_subscription_item: schema.optional(
+    schema.object({ quantity: schema.optional(schema.number) })
+  ),
+  ends_at: schema.optional(schema.string),
+  renews_at: schema.optional(schema.string),
+  trial_ends_at: schema.optional(schema.string),
+});
+
+const orderSchema = resourceSchema({
+  customer_id: idSchema,
+  first_order_item: schema.optional(schema.object({ variant_id: idSchema })),
+  total: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  refunded: schema.optional(schema.boolean),
+  refunded_amount: schema.optional(schema.number),
+  refunded_at: schema.optional(schema.string),
+});
+
+const invoiceSchema = resourceSchema({
+  subscription_id: idSchema,
+  total: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+});
+
+const customerSchema = resourceSchema({
+  email: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  urls: schema.optional(
+    schema.object({ customer_portal: schema.optional(schema.string) })
+  ),
+});
+
+const discountSchema = resourceSchema({
+  code: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  amount: schema.number,
+  amount_type: schema.string,
+  duration: schema.optional(schema.oneOf("once", "forever", "repeating")),
+  duration_in_months: schema.optional(schema.number),
+  is_limited_redemptions: schema.optional(schema.boolean),
+  max_redemptions: schema.optional(schema.number),
+  expires_at: schema.optional(schema.string),
+  status: schema.optional(schema.string),
+});
+
+const eventSchema = schema.object({
+  meta: schema.object({
+    event_name: schema.string,
+    custom_data: schema.optional(schema.record(schema.unknown)),
+  }),
+  data: resourceSchema({ customer_id: idSchema }),
+});
+
+type LemonSqueezyEvent = schema.Infer<typeof eventSchema>;
+
+/**
+ * Check the resource of a LemonSqueezy event against a schema.
+ */
+function eventData<T>(
+  dataSchema: schema.Schema<T>,
+  payload: LemonSqueezyEvent
+): T {
+  return schema.parse(
+    dataSchema,
+    payload.data,
+    "lemonsqueezy",
+    "LemonSqueezy webhook payload",
+    "data"
+  );
+}
+
+/**
+ * Read a related resource ID as a string.
+ */
+function toId(value: schema.Infer<typeof idSchema>): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Map a LemonSqueezy event onto the normalized event model.
+ */
+function toPaymentEvent(payload: LemonSqueezyEvent): PaymentEvent | null {
+  const eventName = payload.meta.event_name;
+  const base = {
+    provider: "lemonsqueezy",
+    id: null,
+    providerEventType: eventName,
+    customerId: toId(payload.data.attributes.customer_id),
+    ...readMetadataIds(payload.meta.custom_data),
+    raw: payload,
+  };
+
+  switch (eventName) {
+    case "order_created": {
+      const { id, attributes } = eventData(orderSchema, payload);
+      return {
+        ...base,
+        type: "checkout.completed",
+        checkoutId: id,
+        subscriptionId: null,
+        productId: toId(attributes.first_order_item?.variant_id),
+        amount: attributes.total ?? null,
+        currency: attributes.currency ?? null,
+      };
+    }
+    case "subscription_created":
+    case "subscription_updated":
+    case "subscription_resumed":
+    case "subscription_paused":
+    case "subscription_unpaused":
+    case "subscription_cancelled":
+    case "subscription_expired": {
+      const { id, attributes } = eventData(subscriptionSchema, payload);
+      return {
+        ...base,
+        type: SUBSCRIPTION_EVENT_TYPES[eventName],
+        subscriptionId: id,
+        productId: toId(attributes.variant_id),
+        status: SUBSCRIPTION_STATUSES[attributes.status] ?? "active",
+        seats: attributes.first_subscription_item?.quantity ?? null,
+        currentPeriodEnd: toDate(attributes.ends_at ?? attributes.renews_at),
+        cancelAtPeriodEnd: attributes.status === "cancelled",
+      };
+    }
+    case "subscription_payment_success":
+    case "subscription_payment_failed": {
+      const { id, attributes } = eventData(invoiceSchema, payload);
+      return {
+        ...base,
+        type:
+          eventName === "subscription_payment_success"
+            ? "payment.succeeded"
+            : "payment.failed",
+        paymentId: id,
+        subscriptionId: toId(attributes.subscription_id),
+        amount: attributes.total ?? null,
+        currency: attributes.currency ?? null,
+      };
+    }
+    case "order_refunded": {
+      const { id, attributes } = eventData(orderSchema, payload);
+      return {
+        ...base,
+        type: "refund.created",
+        refundId: id,
+        paymentId: id,
+        amount: attributes.refunded_amount ?? null,
+        currency: attributes.currency ?? null,
+        status: "succeeded",
+      };
+    }
+    default:
+      return null;
   }
-  return apiKey;
 }
 
-function getLemonSqueezyStoreId(): string {
-  const storeId = process.env.LEMONSQUEEZY_STORE_ID;
-  if (!storeId) {
-    throw new Error("Missing env variable LEMONSQUEEZY_STORE_ID");
+/**
+ * Map a LemonSqueezy checkout resource onto the normalized checkout session
+ * model. LemonSqueezy checkouts do not record payment, so they stay `open`
+ * until they expire; confirm payment from the `order_created` webhook.
+ */
+function toCheckoutSession(
+  resource: schema.Infer<typeof checkoutSchema>
+): CheckoutSession {
+  const attributes = resource.attributes;
+  const expiresAt = toDate(attributes.expires_at);
+  return {
+    provider: "lemonsqueezy",
+    id: resource.id,
+    url: attributes.url ?? null,
+    status:
+      expiresAt && expiresAt.getTime() <= Date.now() ? "expired" : "open",
+    expiresAt,
+    raw: resource,
+  };
+}
+
+/**
+ * Map a LemonSqueezy subscription resource onto the normalized subscription
+ * model. LemonSqueezy does not expose the start of the current period.
+ */
+function toSubscription(
+  resource: schema.Infer<typeof subscriptionSchema>
+): Subscription {
+  const attributes = resource.attributes;
+  return {
+    provider: "lemonsqueezy",
+    id: resource.id,
+    customerId: toId(attributes.customer_id),
+    status: SUBSCRIPTION_STATUSES[attributes.status] ?? "active",
+    productId: toId(attributes.variant_id),
+    seats: attributes.first_subscription_item?.quantity ?? null,
+    currentPeriodStart: null,
+    currentPeriodEnd: toDate(attributes.ends_at ?? attributes.renews_at),
+    trialEnd: toDate(attributes.trial_ends_at),
+    cancelAtPeriodEnd: attributes.status === "cancelled",
+    raw: resource,
+  };
+}
+
+/**
+ * Map a LemonSqueezy customer resource onto the normalized customer model.
+ */
+function toCustomer(resource: schema.Infer<typeof customerSchema>): Customer {
+  const attributes = resource.attributes;
+  return {
+    provider: "lemonsqueezy",
+    id: resource.id,
+    email: attributes.email ?? null,
+    name: attributes.name ?? null,
+    organizationId: null,
+    userId: null,
+    metadata: {},
+    raw: resource,
+  };
+}
+
+/**
+ * Map a refunded LemonSqueezy order onto the normalized refund model.
+ */
+function toRefund(resource: schema.Infer<typeof orderSchema>): Refund {
+  const attributes = resource.attributes;
+  return {
+    provider: "lemonsqueezy",
+    id: resource.id,
+    paymentId: resource.id,
+    amount: attributes.refunded_amount ?? null,
+    currency: attributes.currency ?? null,
+    status: attributes.refunded ? "succeeded" : "pending",
+    reason: null,
+    createdAt: toDate(attributes.refunded_at),
+    raw: resource,
+  };
+}
+
+/**
+ * Map a LemonSqueezy discount onto the normalized discount model.
+ * Fixed amounts are in the store currency, which the discount does not
+ * include.
+ */
+function toDiscount(resource: schema.Infer<typeof discountSchema>): Discount {
+  const attributes = resource.attributes;
+  const percent = attributes.amount_type === "percent";
+  const expiresAt = toDate(attributes.expires_at);
+  return {
+    provider: "lemonsqueezy",
+    id: resource.id,
+    code: attributes.code ?? null,
+    name: attributes.name ?? null,
+    percentOff: percent ? attributes.amount : null,
+    amountOff: percent ? null : attributes.amount,
+    currency: null,
+    duration: attributes.duration ?? null,
+    durationInMonths: attributes.duration_in_months ?? null,
+    maxRedemptions: attributes.is_limited_redemptions
+      ? (attributes.max_redemptions ?? null)
+      : null,
+    timesRedeemed: null,
+    expiresAt,
+    active:
+      attributes.status === "published" &&
+      (!expiresAt || expiresAt.getTime() > Date.now()),
+    raw: resource,
+  };
+}
+
+/**
+ * LemonSqueezy customers have no metadata; reject it instead of dropping it.
+ */
+function assertNoCustomerMetadata(params: Partial<UpdateCustomerParams>): void {
+  if (params.organizationId || params.userId || params.metadata) {
+    throw new ProviderUnsupportedError(
+      "LemonSqueezy customers do not support metadata. Pass organizationId and userId to createCheckoutLink instead.",
+      { provider: "lemonsqueezy" }
+    );
   }
-  return storeId;
 }
 
-export const createCheckoutLink: CreateCheckoutLink = async (params) => {
-  const apiKey = getLemonSqueezyApiKey();
-  const storeId = getLemonSqueezyStoreId();
-  const { productId, redirectUrl, email, name, organizationId, userId, seats } =
-    params;
-
-  const customData: Record<string, string> = {};
-  if (organizationId) customData.organization_id = organizationId;
-  if (userId) customData.user_id = userId;
-
-  const response = await fetch(`${LEMONSQUEEZY_API_URL}/checkouts`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/vnd.api+json",
-      Accept: "application/vnd.api+json",
+/**
+ * Map a LemonSqueezy (JSON:API) error response onto a typed payment error.
+ */
+async function lemonSqueezyError(response: Response): Promise<PaymentError> {
+  const body = await readErrorBody(response);
+  const errors = (body as { errors?: { detail?: string; code?: string }[] })
+    ?.errors;
+  return createApiError(
+    "lemonsqueezy",
+    "LemonSqueezy",
+    response.status,
+    {
+      message: errors?.map((error) => error.detail).join("; "),
+      code: errors?.[0]?.code,
     },
-    body: JSON.stringify({
-      data: {
-        type: "checkouts",
-        attributes: {
-          product_options: {
-            redirect_url: redirectUrl,
-            enabled_variants: [parseInt(productId, 10)],
+    body
+  );
+}
+
+/**
+ * LemonSqueezy provider configuration.
+ * Unset credentials fall back to environment variables.
+ */
+export type LemonSqueezyConfig = ProviderOptions & {
+  /** API key (default: `LEMONSQUEEZY_API_KEY`) */
+  apiKey?: string;
+  /** Store ID (default: `LEMONSQUEEZY_STORE_ID`) */
+  storeId?: string;
+  /** Webhook signing secret (default: `LEMONSQUEEZY_WEBHOOK_SECRET`) */
+  webhookSecret?: string;
+};
+
+/**
+ * Create an isolated LemonSqueezy provider instance.
+ *
+ * @example
+ * ```ts
+ * import { createLemonSqueezyProvider } from "@xyz/payment/providers/lemonsqueezy";
+ *
+ * const lemonsqueezy = createLemonSqueezyProvider({
+ *   apiKey: workspace.lemonSqueezyKey,
+ *   storeId: workspace.lemonSqueezyStoreId,
+ * });
+ * ```
+ */
+export function createLemonSqueezyProvider(
+  config: LemonSqueezyConfig = {}
+): PaymentProvider {
+  const request = createTransport(config, { provider: "lemonsqueezy" });
+
+  // LemonSqueezy test mode is a property of the API key; there is no
+  // separate sandbox URL to switch to
+  const apiUrl = config.baseUrl ?? LEMONSQUEEZY_API_URL;
+
+  function getLemonSqueezyApiKey(): string {
+    const apiKey = config.apiKey ?? readEnv("LEMONSQUEEZY_API_KEY");
+    if (!apiKey) {
+      throw new ConfigurationError(
+        "Missing env variable LEMONSQUEEZY_API_KEY",
+        { provider: "lemonsqueezy" }
+      );
+    }
+    return apiKey;
+  }
+
+  function getLemonSqueezyStoreId(): string {
+    const storeId = config.storeId ?? readEnv("LEMONSQUEEZY_STORE_ID");
+    if (!storeId) {
+      throw new ConfigurationError(
+        "Missing env variable LEMONSQUEEZY_STORE_ID",
+        { provider: "lemonsqueezy" }
+      );
+    }
+    return storeId;
+  }
+
+  const createCheckoutSession: CreateCheckoutSession = async (params) => {
+    if (config.strict) {
+      assertCheckoutCapabilities(
+        params,
+        LEMONSQUEEZY_CAPABILITIES,
+        "lemonsqueezy",
+        "LemonSqueezy"
+      );
+    }
+    const apiKey = getLemonSqueezyApiKey();
+    const storeId = getLemonSqueezyStoreId();
+    const {
+      redirectUrl,
+      email,
+      name,
+      organizationId,
+      userId,
+      discountCode,
+      allowPromotionCodes,
+    } = params;
+    const { productId, quantity } = singleCheckoutItem(
+      params,
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+
+    const customData: Record<string, string> = {};
+    if (organizationId) customData.organization_id = organizationId;
+    if (userId) customData.user_id = userId;
+
+    const response = await request(`${apiUrl}/checkouts`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/vnd.api+json",
+        Accept: "application/vnd.api+json",
+      },
+      body: JSON.stringify({
+        data: {
+          type: "checkouts",
+          attributes: {
+            product_options: {
+              redirect_url: redirectUrl,
+              enabled_variants: [parseInt(productId, 10)],
+            },
+            checkout_data: {
+              email,
+              name,
+              variant_quantities: [
+                {
+                  variant_id: parseInt(productId, 10),
+                  quantity,
+                },
+              ],
+              custom: customData,
+              discount_code: discountCode,
+            },
+            checkout_options:
+              allowPromotionCodes === undefined
+                ? undefined
+                : { discount: allowPromotionCodes },
           },
-          checkout_data: {
-            email,
-            name,
-            variant_quantities: [
-              {
-                variant_id: parseInt(productId, 10),
-                quantity: seats ?? 1,
+          relationships: {
+            store: {
+              data: {
+                type: "stores",
+                id: storeId,
               },
-            ],
-            custom: customData,
+            },
+            variant: {
+              data: {
+                type: "variants",
+                id: productId,
+              },
+            },
           },
         },
-        relationships: {
-          store: {
-            data: {
-              type: "stores",
-              id: storeId,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: checkoutSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return toCheckoutSession(result.data);
+  };
+
+  const createCheckoutLink: CreateCheckoutLink = async (params) => {
+    const session = await createCheckoutSession(params);
+    return session.url;
+  };
+
+  const getCheckoutSession: GetCheckoutSession = async (id) => {
+    const apiKey = getLemonSqueezyApiKey();
+
+    const response = await request(
+      `${apiUrl}/checkouts/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: checkoutSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return toCheckoutSession(result.data);
+  };
+
+  const createCustomerPortalLink: CreateCustomerPortalLink = async (
+    params
+  ) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const { customerId } = params;
+
+    const response = await request(
+      `${apiUrl}/customers/${encodeURIComponent(customerId)}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: customerSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return result.data.attributes.urls?.customer_portal ?? null;
+  };
+
+  const cancelSubscription: CancelSubscription = async (id, options = {}) => {
+    const apiKey = getLemonSqueezyApiKey();
+
+    // Cancelled subscriptions stay active until the end of the paid period
+    if (options.immediately) {
+      throw new ProviderUnsupportedError(
+        "LemonSqueezy cancels subscriptions at the end of the billing period only",
+        { provider: "lemonsqueezy" }
+      );
+    }
+
+    const response = await request(
+      `${apiUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+  };
+
+  const setSubscriptionSeats: SetSubscriptionSeats = async (params) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const { id, seats, proration = "prorate" } = params;
+
+    // The quantity lives on the subscription item, so look up its ID first
+    const subscriptionResponse = await request(
+      `${apiUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      }
+    );
+
+    if (!subscriptionResponse.ok) {
+      throw await lemonSqueezyError(subscriptionResponse);
+    }
+
+    const subscription = await schema.readJson(
+      subscriptionResponse,
+      schema.object({
+        data: resourceSchema({
+          first_subscription_item: schema.object({ id: schema.number }),
+        }),
+      }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    const itemId = String(
+      subscription.data.attributes.first_subscription_item.id
+    );
+
+    const response = await request(
+      `${apiUrl}/subscription-items/${encodeURIComponent(itemId)}`,
+      {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/vnd.api+json",
+          Accept: "application/vnd.api+json",
+        },
+        body: JSON.stringify({
+          data: {
+            type: "subscription-items",
+            id: itemId,
+            attributes: {
+              quantity: seats,
+              invoice_immediately: proration === "invoice",
+              disable_prorations: proration === "none",
             },
           },
-          variant: {
-            data: {
-              type: "variants",
-              id: productId,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+  };
+
+  const getSubscription: GetSubscription = async (id) => {
+    const apiKey = getLemonSqueezyApiKey();
+
+    const response = await request(
+      `${apiUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: subscriptionSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return toSubscription(result.data);
+  };
+
+  const listSubscriptions: ListSubscriptions = async (params) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const subscriptions: Subscription[] = [];
+    let page = 1;
+    let lastPage = 1;
+
+    do {
+      const query = new URLSearchParams({
+        "filter[customer_id]": params.customerId,
+        "page[size]": "100",
+        "page[number]": String(page),
+      });
+
+      const response = await request(`${apiUrl}/subscriptions?${query}`, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      });
+
+      if (!response.ok) {
+        throw await lemonSqueezyError(response);
+      }
+
+      const result = await schema.readJson(
+        response,
+        schema.object({
+          data: schema.array(subscriptionSchema),
+          meta: schema.object({
+            page: schema.object({ lastPage: schema.number }),
+          }),
+        }),
+        "lemonsqueezy",
+        "LemonSqueezy"
+      );
+      subscriptions.push(...result.data.map(toSubscription));
+      lastPage = result.meta.page.lastPage;
+      page += 1;
+    } while (page <= lastPage);
+
+    return subscriptions;
+  };
+
+  const createCustomer: CreateCustomer = async (params) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const storeId = getLemonSqueezyStoreId();
+    assertNoCustomerMetadata(params);
+
+    const response = await request(`${apiUrl}/customers`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/vnd.api+json",
+        Accept: "application/vnd.api+json",
+      },
+      body: JSON.stringify({
+        data: {
+          type: "customers",
+          attributes: {
+            email: params.email,
+            name: params.name ?? params.email,
+          },
+          relationships: {
+            store: {
+              data: {
+                type: "stores",
+                id: storeId,
+              },
             },
           },
         },
-      },
-    }),
-  });
+      }),
+    });
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`LemonSqueezy API error: ${JSON.stringify(error)}`);
-  }
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: customerSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return toCustomer(result.data);
+  };
+
+  const getCustomer: GetCustomer = async (id) => {
+    const apiKey = getLemonSqueezyApiKey();
+
+    const response = await request(
+      `${apiUrl}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
 
-  const result = (await response.json()) as {
-    data: { attributes: { url: string } };
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: customerSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return toCustomer(result.data);
   };
-  return result.data.attributes.url;
-};
 
-export const createCustomerPortalLink: CreateCustomerPortalLink = async (
-  params
-) => {
-  const apiKey = getLemonSqueezyApiKey();
-  const { customerId } = params;
+  const updateCustomer: UpdateCustomer = async (params) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const { id, email, name } = params;
+    assertNoCustomerMetadata(params);
 
-  const response = await fetch(
-    `${LEMONSQUEEZY_API_URL}/customers/${customerId}`,
-    {
+    const response = await request(
+      `${apiUrl}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/vnd.api+json",
+          Accept: "application/vnd.api+json",
+        },
+        body: JSON.stringify({
+          data: {
+            type: "customers",
+            id,
+            attributes: { email, name },
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: customerSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return toCustomer(result.data);
+  };
+
+  const findCustomerByEmail: FindCustomerByEmail = async (email) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const storeId = getLemonSqueezyStoreId();
+    const query = new URLSearchParams({
+      "filter[store_id]": storeId,
+      "filter[email]": email,
+    });
+
+    const response = await request(`${apiUrl}/customers?${query}`, {
       method: "GET",
       headers: {
         Authorization: `Bearer ${apiKey}`,
         Accept: "application/vnd.api+json",
       },
+    });
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
     }
-  );
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`LemonSqueezy API error: ${JSON.stringify(error)}`);
-  }
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: schema.array(customerSchema) }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return result.data[0] ? toCustomer(result.data[0]) : null;
+  };
+
+  /**
+   * LemonSqueezy refunds are recorded on the order itself, so the refund ID is
+   * the order ID. LemonSqueezy does not record a refund reason.
+   */
+  const createRefund: CreateRefund = async (params) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const { paymentId, amount } = params;
+    if (amount !== undefined) assertMinorUnits(amount, "lemonsqueezy");
+
+    const response = await request(
+      `${apiUrl}/orders/${encodeURIComponent(paymentId)}/refund`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/vnd.api+json",
+          Accept: "application/vnd.api+json",
+        },
+        body: JSON.stringify({
+          data: {
+            type: "orders",
+            id: paymentId,
+            attributes: { amount },
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
 
-  const result = (await response.json()) as {
-    data: { attributes: { urls: { customer_portal: string } } };
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: orderSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return toRefund(result.data);
   };
-  return result.data.attributes.urls.customer_portal ?? null;
-};
 
-export const webhookHandler: WebhookHandler = async (req) => {
-  const webhookSecret = process.env.LEMONSQUEEZY_WEBHOOK_SECRET;
+  const listRefunds: ListRefunds = async (params = {}) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const { paymentId } = params;
+
+    if (!paymentId) {
+      throw new ProviderUnsupportedError(
+        "LemonSqueezy cannot list refunds across orders. Pass a paymentId (order ID).",
+        { provider: "lemonsqueezy" }
+      );
+    }
+
+    const response = await request(
+      `${apiUrl}/orders/${encodeURIComponent(paymentId)}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: orderSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return result.data.attributes.refunded ? [toRefund(result.data)] : [];
+  };
+
+  /**
+   * Fixed discounts are in the store currency, so check it matches.
+   */
+  async function assertStoreCurrency(
+    apiKey: string,
+    storeId: string,
+    currency: string
+  ): Promise<void> {
+    const response = await request(
+      `${apiUrl}/stores/${encodeURIComponent(storeId)}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/vnd.api+json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
 
-  if (!webhookSecret) {
-    return new Response("Missing LEMONSQUEEZY_WEBHOOK_SECRET", { status: 500 });
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: resourceSchema({ currency: schema.string }) }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    const storeCurrency = result.data.attributes.currency;
+    if (storeCurrency.toUpperCase() !== currency.toUpperCase()) {
+      throw new InvalidRequestError(
+        `LemonSqueezy fixed discounts use the store currency (${storeCurrency}), not ${currency}`,
+        { provider: "lemonsqueezy", code: "currency_mismatch" }
+      );
+    }
   }
 
-  try {
-    const text = await req.text();
-    const hmac = createHmac("sha256", webhookSecret);
-    const digest = Buffer.from(hmac.update(text).digest("hex"), "utf8");
-    const signature = Buffer.from(
-      req.headers.get("x-signature") as string,
-      "utf8"
+  /**
+   * Product IDs are variant IDs, as in `createCheckoutLink`.
+   */
+  const createDiscount: CreateDiscount = async (params) => {
+    assertDiscountParams(params, "lemonsqueezy");
+    const apiKey = getLemonSqueezyApiKey();
+    const storeId = getLemonSqueezyStoreId();
+    const {
+      code,
+      name,
+      percentOff,
+      amountOff,
+      duration = "once",
+      durationInMonths,
+      maxRedemptions,
+      expiresAt,
+      productIds,
+    } = params;
+
+    if (amountOff) {
+      await assertStoreCurrency(apiKey, storeId, amountOff.currency);
+    }
+
+    const response = await request(`${apiUrl}/discounts`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/vnd.api+json",
+        Accept: "application/vnd.api+json",
+      },
+      body: JSON.stringify({
+        data: {
+          type: "discounts",
+          attributes: {
+            name: name ?? code,
+            code,
+            amount: amountOff ? amountOff.amount : percentOff,
+            amount_type: amountOff ? "fixed" : "percent",
+            duration,
+            duration_in_months: durationInMonths,
+            is_limited_redemptions: maxRedemptions !== undefined,
+            max_redemptions: maxRedemptions,
+            expires_at: expiresAt?.toISOString(),
+            is_limited_to_products: productIds !== undefined,
+          },
+          relationships: {
+            store: {
+              data: {
+                type: "stores",
+                id: storeId,
+              },
+            },
+            ...(productIds
+              ? {
+                  variants: {
+                    data: productIds.map((id) => ({ type: "variants", id })),
+                  },
+                }
+              : {}),
+          },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: discountSchema }),
+      "lemonsqueezy",
+      "LemonSqueezy"
     );
+    return toDiscount(result.data);
+  };
+
+  const listDiscounts: ListDiscounts = async (params = {}) => {
+    const apiKey = getLemonSqueezyApiKey();
+    const storeId = getLemonSqueezyStoreId();
+    const { limit = 100 } = params;
+
+    const query = new URLSearchParams({
+      "filter[store_id]": storeId,
+      "page[size]": String(Math.min(limit, 100)),
+    });
+    const response = await request(`${apiUrl}/discounts?${query}`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        Accept: "application/vnd.api+json",
+      },
+    });
 
-    if (!timingSafeEqual(digest, signature)) {
-      return new Response("Invalid signature", { status: 400 });
+    if (!response.ok) {
+      throw await lemonSqueezyError(response);
     }
 
-    const payload = JSON.parse(text) as {
-      meta: { event_name: string };
-      data: Record<string, unknown>;
+    const result = await schema.readJson(
+      response,
+      schema.object({ data: schema.array(discountSchema) }),
+      "lemonsqueezy",
+      "LemonSqueezy"
+    );
+    return result.data.map(toDiscount);
+  };
+
+  const createWebhookHandler: CreateWebhookHandler = (options = {}) =>
+    async (req) => {
+      const webhookSecret =
+        config.webhookSecret ?? readEnv("LEMONSQUEEZY_WEBHOOK_SECRET");
+
+      if (!webhookSecret) {
+        return new Response("Missing LEMONSQUEEZY_WEBHOOK_SECRET", {
+          status: 401,
+        });
+      }
+
+      const signature = req.headers.get("x-signature");
+      if (!signature) {
+        return new Response("Missing x-signature header", { status: 401 });
+      }
+
+      const text = await req.text();
+      const digest = createHmac("sha256", webhookSecret)
+        .update(text)
+        .digest("hex");
+
+      if (!safeEqual(digest, signature)) {
+        return new Response("Invalid signature", { status: 401 });
+      }
+
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        return new Response("Invalid webhook payload", { status: 400 });
+      }
+      const deliveryId = bodyDigest(text);
+      let event: PaymentEvent | null;
+      try {
+        const payload = schema.parse(
+          eventSchema,
+          json,
+          "lemonsqueezy",
+          "LemonSqueezy webhook payload"
+        );
+        event = toPaymentEvent(payload);
+      } catch (error) {
+        return invalidPayloadResponse(error);
+      }
+
+      // LemonSqueezy sends no delivery ID or timestamp, so the body digest
+      // identifies the delivery
+      return respondToEvent({
+        provider: "lemonsqueezy",
+        deliveryId,
+        event,
+        options,
+        successStatus: 204,
+      });
     };
 
-    // Handle webhook events - implement your business logic here
-    switch (payload.meta.event_name) {
-      case "subscription_created":
-      case "subscription_updated":
-      case "subscription_cancelled":
-      case "subscription_expired":
-      case "order_created":
-        // Implement your business logic here
-        break;
-      default:
-        // Unhandled event type
-        break;
-    }
-
-    return new Response(null, { status: 204 });
-  } catch {
-    return new Response("Invalid webhook payload", { status: 400 });
-  }
-};
+  return {
+    capabilities: LEMONSQUEEZY_CAPABILITIES,
+    createCheckoutLink,
+    createCheckoutSession,
+    getCheckoutSession,
+    createCustomerPortalLink,
+    cancelSubscription,
+    setSubscriptionSeats,
+    getSubscription,
+    listSubscriptions,
+    createCustomer,
+    getCustomer,
+    updateCustomer,
+    findCustomerByEmail,
+    createRefund,
+    listRefunds,
+    createDiscount,
+    listDiscounts,
+    webhookHandler: createWebhookHandler(),
+    createWebhookHandler,
+  };
+}
+
+const defaultProvider = createLemonSqueezyProvider();
+
+export const capabilities = defaultProvider.capabilities;
+export const createCheckoutLink = defaultProvider.createCheckoutLink;
+export const createCheckoutSession = defaultProvider.createCheckoutSession;
+export const getCheckoutSession = defaultProvider.getCheckoutSession;
+export const createCustomerPortalLink =
+  defaultProvider.createCustomerPortalLink;
+export const cancelSubscription = defaultProvider.cancelSubscription;
+export const setSubscriptionSeats = defaultProvider.setSubscriptionSeats;
+export const getSubscription = defaultProvider.getSubscription;
+export const listSubscriptions = defaultProvider.listSubscriptions;
+export const createCustomer = defaultProvider.createCustomer;
+export const getCustomer = defaultProvider.getCustomer;
+export const updateCustomer = defaultProvider.updateCustomer;
+export const findCustomerByEmail = defaultProvider.findCustomerByEmail;
+export const createRefund = defaultProvider.createRefund;
+export const listRefunds = defaultProvider.listRefunds;
+export const createDiscount = defaultProvider.createDiscount;
+export const listDiscounts = defaultProvider.listDiscounts;
+export const webhookHandler = defaultProvider.webhookHandler;
+export const createWebhookHandler = defaultProvider.createWebhookHandler;
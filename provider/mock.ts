@@ -0,0 +1,1563 @@
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type {
+  CancelSubscription,
+  CheckoutSession,
+  CreateCheckoutLink,
+  CreateCheckoutSession,
+  CreateCustomer,
+  CreateCustomerPortalLink,
+  CreateDiscount,
+  CreateRefund,
+  CreateWebhookHandler,
+  Customer,
+  Discount,
+  FindCustomerByEmail,
+  GetCheckoutSession,
+  GetCustomer,
+  GetSubscription,
+  ListDiscounts,
+  ListRefunds,
+  ListSubscriptions,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentTransactionEvent,
+  ProviderCapabilities,
+  ProviderOptions,
+  Refund,
+  SetSubscriptionSeats,
+  Subscription,
+  SubscriptionEvent,
+  UpdateCustomer,
+} from "../types";
+import {
+  ApiConnectionError,
+  InvalidRequestError,
+  NotFoundError,
+  PaymentError,
+} from "../errors";
+import {
+  assertCheckoutCapabilities,
+  assertDiscountParams,
+  checkoutItems,
+} from "../checkout";
+import { readEnv } from "../config";
+import {
+  assertMinorUnits,
+  currencyDecimals,
+  fromMinorUnits,
+  money,
+} from "../money";
+import * as schema from "../schema";
+import {
+  buildMetadata,
+  invalidPayloadResponse,
+  isWithinTolerance,
+  readMetadataIds,
+  respondToEvent,
+  signStandardWebhook,
+  standardWebhookKey,
+  toDate,
+  verifyStandardWebhookSignature,
+} from "../webhook";
+import type { BillingInterval } from "./tap";
+
+export type { BillingInterval };
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Price of a product sold by the mock provider.
+ */
+export type MockPrice = {
+  /** Price per seat in the currency's smallest unit */
+  amount: number;
+  /** Currency code (e.g., "USD", "EUR") */
+  currency: string;
+  /** Billing interval of subscriptions (default: "month") */
+  interval?: BillingInterval;
+  /** Number of intervals per billing period (default: 1) */
+  intervalCount?: number;
+};
+
+/**
+ * Mock provider configuration. `baseUrl` sets the public URL of the checkout
+ * server, e.g. when the browser reaches it through a proxy.
+ */
+export type MockConfig = ProviderOptions & {
+  /**
+   * URL the provider sends its webhooks to (default: `MOCK_WEBHOOK_URL`).
+   * No webhooks are sent without one.
+   */
+  webhookUrl?: string;
+  /**
+   * Webhook signing secret (default: `MOCK_WEBHOOK_SECRET`, or a fixed test
+   * secret)
+   */
+  webhookSecret?: string;
+  /** Port of the checkout server (default: `MOCK_PORT`, or a free port) */
+  port?: number;
+  /** Prices by product ID (default: every product costs 10.00 USD a month) */
+  prices?: Record<string, MockPrice>;
+};
+
+/**
+ * Options for renewing a mock subscription.
+ */
+export type RenewSubscriptionOptions = {
+  /** Decline the renewal payment, leaving the subscription past due */
+  decline?: boolean;
+};
+
+/**
+ * Mock provider instance with controls for the checkout server and the
+ * simulated customer actions.
+ */
+export type MockProvider = PaymentProvider & {
+  /**
+   * Start the checkout server if it is not running and resolve its URL.
+   * Checkouts and portal links start it on demand.
+   */
+  listen: () => Promise<string>;
+  /** Stop the checkout server */
+  close: () => Promise<void>;
+  /** Pay a checkout, as the customer would on the checkout page */
+  completeCheckout: (id: string) => Promise<CheckoutSession>;
+  /** Decline a checkout's payment */
+  declineCheckout: (id: string) => Promise<CheckoutSession>;
+  /**
+   * Move a subscription to its next billing period: end the trial, charge
+   * the renewal, or end a subscription that was canceled at period end
+   */
+  renewSubscription: (
+    id: string,
+    options?: RenewSubscriptionOptions
+  ) => Promise<Subscription>;
+  /** Delete all stored checkouts, customers, subscriptions and payments */
+  reset: () => void;
+};
+
+// ============================================
+// Constants
+// ============================================
+
+const MOCK_CAPABILITIES: ProviderCapabilities = {
+  customerPortal: true,
+  trials: true,
+  seats: true,
+  customerId: true,
+  email: true,
+  name: true,
+  multiItem: true,
+  discountCodes: true,
+  promotionCodes: false,
+  subscriptions: true,
+  listSubscriptions: true,
+  cancelImmediately: true,
+  seatUpdates: true,
+  customerWrites: true,
+  refunds: true,
+  discounts: true,
+};
+
+const DEFAULT_PRICE: MockPrice = { amount: 1000, currency: "USD" };
+
+const DEFAULT_WEBHOOK_SECRET = "mock_webhook_secret";
+
+const CHECKOUT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Schemas
+// ============================================
+
+const metadataSchema = schema.record(schema.string);
+
+const itemSchema = schema.object({
+  product_id: schema.string,
+  quantity: schema.number,
+});
+
+const checkoutSchema = schema.object({
+  id: schema.string,
+  status: schema.oneOf("open", "paid", "failed"),
+  mode: schema.oneOf("payment", "subscription"),
+  url: schema.string,
+  items: schema.array(itemSchema),
+  /** Amount due at checkout; 0 for a trial */
+  amount: schema.number,
+  /** Amount of the first billing period before discounts */
+  amount_subtotal: schema.number,
+  currency: schema.string,
+  customer_id: schema.optional(schema.string),
+  email: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  trial_period_days: schema.optional(schema.number),
+  discount_id: schema.optional(schema.string),
+  redirect_url: schema.optional(schema.string),
+  subscription_id: schema.optional(schema.string),
+  payment_id: schema.optional(schema.string),
+  metadata: metadataSchema,
+  created_at: schema.string,
+  expires_at: schema.string,
+});
+
+const subscriptionSchema = schema.object({
+  id: schema.string,
+  status: schema.oneOf("trialing", "active", "past_due", "canceled", "expired"),
+  customer_id: schema.string,
+  items: schema.array(itemSchema),
+  currency: schema.string,
+  interval: schema.oneOf("day", "week", "month", "year"),
+  interval_count: schema.number,
+  current_period_start: schema.string,
+  current_period_end: schema.string,
+  trial_end: schema.optional(schema.string),
+  cancel_at_period_end: schema.boolean,
+  discount_id: schema.optional(schema.string),
+  metadata: metadataSchema,
+  created_at: schema.string,
+});
+
+const paymentSchema = schema.object({
+  id: schema.string,
+  status: schema.oneOf("succeeded", "failed"),
+  customer_id: schema.optional(schema.string),
+  checkout_id: schema.optional(schema.string),
+  subscription_id: schema.optional(schema.string),
+  amount: schema.number,
+  amount_refunded: schema.number,
+  currency: schema.string,
+  metadata: metadataSchema,
+  created_at: schema.string,
+});
+
+const refundSchema = schema.object({
+  id: schema.string,
+  status: schema.oneOf("succeeded"),
+  payment_id: schema.string,
+  customer_id: schema.optional(schema.string),
+  amount: schema.number,
+  currency: schema.string,
+  reason: schema.optional(schema.string),
+  metadata: metadataSchema,
+  created_at: schema.string,
+});
+
+const customerSchema = schema.object({
+  id: schema.string,
+  email: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  metadata: metadataSchema,
+  created_at: schema.string,
+});
+
+const discountSchema = schema.object({
+  id: schema.string,
+  code: schema.string,
+  name: schema.string,
+  percent_off: schema.optional(schema.number),
+  amount_off: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  duration: schema.oneOf("once", "repeating", "forever"),
+  duration_in_months: schema.optional(schema.number),
+  max_redemptions: schema.optional(schema.number),
+  times_redeemed: schema.number,
+  expires_at: schema.optional(schema.string),
+  product_ids: schema.optional(schema.array(schema.string)),
+  created_at: schema.string,
+});
+
+const eventSchema = schema.object({
+  id: schema.string,
+  type: schema.string,
+  created_at: schema.string,
+  data: schema.record(schema.unknown),
+});
+
+type MockCheckout = schema.Infer<typeof checkoutSchema>;
+type MockSubscription = schema.Infer<typeof subscriptionSchema>;
+type MockPayment = schema.Infer<typeof paymentSchema>;
+type MockRefund = schema.Infer<typeof refundSchema>;
+type MockCustomer = schema.Infer<typeof customerSchema>;
+type MockDiscount = schema.Infer<typeof discountSchema>;
+type MockEvent = schema.Infer<typeof eventSchema>;
+
+/**
+ * Check the data of a mock event against a schema.
+ */
+function eventData<T>(dataSchema: schema.Schema<T>, event: MockEvent): T {
+  return schema.parse(
+    dataSchema,
+    event.data,
+    "mock",
+    "Mock webhook payload",
+    "data"
+  );
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function newId(prefix: string): string {
+  return `${prefix}_${randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Add `count` intervals to a date.
+ */
+function addInterval(
+  date: Date,
+  interval: BillingInterval,
+  count: number
+): Date {
+  const result = new Date(date);
+  if (interval === "day" || interval === "week") {
+    const days = interval === "week" ? count * 7 : count;
+    result.setUTCDate(result.getUTCDate() + days);
+  } else {
+    const months = interval === "year" ? count * 12 : count;
+    result.setUTCMonth(result.getUTCMonth() + months);
+  }
+  return result;
+}
+
+/**
+ * Apply a discount to an amount.
+ */
+function discounted(amount: number, discount: MockDiscount | null): number {
+  if (!discount) return amount;
+  if (discount.percent_off) {
+    return Math.round((amount * (100 - discount.percent_off)) / 100);
+  }
+  return Math.max(amount - (discount.amount_off ?? 0), 0);
+}
+
+function formatAmount(amount: number, currency: string): string {
+  const value = fromMinorUnits(amount, currency, "mock");
+  return `${value.toFixed(currencyDecimals(currency))} ${currency}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem; }
+form { display: inline-block; margin-right: 0.5rem; }
+button { font-size: 1rem; padding: 0.5rem 1rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+}
+
+function sendHtml(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(html);
+}
+
+function redirect(res: ServerResponse, location: string): void {
+  res.writeHead(303, { Location: location });
+  res.end();
+}
+
+// ============================================
+// Mappers
+// ============================================
+
+function toCheckoutSession(checkout: MockCheckout): CheckoutSession {
+  const expiresAt = new Date(checkout.expires_at);
+  const expired =
+    checkout.status === "open" && expiresAt.getTime() <= Date.now();
+  return {
+    provider: "mock",
+    id: checkout.id,
+    url: checkout.url,
+    status: expired ? "expired" : checkout.status,
+    expiresAt,
+    raw: checkout,
+  };
+}
+
+function toSubscription(subscription: MockSubscription): Subscription {
+  const item = subscription.items[0];
+  return {
+    provider: "mock",
+    id: subscription.id,
+    customerId: subscription.customer_id,
+    status: subscription.status,
+    productId: item?.product_id ?? null,
+    seats: item?.quantity ?? null,
+    currentPeriodStart: toDate(subscription.current_period_start),
+    currentPeriodEnd: toDate(subscription.current_period_end),
+    trialEnd: toDate(subscription.trial_end),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    raw: subscription,
+  };
+}
+
+function toCustomer(customer: MockCustomer): Customer {
+  return {
+    provider: "mock",
+    id: customer.id,
+    email: customer.email ?? null,
+    name: customer.name ?? null,
+    ...readMetadataIds(customer.metadata),
+    metadata: customer.metadata,
+    raw: customer,
+  };
+}
+
+function toRefund(refund: MockRefund): Refund {
+  return {
+    provider: "mock",
+    id: refund.id,
+    paymentId: refund.payment_id,
+    amount: refund.amount,
+    currency: refund.currency,
+    status: refund.status,
+    reason: refund.reason ?? null,
+    createdAt: toDate(refund.created_at),
+    raw: refund,
+  };
+}
+
+function toDiscount(discount: MockDiscount): Discount {
+  const expiresAt = toDate(discount.expires_at);
+  const exhausted =
+    typeof discount.max_redemptions === "number" &&
+    discount.times_redeemed >= discount.max_redemptions;
+  return {
+    provider: "mock",
+    id: discount.id,
+    code: discount.code,
+    name: discount.name,
+    percentOff: discount.percent_off ?? null,
+    amountOff: discount.amount_off ?? null,
+    currency: discount.currency ?? null,
+    duration: discount.duration,
+    durationInMonths: discount.duration_in_months ?? null,
+    maxRedemptions: discount.max_redemptions ?? null,
+    timesRedeemed: discount.times_redeemed,
+    expiresAt,
+    active: !exhausted && (!expiresAt || expiresAt.getTime() > Date.now()),
+    raw: discount,
+  };
+}
+
+// ============================================
+// Webhook Events
+// ============================================
+
+const SUBSCRIPTION_EVENT_TYPES: Record<string, SubscriptionEvent["type"]> = {
+  "subscription.created": "subscription.created",
+  "subscription.updated": "subscription.updated",
+  "subscription.canceled": "subscription.canceled",
+  "subscription.expired": "subscription.expired",
+};
+
+const PAYMENT_EVENT_TYPES: Record<string, PaymentTransactionEvent["type"]> = {
+  "payment.succeeded": "payment.succeeded",
+  "payment.failed": "payment.failed",
+};
+
+function toPaymentEvent(event: MockEvent): PaymentEvent | null {
+  const base = (data: {
+    customer_id?: string | null;
+    metadata: Record<string, string>;
+  }) => ({
+    provider: "mock",
+    id: event.id,
+    providerEventType: event.type,
+    customerId: data.customer_id ?? null,
+    ...readMetadataIds(data.metadata),
+    raw: event,
+  });
+
+  const subscriptionType = SUBSCRIPTION_EVENT_TYPES[event.type];
+  if (subscriptionType) {
+    const data = eventData(subscriptionSchema, event);
+    const item = data.items[0];
+    return {
+      ...base(data),
+      type: subscriptionType,
+      subscriptionId: data.id,
+      productId: item?.product_id ?? null,
+      status: data.status,
+      seats: item?.quantity ?? null,
+      currentPeriodEnd: toDate(data.current_period_end),
+      cancelAtPeriodEnd: data.cancel_at_period_end,
+    };
+  }
+
+  const paymentType = PAYMENT_EVENT_TYPES[event.type];
+  if (paymentType) {
+    const data = eventData(paymentSchema, event);
+    return {
+      ...base(data),
+      type: paymentType,
+      paymentId: data.id,
+      subscriptionId: data.subscription_id ?? null,
+      amount: data.amount,
+      currency: data.currency,
+    };
+  }
+
+  switch (event.type) {
+    case "checkout.completed": {
+      const data = eventData(checkoutSchema, event);
+      return {
+        ...base(data),
+        type: "checkout.completed",
+        checkoutId: data.id,
+        subscriptionId: data.subscription_id ?? null,
+        productId: data.items[0]?.product_id ?? null,
+        amount: data.amount,
+        currency: data.currency,
+      };
+    }
+    case "refund.created": {
+      const data = eventData(refundSchema, event);
+      return {
+        ...base(data),
+        type: "refund.created",
+        refundId: data.id,
+        paymentId: data.payment_id,
+        amount: data.amount,
+        currency: data.currency,
+        status: data.status,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// Provider Factory
+// ============================================
+
+/**
+ * Create an offline payment provider for development and end-to-end tests.
+ * Data is kept in memory. Checkouts are paid or declined on a hosted page
+ * served from a local HTTP server, which sends signed webhooks to
+ * `webhookUrl` the way a real provider would.
+ *
+ * @example
+ * ```ts
+ * import { createMockProvider } from "@xyz/payment/providers/mock";
+ *
+ * const mock = createMockProvider({
+ *   webhookUrl: "http://localhost:3000/webhooks/payment",
+ *   prices: { pro: { amount: 2000, currency: "USD", interval: "month" } },
+ * });
+ *
+ * const session = await mock.createCheckoutSession({
+ *   type: "subscription",
+ *   productId: "pro",
+ *   email: "user@example.com",
+ * });
+ * // Open session.url in a browser, or pay it directly:
+ * await mock.completeCheckout(session.id);
+ *
+ * await mock.close();
+ * ```
+ */
+export function createMockProvider(config: MockConfig = {}): MockProvider {
+  const checkouts = new Map<string, MockCheckout>();
+  const subscriptions = new Map<string, MockSubscription>();
+  const payments = new Map<string, MockPayment>();
+  const refunds = new Map<string, MockRefund>();
+  const customers = new Map<string, MockCustomer>();
+  const discounts = new Map<string, MockDiscount>();
+
+  let server: Server | null = null;
+  let serverUrl: Promise<string> | null = null;
+
+  function getWebhookSecret(): string {
+    return (
+      config.webhookSecret ??
+      readEnv("MOCK_WEBHOOK_SECRET") ??
+      DEFAULT_WEBHOOK_SECRET
+    );
+  }
+
+  function priceOf(productId: string): MockPrice {
+    const price = config.prices ? config.prices[productId] : DEFAULT_PRICE;
+    if (!price) {
+      throw new InvalidRequestError(`Unknown mock product: ${productId}`, {
+        provider: "mock",
+      });
+    }
+    return price;
+  }
+
+  function notFound(kind: string, id: string): NotFoundError {
+    return new NotFoundError(`Unknown mock ${kind}: ${id}`, {
+      provider: "mock",
+      httpStatus: 404,
+    });
+  }
+
+  function requireCheckout(id: string): MockCheckout {
+    const checkout = checkouts.get(id);
+    if (!checkout) throw notFound("checkout", id);
+    return checkout;
+  }
+
+  function requireSubscription(id: string): MockSubscription {
+    const subscription = subscriptions.get(id);
+    if (!subscription) throw notFound("subscription", id);
+    return subscription;
+  }
+
+  function requireCustomer(id: string): MockCustomer {
+    const customer = customers.get(id);
+    if (!customer) throw notFound("customer", id);
+    return customer;
+  }
+
+  function findByEmail(email: string): MockCustomer | undefined {
+    const target = email.toLowerCase();
+    return [...customers.values()].find(
+      (customer) => customer.email?.toLowerCase() === target
+    );
+  }
+
+  function addCustomer(
+    fields: Pick<MockCustomer, "email" | "name" | "metadata">
+  ): MockCustomer {
+    const customer: MockCustomer = {
+      id: newId("cus"),
+      ...fields,
+      created_at: new Date().toISOString(),
+    };
+    customers.set(customer.id, customer);
+    return customer;
+  }
+
+  function findDiscount(code: string, productIds: string[]): MockDiscount {
+    const discount = [...discounts.values()].find(
+      (candidate) => candidate.code.toLowerCase() === code.toLowerCase()
+    );
+    const applies =
+      !discount?.product_ids?.length ||
+      productIds.some((id) => discount.product_ids?.includes(id));
+    if (!discount || !toDiscount(discount).active || !applies) {
+      throw new InvalidRequestError(`Discount code ${code} is not valid`, {
+        provider: "mock",
+        code: "invalid_discount_code",
+      });
+    }
+    return discount;
+  }
+
+  /**
+   * Amount of a subscription's billing period starting at `periodStart`,
+   * after the discounts that still apply.
+   */
+  function periodAmount(
+    subscription: MockSubscription,
+    periodStart: Date
+  ): number {
+    const subtotal = subscription.items.reduce(
+      (sum, item) => sum + priceOf(item.product_id).amount * item.quantity,
+      0
+    );
+    const discount = subscription.discount_id
+      ? (discounts.get(subscription.discount_id) ?? null)
+      : null;
+    if (!discount || discount.duration === "once") {
+      return subtotal;
+    }
+    if (
+      discount.duration === "repeating" &&
+      periodStart >=
+        addInterval(
+          new Date(subscription.created_at),
+          "month",
+          discount.duration_in_months ?? 0
+        )
+    ) {
+      return subtotal;
+    }
+    return discounted(subtotal, discount);
+  }
+
+  function recordPayment(
+    fields: Pick<
+      MockPayment,
+      | "status"
+      | "customer_id"
+      | "checkout_id"
+      | "subscription_id"
+      | "amount"
+      | "currency"
+      | "metadata"
+    >
+  ): MockPayment {
+    const payment: MockPayment = {
+      id: newId("pay"),
+      ...fields,
+      amount_refunded: 0,
+      created_at: new Date().toISOString(),
+    };
+    payments.set(payment.id, payment);
+    return payment;
+  }
+
+  /**
+   * Send signed webhooks in order, each after the previous one was accepted.
+   * Throws if the endpoint cannot be reached or rejects a delivery.
+   */
+  async function sendWebhooks(events: [string, unknown][]): Promise<void> {
+    const webhookUrl = config.webhookUrl ?? readEnv("MOCK_WEBHOOK_URL");
+    if (!webhookUrl) return;
+
+    const fetchImpl = config.fetch ?? fetch;
+    const key = standardWebhookKey(getWebhookSecret());
+    for (const [type, data] of events) {
+      const id = newId("evt");
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const body = JSON.stringify({
+        id,
+        type,
+        created_at: new Date().toISOString(),
+        data,
+      });
+
+      let response: Response;
+      try {
+        response = await fetchImpl(webhookUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "webhook-id": id,
+            "webhook-timestamp": timestamp,
+            "webhook-signature": signStandardWebhook({
+              id,
+              timestamp,
+              body,
+              key,
+            }),
+          },
+          body,
+        });
+      } catch (error) {
+        throw new ApiConnectionError(
+          `Could not deliver mock webhook ${type} to ${webhookUrl}`,
+          { provider: "mock", raw: error }
+        );
+      }
+      if (!response.ok) {
+        throw new PaymentError(
+          `Mock webhook ${type} was rejected by ${webhookUrl} with status ${response.status}`,
+          {
+            provider: "mock",
+            httpStatus: response.status,
+            raw: await response.text(),
+          }
+        );
+      }
+    }
+  }
+
+  // ============================================
+  // Checkout Server
+  // ============================================
+
+  function renderCheckout(checkout: MockCheckout): string {
+    const { status } = toCheckoutSession(checkout);
+    if (status !== "open") {
+      const messages = {
+        paid: "Payment complete.",
+        processing: "Payment processing.",
+        failed: "Payment declined.",
+        expired: "This checkout has expired.",
+      };
+      return renderPage("Mock checkout", `<p>${messages[status]}</p>`);
+    }
+
+    const items = checkout.items
+      .map((item) => {
+        const price = priceOf(item.product_id);
+        const amount = formatAmount(
+          price.amount * item.quantity,
+          checkout.currency
+        );
+        return `<li>${escapeHtml(item.product_id)} × ${item.quantity}: ${amount}</li>`;
+      })
+      .join("\n");
+    const total = formatAmount(checkout.amount, checkout.currency);
+    const subtotal = formatAmount(checkout.amount_subtotal, checkout.currency);
+    const summary = checkout.trial_period_days
+      ? `<p>Free for ${checkout.trial_period_days} days, then ${subtotal} per period.</p>`
+      : `<p>Total: <strong>${total}</strong></p>`;
+    const action = `/checkout/${encodeURIComponent(checkout.id)}`;
+
+    return renderPage(
+      "Mock checkout",
+      `<ul>
+${items}
+</ul>
+${summary}
+<form method="post" action="${action}/pay"><button type="submit" id="pay">Pay</button></form>
+<form method="post" action="${action}/decline"><button type="submit" id="decline">Decline</button></form>`
+    );
+  }
+
+  function renderPortal(
+    customer: MockCustomer,
+    returnUrl: string | null
+  ): string {
+    const rows = [...subscriptions.values()]
+      .filter((subscription) => subscription.customer_id === customer.id)
+      .map((subscription) => {
+        const product = subscription.items[0]?.product_id ?? "";
+        const ends = subscription.cancel_at_period_end
+          ? `, ends ${subscription.current_period_end}`
+          : "";
+        const action = `/portal/${encodeURIComponent(customer.id)}/cancel/${encodeURIComponent(subscription.id)}`;
+        const cancel =
+          !subscription.cancel_at_period_end &&
+          ["trialing", "active", "past_due"].includes(subscription.status)
+            ? `<form method="post" action="${action}"><button type="submit">Cancel</button></form>`
+            : "";
+        return `<li>${escapeHtml(product)}: ${subscription.status}${ends} ${cancel}</li>`;
+      })
+      .join("\n");
+    const back = returnUrl
+      ? `<p><a href="${escapeHtml(returnUrl)}">Return</a></p>`
+      : "";
+
+    return renderPage(
+      "Mock billing portal",
+      `<p>${escapeHtml(customer.email ?? customer.id)}</p>
+<ul>
+${rows || "<li>No subscriptions</li>"}
+</ul>
+${back}`
+    );
+  }
+
+  async function handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const [section, id, action, targetId] = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    const method = req.method ?? "GET";
+
+    if (section === "checkout" && id) {
+      const checkout = requireCheckout(id);
+      if (method === "GET" && !action) {
+        return sendHtml(res, 200, renderCheckout(checkout));
+      }
+      if (method === "POST" && action === "pay") {
+        await completeCheckout(id);
+        return redirect(
+          res,
+          checkout.redirect_url ?? `/checkout/${encodeURIComponent(id)}`
+        );
+      }
+      if (method === "POST" && action === "decline") {
+        await declineCheckout(id);
+        return redirect(res, `/checkout/${encodeURIComponent(id)}`);
+      }
+    }
+
+    if (section === "portal" && id) {
+      const customer = requireCustomer(id);
+      if (method === "GET" && !action) {
+        const returnUrl = url.searchParams.get("return_url");
+        return sendHtml(res, 200, renderPortal(customer, returnUrl));
+      }
+      if (method === "POST" && action === "cancel" && targetId) {
+        const subscription = requireSubscription(targetId);
+        if (subscription.customer_id !== customer.id) {
+          throw notFound("subscription", targetId);
+        }
+        await cancelSubscription(targetId);
+        return redirect(res, `/portal/${encodeURIComponent(id)}${url.search}`);
+      }
+    }
+
+    sendHtml(res, 404, renderPage("Not found", ""));
+  }
+
+  function listen(): Promise<string> {
+    if (!serverUrl) {
+      serverUrl = new Promise<string>((resolve, reject) => {
+        const instance = createServer((req, res) => {
+          handleRequest(req, res).catch((error: unknown) => {
+            const status =
+              error instanceof PaymentError ? (error.httpStatus ?? 400) : 500;
+            const message =
+              error instanceof Error ? error.message : String(error);
+            sendHtml(
+              res,
+              status,
+              renderPage("Mock checkout error", `<p>${escapeHtml(message)}</p>`)
+            );
+          });
+        });
+        instance.once("error", reject);
+        instance.listen(
+          config.port ?? Number(readEnv("MOCK_PORT") ?? 0),
+          "127.0.0.1",
+          () => {
+            // Let the process exit while the server is idle
+            instance.unref();
+            const { port } = instance.address() as AddressInfo;
+            resolve(
+              config.baseUrl?.replace(/\/$/, "") ?? `http://127.0.0.1:${port}`
+            );
+          }
+        );
+        server = instance;
+      }).catch((error: unknown) => {
+        server = null;
+        serverUrl = null;
+        throw error;
+      });
+    }
+    return serverUrl;
+  }
+
+  async function close(): Promise<void> {
+    const instance = server;
+    server = null;
+    serverUrl = null;
+    if (!instance) return;
+    await new Promise<void>((resolve, reject) => {
+      instance.close((error) => (error ? reject(error) : resolve()));
+      instance.closeAllConnections();
+    });
+  }
+
+  // ============================================
+  // Checkouts
+  // ============================================
+
+  const createCheckoutSession: CreateCheckoutSession = async (params) => {
+    if (config.strict) {
+      assertCheckoutCapabilities(params, MOCK_CAPABILITIES, "mock", "Mock");
+    }
+    const { type, customerId, trialPeriodDays, discountCode } = params;
+    const items = checkoutItems(params, "mock").map((item) => ({
+      product_id: item.productId,
+      quantity: item.quantity,
+    }));
+    const prices = items.map((item) => priceOf(item.product_id));
+    const first = prices[0];
+    for (const price of prices) {
+      money(price.amount, price.currency, "mock");
+      if (price.currency.toUpperCase() !== first.currency.toUpperCase()) {
+        throw new InvalidRequestError(
+          "All products of a mock checkout must have the same currency",
+          { provider: "mock" }
+        );
+      }
+      if (
+        type === "subscription" &&
+        ((price.interval ?? "month") !== (first.interval ?? "month") ||
+          (price.intervalCount ?? 1) !== (first.intervalCount ?? 1))
+      ) {
+        throw new InvalidRequestError(
+          "All products of a mock subscription must have the same billing interval",
+          { provider: "mock" }
+        );
+      }
+    }
+    if (
+      trialPeriodDays !== undefined &&
+      (type !== "subscription" ||
+        !Number.isInteger(trialPeriodDays) ||
+        trialPeriodDays < 1)
+    ) {
+      throw new InvalidRequestError(
+        "trialPeriodDays must be a positive integer on a subscription checkout",
+        { provider: "mock" }
+      );
+    }
+    if (customerId) requireCustomer(customerId);
+
+    const currency = first.currency.toUpperCase();
+    const discount = discountCode
+      ? findDiscount(
+          discountCode,
+          items.map((item) => item.product_id)
+        )
+      : null;
+    if (discount?.amount_off && discount.currency !== currency) {
+      throw new InvalidRequestError(
+        `Discount code ${discount.code} is in ${discount.currency}, not ${currency}`,
+        { provider: "mock", code: "invalid_discount_code" }
+      );
+    }
+    const subtotal = items.reduce(
+      (sum, item, index) => sum + prices[index].amount * item.quantity,
+      0
+    );
+
+    const id = newId("cs");
+    const now = new Date();
+    const checkout: MockCheckout = {
+      id,
+      status: "open",
+      mode: type === "subscription" ? "subscription" : "payment",
+      url: `${await listen()}/checkout/${encodeURIComponent(id)}`,
+      items,
+      amount: trialPeriodDays ? 0 : discounted(subtotal, discount),
+      amount_subtotal: subtotal,
+      currency,
+      customer_id: customerId ?? null,
+      email: params.email ?? null,
+      name: params.name ?? null,
+      trial_period_days: trialPeriodDays ?? null,
+      discount_id: discount?.id ?? null,
+      redirect_url: params.redirectUrl ?? null,
+      subscription_id: null,
+      payment_id: null,
+      metadata: buildMetadata(params),
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + CHECKOUT_TTL_MS).toISOString(),
+    };
+    checkouts.set(id, checkout);
+    return toCheckoutSession(checkout);
+  };
+
+  const createCheckoutLink: CreateCheckoutLink = async (params) => {
+    const session = await createCheckoutSession(params);
+    return session.url;
+  };
+
+  const getCheckoutSession: GetCheckoutSession = async (id) => {
+    return toCheckoutSession(requireCheckout(id));
+  };
+
+  function requireOpenCheckout(id: string): MockCheckout {
+    const checkout = requireCheckout(id);
+    const { status } = toCheckoutSession(checkout);
+    if (status !== "open") {
+      throw new InvalidRequestError(`Mock checkout ${id} is ${status}`, {
+        provider: "mock",
+        code: "checkout_not_open",
+      });
+    }
+    return checkout;
+  }
+
+  const completeCheckout = async (id: string): Promise<CheckoutSession> => {
+    const checkout = requireOpenCheckout(id);
+    const customer = checkout.customer_id
+      ? requireCustomer(checkout.customer_id)
+      : ((checkout.email ? findByEmail(checkout.email) : undefined) ??
+        addCustomer({
+          email: checkout.email,
+          name: checkout.name,
+          metadata: checkout.metadata,
+        }));
+    const now = new Date();
+    const events: [string, unknown][] = [];
+
+    checkout.status = "paid";
+    checkout.customer_id = customer.id;
+    if (checkout.discount_id) {
+      const discount = discounts.get(checkout.discount_id);
+      if (discount) discount.times_redeemed += 1;
+    }
+
+    if (checkout.mode === "subscription") {
+      const price = priceOf(checkout.items[0].product_id);
+      const interval = price.interval ?? "month";
+      const intervalCount = price.intervalCount ?? 1;
+      const trialEnd = checkout.trial_period_days
+        ? addInterval(now, "day", checkout.trial_period_days)
+        : null;
+      const subscription: MockSubscription = {
+        id: newId("sub"),
+        status: trialEnd ? "trialing" : "active",
+        customer_id: customer.id,
+        items: checkout.items,
+        currency: checkout.currency,
+        interval,
+        interval_count: intervalCount,
+        current_period_start: now.toISOString(),
+        current_period_end: (
+          trialEnd ?? addInterval(now, interval, intervalCount)
+        ).toISOString(),
+        trial_end: trialEnd?.toISOString() ?? null,
+        cancel_at_period_end: false,
+        discount_id: checkout.discount_id,
+        metadata: checkout.metadata,
+        created_at: now.toISOString(),
+      };
+      subscriptions.set(subscription.id, subscription);
+      checkout.subscription_id = subscription.id;
+      events.push(["subscription.created", subscription]);
+    }
+
+    let payment: MockPayment | null = null;
+    if (!checkout.trial_period_days) {
+      payment = recordPayment({
+        status: "succeeded",
+        customer_id: customer.id,
+        checkout_id: checkout.id,
+        subscription_id: checkout.subscription_id,
+        amount: checkout.amount,
+        currency: checkout.currency,
+        metadata: checkout.metadata,
+      });
+      checkout.payment_id = payment.id;
+    }
+
+    events.push(["checkout.completed", checkout]);
+    if (payment) events.push(["payment.succeeded", payment]);
+    await sendWebhooks(events);
+    return toCheckoutSession(checkout);
+  };
+
+  const declineCheckout = async (id: string): Promise<CheckoutSession> => {
+    const checkout = requireOpenCheckout(id);
+    const payment = recordPayment({
+      status: "failed",
+      customer_id: checkout.customer_id,
+      checkout_id: checkout.id,
+      subscription_id: null,
+      amount: checkout.amount,
+      currency: checkout.currency,
+      metadata: checkout.metadata,
+    });
+    checkout.status = "failed";
+    checkout.payment_id = payment.id;
+    await sendWebhooks([["payment.failed", payment]]);
+    return toCheckoutSession(checkout);
+  };
+
+  const createCustomerPortalLink: CreateCustomerPortalLink = async (
+    params
+  ) => {
+    const { customerId, redirectUrl } = params;
+    requireCustomer(customerId);
+    const query = redirectUrl
+      ? `?return_url=${encodeURIComponent(redirectUrl)}`
+      : "";
+    return `${await listen()}/portal/${encodeURIComponent(customerId)}${query}`;
+  };
+
+  // ============================================
+  // Subscriptions
+  // ============================================
+
+  function assertNotEnded(subscription: MockSubscription): void {
+    if (
+      subscription.status === "canceled" ||
+      subscription.status === "expired"
+    ) {
+      throw new InvalidRequestError(
+        `Mock subscription ${subscription.id} has ended`,
+        { provider: "mock", code: "subscription_ended" }
+      );
+    }
+  }
+
+  const cancelSubscription: CancelSubscription = async (id, options = {}) => {
+    const subscription = requireSubscription(id);
+    assertNotEnded(subscription);
+    if (options.immediately) {
+      subscription.status = "canceled";
+      subscription.cancel_at_period_end = false;
+    } else {
+      subscription.cancel_at_period_end = true;
+    }
+    await sendWebhooks([["subscription.canceled", subscription]]);
+  };
+
+  const setSubscriptionSeats: SetSubscriptionSeats = async (params) => {
+    const { id, seats } = params;
+    const subscription = requireSubscription(id);
+    assertNotEnded(subscription);
+    if (!Number.isInteger(seats) || seats < 1) {
+      throw new InvalidRequestError(
+        `Invalid seats ${seats}: expected a positive integer`,
+        { provider: "mock" }
+      );
+    }
+    if (subscription.items.length !== 1) {
+      throw new InvalidRequestError(
+        `Mock subscription ${id} has several items; seats can only be set on a single-item subscription`,
+        { provider: "mock" }
+      );
+    }
+    // Seat changes apply from the next period; nothing is prorated
+    subscription.items = [{ ...subscription.items[0], quantity: seats }];
+    await sendWebhooks([["subscription.updated", subscription]]);
+  };
+
+  const renewSubscription = async (
+    id: string,
+    options: RenewSubscriptionOptions = {}
+  ): Promise<Subscription> => {
+    const subscription = requireSubscription(id);
+    assertNotEnded(subscription);
+    const periodStart = new Date(subscription.current_period_end);
+
+    if (subscription.cancel_at_period_end) {
+      subscription.status = "expired";
+      await sendWebhooks([["subscription.expired", subscription]]);
+      return toSubscription(subscription);
+    }
+
+    const payment = recordPayment({
+      status: options.decline ? "failed" : "succeeded",
+      customer_id: subscription.customer_id,
+      checkout_id: null,
+      subscription_id: subscription.id,
+      amount: periodAmount(subscription, periodStart),
+      currency: subscription.currency,
+      metadata: subscription.metadata,
+    });
+    subscription.status = options.decline ? "past_due" : "active";
+    subscription.current_period_start = periodStart.toISOString();
+    subscription.current_period_end = addInterval(
+      periodStart,
+      subscription.interval,
+      subscription.interval_count
+    ).toISOString();
+
+    await sendWebhooks([
+      [options.decline ? "payment.failed" : "payment.succeeded", payment],
+      ["subscription.updated", subscription],
+    ]);
+    return toSubscription(subscription);
+  };
+
+  const getSubscription: GetSubscription = async (id) => {
+    return toSubscription(requireSubscription(id));
+  };
+
+  const listSubscriptions: ListSubscriptions = async (params) => {
+    return [...subscriptions.values()]
+      .filter((subscription) => subscription.customer_id === params.customerId)
+      .map(toSubscription);
+  };
+
+  // ============================================
+  // Customers
+  // ============================================
+
+  const createCustomer: CreateCustomer = async (params) => {
+    const customer = addCustomer({
+      email: params.email,
+      name: params.name ?? null,
+      metadata: buildMetadata(params),
+    });
+    return toCustomer(customer);
+  };
+
+  const getCustomer: GetCustomer = async (id) => {
+    return toCustomer(requireCustomer(id));
+  };
+
+  const updateCustomer: UpdateCustomer = async (params) => {
+    const customer = requireCustomer(params.id);
+    if (params.email !== undefined) customer.email = params.email;
+    if (params.name !== undefined) customer.name = params.name;
+    customer.metadata = { ...customer.metadata, ...buildMetadata(params) };
+    return toCustomer(customer);
+  };
+
+  const findCustomerByEmail: FindCustomerByEmail = async (email) => {
+    const customer = findByEmail(email);
+    return customer ? toCustomer(customer) : null;
+  };
+
+  // ============================================
+  // Refunds
+  // ============================================
+
+  const createRefund: CreateRefund = async (params) => {
+    const { paymentId, reason } = params;
+    const payment = payments.get(paymentId);
+    if (!payment) throw notFound("payment", paymentId);
+    if (payment.status !== "succeeded") {
+      throw new InvalidRequestError(
+        `Mock payment ${paymentId} did not succeed and cannot be refunded`,
+        { provider: "mock" }
+      );
+    }
+
+    const remaining = payment.amount - payment.amount_refunded;
+    const amount = params.amount ?? remaining;
+    assertMinorUnits(amount, "mock");
+    if (amount === 0 || amount > remaining) {
+      throw new InvalidRequestError(
+        `Invalid refund amount ${amount}: ${remaining} of mock payment ${paymentId} is left to refund`,
+        { provider: "mock" }
+      );
+    }
+
+    const refund: MockRefund = {
+      id: newId("re"),
+      status: "succeeded",
+      payment_id: payment.id,
+      customer_id: payment.customer_id,
+      amount,
+      currency: payment.currency,
+      reason: reason ?? null,
+      metadata: payment.metadata,
+      created_at: new Date().toISOString(),
+    };
+    refunds.set(refund.id, refund);
+    payment.amount_refunded += amount;
+    await sendWebhooks([["refund.created", refund]]);
+    return toRefund(refund);
+  };
+
+  const listRefunds: ListRefunds = async (params = {}) => {
+    const { paymentId, limit = 100 } = params;
+    return [...refunds.values()]
+      .filter((refund) => !paymentId || refund.payment_id === paymentId)
+      .reverse()
+      .slice(0, limit)
+      .map(toRefund);
+  };
+
+  // ============================================
+  // Discounts
+  // ============================================
+
+  const createDiscount: CreateDiscount = async (params) => {
+    assertDiscountParams(params, "mock");
+    const { code, amountOff } = params;
+    const taken = [...discounts.values()].some(
+      (discount) => discount.code.toLowerCase() === code.toLowerCase()
+    );
+    if (taken) {
+      throw new InvalidRequestError(`Discount code ${code} already exists`, {
+        provider: "mock",
+        code: "duplicate_discount_code",
+      });
+    }
+
+    const discount: MockDiscount = {
+      id: newId("disc"),
+      code,
+      name: params.name ?? code,
+      percent_off: params.percentOff ?? null,
+      amount_off: amountOff?.amount ?? null,
+      currency: amountOff?.currency.toUpperCase() ?? null,
+      duration: params.duration ?? "once",
+      duration_in_months: params.durationInMonths ?? null,
+      max_redemptions: params.maxRedemptions ?? null,
+      times_redeemed: 0,
+      expires_at: params.expiresAt?.toISOString() ?? null,
+      product_ids: params.productIds ?? null,
+      created_at: new Date().toISOString(),
+    };
+    discounts.set(discount.id, discount);
+    return toDiscount(discount);
+  };
+
+  const listDiscounts: ListDiscounts = async (params = {}) => {
+    return [...discounts.values()]
+      .reverse()
+      .slice(0, params.limit ?? 100)
+      .map(toDiscount);
+  };
+
+  // ============================================
+  // Webhooks
+  // ============================================
+
+  const createWebhookHandler: CreateWebhookHandler = (options = {}) =>
+    async (req) => {
+      if (!req.body) {
+        return new Response("No body", { status: 400 });
+      }
+
+      const webhookId = req.headers.get("webhook-id");
+      const webhookTimestamp = req.headers.get("webhook-timestamp");
+      const webhookSignature = req.headers.get("webhook-signature");
+
+      if (!webhookId || !webhookTimestamp || !webhookSignature) {
+        return new Response("Missing webhook headers", { status: 401 });
+      }
+
+      const body = await req.text();
+      const isValid = verifyStandardWebhookSignature({
+        id: webhookId,
+        timestamp: webhookTimestamp,
+        body,
+        signature: webhookSignature,
+        key: standardWebhookKey(getWebhookSecret()),
+      });
+
+      if (!isValid) {
+        return new Response("Invalid signature", { status: 401 });
+      }
+
+      if (!isWithinTolerance(webhookTimestamp, options)) {
+        return new Response("Timestamp outside tolerance", { status: 401 });
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return new Response("Invalid webhook payload", { status: 400 });
+      }
+      let event: PaymentEvent | null;
+      try {
+        const parsed = schema.parse(
+          eventSchema,
+          payload,
+          "mock",
+          "Mock webhook payload"
+        );
+        event = toPaymentEvent(parsed);
+      } catch (error) {
+        return invalidPayloadResponse(error);
+      }
+
+      return respondToEvent({
+        provider: "mock",
+        deliveryId: webhookId,
+        event,
+        options,
+        successStatus: 200,
+      });
+    };
+
+  function reset(): void {
+    checkouts.clear();
+    subscriptions.clear();
+    payments.clear();
+    refunds.clear();
+    customers.clear();
+    discounts.clear();
+  }
+
+  return {
+    capabilities: MOCK_CAPABILITIES,
+    createCheckoutLink,
+    createCheckoutSession,
+    getCheckoutSession,
+    createCustomerPortalLink,
+    cancelSubscription,
+    setSubscriptionSeats,
+    getSubscription,
+    listSubscriptions,
+    createCustomer,
+    getCustomer,
+    updateCustomer,
+    findCustomerByEmail,
+    createRefund,
+    listRefunds,
+    createDiscount,
+    listDiscounts,
+    webhookHandler: createWebhookHandler(),
+    createWebhookHandler,
+    listen,
+    close,
+    completeCheckout,
+    declineCheckout,
+    renewSubscription,
+    reset,
+  };
+}
+
+const defaultProvider = createMockProvider();
+
+export const capabilities = defaultProvider.capabilities;
+export const createCheckoutLink = defaultProvider.createCheckoutLink;
+export const createCheckoutSession = defaultProvider.createCheckoutSession;
+export const getCheckoutSession = defaultProvider.getCheckoutSession;
+export const createCustomerPortalLink =
+  defaultProvider.createCustomerPortalLink;
+export const cancelSubscription = defaultProvider.cancelSubscription;
+export const setSubscriptionSeats = defaultProvider.setSubscriptionSeats;
+export const getSubscription = defaultProvider.getSubscription;
+export const listSubscriptions = defaultProvider.listSubscriptions;
+export const createCustomer = defaultProvider.createCustomer;
+export const getCustomer = defaultProvider.getCustomer;
+export const updateCustomer = defaultProvider.updateCustomer;
+export const findCustomerByEmail = defaultProvider.findCustomerByEmail;
+export const createRefund = defaultProvider.createRefund;
+export const listRefunds = defaultProvider.listRefunds;
+export const createDiscount = defaultProvider.createDiscount;
+export const listDiscounts = defaultProvider.listDiscounts;
+export const webhookHandler = defaultProvider.webhookHandler;
+export const createWebhookHandler = defaultProvider.createWebhookHandler;
+
+/**
+ * Start the default mock provider's checkout server and resolve its URL.
+ */
+export const listen = defaultProvider.listen;
+
+/**
+ * Stop the default mock provider's checkout server, e.g. after a test run.
+ */
+export const close = defaultProvider.close;
+
+/**
+ * Pay a checkout without opening the checkout page.
+ *
+ * @example
+ * ```ts
+ * import {
+ *   completeCheckout,
+ *   createCheckoutSession,
+ * } from "@xyz/payment/providers/mock";
+ *
+ * const session = await createCheckoutSession({ ... });
+ * await completeCheckout(session.id); // sends checkout.completed and more
+ * ```
+ */
+export const completeCheckout = defaultProvider.completeCheckout;
+
+/**
+ * Decline a checkout's payment without opening the checkout page.
+ */
+export const declineCheckout = defaultProvider.declineCheckout;
+
+/**
+ * Move a subscription to its next billing period, e.g. to end a trial or
+ * test a failed renewal.
+ *
+ * @example
+ * ```ts
+ * import { renewSubscription } from "@xyz/payment/providers/mock";
+ *
+ * await renewSubscription("sub_xxx"); // payment.succeeded
+ * await renewSubscription("sub_xxx", { decline: true }); // payment.failed
+ * ```
+ */
+export const renewSubscription = defaultProvider.renewSubscription;
+
+/**
+ * Delete the default mock provider's data, e.g. between tests.
+ */
+export const reset = defaultProvider.reset;
@@ -1,110 +1,1099 @@
 import type {
+  CancelSubscription,
+  CheckoutSession,
+  CheckoutSessionStatus,
   CreateCheckoutLink,
+  CreateCheckoutSession,
+  CreateCustomer,
   CreateCustomerPortalLink,
-  WebhookHandler,
+  CreateDiscount,
+  CreateRefund,
+  CreateWebhookHandler,
+  Customer,
+  Discount,
+  FindCustomerByEmail,
+  GetCheckoutSession,
+  GetCustomer,
+  GetSubscription,
+  ListDiscounts,
+  ListRefunds,
+  ListSubscriptions,
+  PaymentEvent,
+  PaymentMode,
+  PaymentProvider,
+  ProviderCapabilities,
+  ProviderOptions,
+  Refund,
+  RefundReason,
+  RefundStatus,
+  SetSubscriptionSeats,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionStatus,
+  UpdateCustomer,
 } from "../types";
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  ProviderUnsupportedError,
+  createApiError,
+  readErrorBody,
+  type PaymentError,
+} from "../errors";
+import { createTransport } from "../transport";
+import {
+  assertCheckoutCapabilities,
+  assertDiscountParams,
+  singleCheckoutItem,
+} from "../checkout";
+import { assertMinorUnits } from "../money";
+import * as schema from "../schema";
+import { readEnv, resolveMode } from "../config";
+import {
+  buildMetadata,
+  invalidPayloadResponse,
+  isWithinTolerance,
+  readMetadataIds,
+  respondToEvent,
+  standardWebhookKey,
+  toDate,
+  verifyStandardWebhookSignature,
+} from "../webhook";
 
-const POLAR_API_URL = "https://api.polar.sh/v1";
+const POLAR_API_URLS: Record<PaymentMode, string> = {
+  test: "https://sandbox-api.polar.sh/v1",
+  live: "https://api.polar.sh/v1",
+};
+
+const POLAR_CAPABILITIES: ProviderCapabilities = {
+  customerPortal: true,
+  trials: false,
+  seats: false,
+  customerId: true,
+  email: false,
+  name: false,
+  multiItem: false,
+  discountCodes: true,
+  promotionCodes: true,
+  subscriptions: true,
+  listSubscriptions: true,
+  cancelImmediately: true,
+  seatUpdates: true,
+  customerWrites: true,
+  refunds: true,
+  discounts: true,
+};
+
+const SUBSCRIPTION_EVENT_TYPES: Record<string, SubscriptionEvent["type"]> = {
+  "subscription.created": "subscription.created",
+  "subscription.active": "subscription.updated",
+  "subscription.updated": "subscription.updated",
+  "subscription.uncanceled": "subscription.updated",
+  "subscription.canceled": "subscription.canceled",
+  "subscription.revoked": "subscription.expired",
+};
+
+const SUBSCRIPTION_STATUSES: Record<string, SubscriptionStatus> = {
+  trialing: "trialing",
+  active: "active",
+  past_due: "past_due",
+  unpaid: "past_due",
+  canceled: "canceled",
+  incomplete: "incomplete",
+  incomplete_expired: "expired",
+};
+
+const CHECKOUT_STATUSES: Record<string, CheckoutSessionStatus> = {
+  open: "open",
+  confirmed: "processing",
+  succeeded: "paid",
+  expired: "expired",
+  failed: "failed",
+};
+
+const REFUND_STATUSES: Record<string, RefundStatus> = {
+  pending: "pending",
+  succeeded: "succeeded",
+  failed: "failed",
+  canceled: "canceled",
+};
+
+const REFUND_REASONS: Record<RefundReason, string> = {
+  duplicate: "duplicate",
+  fraudulent: "fraudulent",
+  requested_by_customer: "customer_request",
+  other: "other",
+};
+
+const checkoutSchema = schema.object({
+  id: schema.string,
+  url: schema.optional(schema.string),
+  status: schema.string,
+  expires_at: schema.optional(schema.string),
+  customer_id: schema.optional(schema.string),
+  subscription_id: schema.optional(schema.string),
+  product_id: schema.optional(schema.string),
+  total_amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+});
+
+const subscriptionSchema = schema.object({
+  id: schema.string,
+  customer_id: schema.optional(schema.string),
+  status: schema.string,
+  product_id: schema.optional(schema.string),
+  seats: schema.optional(schema.number),
+  current_period_start: schema.optional(schema.string),
+  current_period_end: schema.optional(schema.string),
+  trial_end: schema.optional(schema.string),
+  cancel_at_period_end: schema.optional(schema.boolean),
+});
+
+const orderSchema = schema.object({
+  id: schema.string,
+  subscription_id: schema.optional(schema.string),
+  total_amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+});
+
+// Metadata values may also be numbers and booleans
+const customerSchema = schema.object({
+  id: schema.string,
+  email: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  metadata: schema.optional(
+    schema.record(schema.union(schema.string, schema.number, schema.boolean))
+  ),
+});
+
+const refundSchema = schema.object({
+  id: schema.string,
+  order_id: schema.optional(schema.string),
+  amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  status: schema.string,
+  reason: schema.optional(schema.string),
+  created_at: schema.optional(schema.string),
+});
+
+const discountSchema = schema.object({
+  id: schema.string,
+  code: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  basis_points: schema.optional(schema.number),
+  amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  duration: schema.optional(schema.oneOf("once", "forever", "repeating")),
+  duration_in_months: schema.optional(schema.number),
+  max_redemptions: schema.optional(schema.number),
+  redemptions_count: schema.optional(schema.number),
+  ends_at: schema.optional(schema.string),
+});
 
-function getPolarAccessToken(): string {
-  const accessToken = process.env.POLAR_ACCESS_TOKEN;
-  if (!accessToken) {
-    throw new Error("Missing env variable POLAR_ACCESS_TOKEN");
+const eventSchema = schema.object({
+  type: schema.string,
+  data: schema.object({ customer_id: schema.optional(schema.string) }),
+});
+
+/**
+ * Schema for a page of Polar list results.
+ */
+function listSchema<T>(item: schema.Schema<T>) {
+  return schema.object({ items: schema.array(item) });
+}
+
+type PolarEvent = schema.Infer<typeof eventSchema>;
+
+/**
+ * Check the data of a Polar event against a schema.
+ */
+function eventData<T>(dataSchema: schema.Schema<T>, event: PolarEvent): T {
+  return schema.parse(
+    dataSchema,
+    event.data,
+    "polar",
+    "Polar webhook payload",
+    "data"
+  );
+}
+
+/**
+ * Map a Polar event onto the normalized event model.
+ */
+function toPaymentEvent(
+  event: PolarEvent,
+  webhookId: string
+): PaymentEvent | null {
+  const base = {
+    provider: "polar",
+    id: webhookId,
+    providerEventType: event.type,
+    customerId: event.data.customer_id ?? null,
+    ...readMetadataIds(event.data.metadata),
+    raw: event,
+  };
+
+  switch (event.type) {
+    case "checkout.updated": {
+      const data = eventData(checkoutSchema, event);
+      if (data.status !== "succeeded") {
+        return null;
+      }
+      return {
+        ...base,
+        type: "checkout.completed",
+        checkoutId: data.id,
+        subscriptionId: data.subscription_id ?? null,
+        productId: data.product_id ?? null,
+        amount: data.total_amount ?? null,
+        currency: data.currency?.toUpperCase() ?? null,
+      };
+    }
+    case "subscription.created":
+    case "subscription.active":
+    case "subscription.updated":
+    case "subscription.uncanceled":
+    case "subscription.canceled":
+    case "subscription.revoked": {
+      const data = eventData(subscriptionSchema, event);
+      return {
+        ...base,
+        type: SUBSCRIPTION_EVENT_TYPES[event.type],
+        subscriptionId: data.id,
+        productId: data.product_id ?? null,
+        status: SUBSCRIPTION_STATUSES[data.status] ?? "active",
+        seats: data.seats ?? null,
+        currentPeriodEnd: toDate(data.current_period_end),
+        cancelAtPeriodEnd: Boolean(data.cancel_at_period_end),
+      };
+    }
+    case "order.paid": {
+      const data = eventData(orderSchema, event);
+      return {
+        ...base,
+        type: "payment.succeeded",
+        paymentId: data.id,
+        subscriptionId: data.subscription_id ?? null,
+        amount: data.total_amount ?? null,
+        currency: data.currency?.toUpperCase() ?? null,
+      };
+    }
+    case "refund.created":
+    case "refund.updated": {
+      const data = eventData(refundSchema, event);
+      return {
+        ...base,
+        type: event.type,
+        refundId: data.id,
+        paymentId: data.order_id ?? null,
+        amount: data.amount ?? null,
+        currency: data.currency?.toUpperCase() ?? null,
+        status: REFUND_STATUSES[data.status] ?? "pending",
+      };
+    }
+    default:
+      return null;
   }
-  return accessToken;
 }
 
-export const createCheckoutLink: CreateCheckoutLink = async (params) => {
-  const accessToken = getPolarAccessToken();
-  const { productId, redirectUrl, customerId, organizationId, userId } = params;
+/**
+ * Map a Polar checkout onto the normalized checkout session model.
+ */
+function toCheckoutSession(
+  data: schema.Infer<typeof checkoutSchema>
+): CheckoutSession {
+  return {
+    provider: "polar",
+    id: data.id,
+    url: data.url ?? null,
+    status: CHECKOUT_STATUSES[data.status] ?? "open",
+    expiresAt: toDate(data.expires_at),
+    raw: data,
+  };
+}
+
+/**
+ * Map a Polar subscription object onto the normalized subscription model.
+ */
+function toSubscription(
+  data: schema.Infer<typeof subscriptionSchema>
+): Subscription {
+  return {
+    provider: "polar",
+    id: data.id,
+    customerId: data.customer_id ?? null,
+    status: SUBSCRIPTION_STATUSES[data.status] ?? "active",
+    productId: data.product_id ?? null,
+    seats: data.seats ?? null,
+    currentPeriodStart: toDate(data.current_period_start),
+    currentPeriodEnd: toDate(data.current_period_end),
+    trialEnd: toDate(data.trial_end),
+    cancelAtPeriodEnd: Boolean(data.cancel_at_period_end),
+    raw: data,
+  };
+}
 
+/**
+ * Map a Polar customer object onto the normalized customer model.
+ */
+function toCustomer(data: schema.Infer<typeof customerSchema>): Customer {
   const metadata: Record<string, string> = {};
-  if (organizationId) metadata.organization_id = organizationId;
-  if (userId) metadata.user_id = userId;
-
-  const response = await fetch(`${POLAR_API_URL}/checkouts`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      products: [productId],
-      success_url: redirectUrl ?? "",
-      metadata,
-      customer_id: customerId || undefined,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Polar API error: ${JSON.stringify(error)}`);
+  for (const [key, value] of Object.entries(data.metadata ?? {})) {
+    metadata[key] = String(value);
   }
+  return {
+    provider: "polar",
+    id: data.id,
+    email: data.email ?? null,
+    name: data.name ?? null,
+    ...readMetadataIds(metadata),
+    metadata,
+    raw: data,
+  };
+}
 
-  const result = (await response.json()) as { url: string };
-  return result.url;
-};
+/**
+ * Map a Polar refund object onto the normalized refund model.
+ */
+function toRefund(data: schema.Infer<typeof refundSchema>): Refund {
+  return {
+    provider: "polar",
+    id: data.id,
+    paymentId: data.order_id ?? null,
+    amount: data.amount ?? null,
+    currency: data.currency?.toUpperCase() ?? null,
+    status: REFUND_STATUSES[data.status] ?? "pending",
+    reason: data.reason ?? null,
+    createdAt: toDate(data.created_at),
+    raw: data,
+  };
+}
 
-export const createCustomerPortalLink: CreateCustomerPortalLink = async (
-  params
-) => {
-  const accessToken = getPolarAccessToken();
-  const { customerId } = params;
-
-  const response = await fetch(`${POLAR_API_URL}/customer-sessions`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      customer_id: customerId,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Polar API error: ${JSON.stringify(error)}`);
-  }
+/**
+ * Map a Polar discount onto the normalized discount model.
+ * Percentages are stored in basis points.
+ */
+function toDiscount(data: schema.Infer<typeof discountSchema>): Discount {
+  const basisPoints = data.basis_points ?? null;
+  const maxRedemptions = data.max_redemptions ?? null;
+  const timesRedeemed = data.redemptions_count ?? null;
+  const expiresAt = toDate(data.ends_at);
+  return {
+    provider: "polar",
+    id: data.id,
+    code: data.code ?? null,
+    name: data.name ?? null,
+    percentOff: basisPoints === null ? null : basisPoints / 100,
+    amountOff: data.amount ?? null,
+    currency: data.currency?.toUpperCase() ?? null,
+    duration: data.duration ?? null,
+    durationInMonths: data.duration_in_months ?? null,
+    maxRedemptions,
+    timesRedeemed,
+    expiresAt,
+    active:
+      (!expiresAt || expiresAt.getTime() > Date.now()) &&
+      (maxRedemptions === null || (timesRedeemed ?? 0) < maxRedemptions),
+    raw: data,
+  };
+}
+
+/**
+ * Map a Polar error response onto a typed payment error.
+ * Validation errors carry a list of `{ loc, msg }` entries in `detail`.
+ */
+async function polarError(response: Response): Promise<PaymentError> {
+  const body = await readErrorBody(response);
+  const { error, detail } = (body ?? {}) as {
+    error?: string;
+    detail?: string | { loc?: unknown[]; msg?: string }[];
+  };
+  const message = Array.isArray(detail)
+    ? detail.map((item) => `${item.loc?.join(".")}: ${item.msg}`).join("; ")
+    : detail;
+  return createApiError(
+    "polar",
+    "Polar",
+    response.status,
+    { message, code: error },
+    body
+  );
+}
 
-  const result = (await response.json()) as { customer_portal_url: string };
-  return result.customer_portal_url;
+/**
+ * Polar provider configuration.
+ * Unset credentials fall back to environment variables.
+ */
+export type PolarConfig = ProviderOptions & {
+  /** Organization access token (default: `POLAR_ACCESS_TOKEN`) */
+  accessToken?: string;
+  /** Webhook signing secret (default: `POLAR_WEBHOOK_SECRET`) */
+  webhookSecret?: string;
 };
 
-export const webhookHandler: WebhookHandler = async (req) => {
-  const webhookSecret = process.env.POLAR_WEBHOOK_SECRET;
+/**
+ * Create an isolated Polar provider instance.
+ *
+ * @example
+ * ```ts
+ * import { createPolarProvider } from "@xyz/payment/providers/polar";
+ *
+ * const polar = createPolarProvider({ accessToken: workspace.polarToken });
+ * ```
+ */
+export function createPolarProvider(
+  config: PolarConfig = {}
+): PaymentProvider {
+  const request = createTransport(config, { provider: "polar" });
 
-  if (!webhookSecret) {
-    return new Response("Missing POLAR_WEBHOOK_SECRET", { status: 500 });
+  function getPolarApiUrl(): string {
+    return config.baseUrl ?? POLAR_API_URLS[resolveMode("polar", config)];
   }
 
-  if (!req.body) {
-    return new Response("No body", { status: 400 });
+  function getPolarAccessToken(): string {
+    const accessToken = config.accessToken ?? readEnv("POLAR_ACCESS_TOKEN");
+    if (!accessToken) {
+      throw new ConfigurationError("Missing env variable POLAR_ACCESS_TOKEN", {
+        provider: "polar",
+      });
+    }
+    return accessToken;
   }
 
-  try {
-    const body = await req.text();
-    // Note: For production, verify signature using Polar SDK
-    const event = JSON.parse(body) as {
-      type: string;
-      data: Record<string, unknown>;
-    };
+  const createCheckoutSession: CreateCheckoutSession = async (params) => {
+    if (config.strict) {
+      assertCheckoutCapabilities(params, POLAR_CAPABILITIES, "polar", "Polar");
+    }
+    const accessToken = getPolarAccessToken();
+    const {
+      redirectUrl,
+      customerId,
+      organizationId,
+      userId,
+      discountCode,
+      allowPromotionCodes,
+    } = params;
+    // Polar's `products` are alternatives to choose from, not a cart
+    const { productId } = singleCheckoutItem(params, "polar", "Polar");
+
+    const metadata: Record<string, string> = {};
+    if (organizationId) metadata.organization_id = organizationId;
+    if (userId) metadata.user_id = userId;
+
+    const response = await request(`${getPolarApiUrl()}/checkouts`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        products: [productId],
+        success_url: redirectUrl ?? "",
+        metadata,
+        customer_id: customerId || undefined,
+        discount_id: discountCode
+          ? await discountId(accessToken, discountCode)
+          : undefined,
+        allow_discount_codes: allowPromotionCodes,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    return toCheckoutSession(
+      await schema.readJson(response, checkoutSchema, "polar", "Polar")
+    );
+  };
+
+  const createCheckoutLink: CreateCheckoutLink = async (params) => {
+    const session = await createCheckoutSession(params);
+    return session.url;
+  };
+
+  const getCheckoutSession: GetCheckoutSession = async (id) => {
+    const accessToken = getPolarAccessToken();
+
+    const response = await request(
+      `${getPolarApiUrl()}/checkouts/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    return toCheckoutSession(
+      await schema.readJson(response, checkoutSchema, "polar", "Polar")
+    );
+  };
+
+  const createCustomerPortalLink: CreateCustomerPortalLink = async (
+    params
+  ) => {
+    const accessToken = getPolarAccessToken();
+    const { customerId } = params;
+
+    const response = await request(`${getPolarApiUrl()}/customer-sessions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        customer_id: customerId,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      schema.object({ customer_portal_url: schema.string }),
+      "polar",
+      "Polar"
+    );
+    return result.customer_portal_url;
+  };
+
+  const cancelSubscription: CancelSubscription = async (id, options = {}) => {
+    const accessToken = getPolarAccessToken();
+
+    // Revoking ends the subscription now; otherwise it runs out the period
+    const response = options.immediately
+      ? await request(
+          `${getPolarApiUrl()}/subscriptions/${encodeURIComponent(id)}`,
+          {
+            method: "DELETE",
+            headers: { Authorization: `Bearer ${accessToken}` },
+          }
+        )
+      : await request(
+          `${getPolarApiUrl()}/subscriptions/${encodeURIComponent(id)}`,
+          {
+            method: "PATCH",
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ cancel_at_period_end: true }),
+          }
+        );
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+  };
+
+  const setSubscriptionSeats: SetSubscriptionSeats = async (params) => {
+    const accessToken = getPolarAccessToken();
+    const { id, seats, proration = "prorate" } = params;
+
+    if (proration === "none") {
+      throw new ProviderUnsupportedError(
+        'Polar always prorates seat changes; use proration "prorate" or "invoice"',
+        { provider: "polar" }
+      );
+    }
+
+    const response = await request(
+      `${getPolarApiUrl()}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ seats, proration_behavior: proration }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+  };
+
+  const getSubscription: GetSubscription = async (id) => {
+    const accessToken = getPolarAccessToken();
+
+    const response = await request(
+      `${getPolarApiUrl()}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    return toSubscription(
+      await schema.readJson(response, subscriptionSchema, "polar", "Polar")
+    );
+  };
 
-    // Handle webhook events - implement your business logic here
-    switch (event.type) {
-      case "order.created":
-      case "subscription.created":
-      case "subscription.updated":
-      case "subscription.canceled":
-        // Implement your business logic here
-        break;
-      default:
-        // Unhandled event type
-        break;
-    }
-
-    return new Response(null, { status: 202 });
-  } catch {
-    return new Response("Invalid webhook payload", { status: 400 });
+  const listSubscriptions: ListSubscriptions = async (params) => {
+    const accessToken = getPolarAccessToken();
+    const subscriptions: Subscription[] = [];
+    let page = 1;
+    let maxPage = 1;
+
+    do {
+      const query = new URLSearchParams({
+        customer_id: params.customerId,
+        limit: "100",
+        page: String(page),
+      });
+
+      const response = await request(
+        `${getPolarApiUrl()}/subscriptions?${query}`,
+        {
+          method: "GET",
+          headers: { Authorization: `Bearer ${accessToken}` },
+        }
+      );
+
+      if (!response.ok) {
+        throw await polarError(response);
+      }
+
+      const result = await schema.readJson(
+        response,
+        schema.object({
+          items: schema.array(subscriptionSchema),
+          pagination: schema.object({ max_page: schema.number }),
+        }),
+        "polar",
+        "Polar"
+      );
+      subscriptions.push(...result.items.map(toSubscription));
+      maxPage = result.pagination.max_page;
+      page += 1;
+    } while (page <= maxPage);
+
+    return subscriptions;
+  };
+
+  const createCustomer: CreateCustomer = async (params) => {
+    const accessToken = getPolarAccessToken();
+
+    const response = await request(`${getPolarApiUrl()}/customers`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        email: params.email,
+        name: params.name,
+        metadata: buildMetadata(params),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "polar", "Polar")
+    );
+  };
+
+  const getCustomer: GetCustomer = async (id) => {
+    const accessToken = getPolarAccessToken();
+
+    const response = await request(
+      `${getPolarApiUrl()}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "polar", "Polar")
+    );
+  };
+
+  const updateCustomer: UpdateCustomer = async (params) => {
+    const accessToken = getPolarAccessToken();
+    const { id, email, name, organizationId, userId, metadata } = params;
+
+    // Polar replaces the whole metadata object, so only send it when asked
+    const hasMetadata = Boolean(organizationId || userId || metadata);
+
+    const response = await request(
+      `${getPolarApiUrl()}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          email,
+          name,
+          metadata: hasMetadata ? buildMetadata(params) : undefined,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "polar", "Polar")
+    );
+  };
+
+  const findCustomerByEmail: FindCustomerByEmail = async (email) => {
+    const accessToken = getPolarAccessToken();
+    const query = new URLSearchParams({ email, limit: "1" });
+
+    const response = await request(
+      `${getPolarApiUrl()}/customers?${query}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(customerSchema),
+      "polar",
+      "Polar"
+    );
+    return result.items[0] ? toCustomer(result.items[0]) : null;
+  };
+
+  const createRefund: CreateRefund = async (params) => {
+    const accessToken = getPolarAccessToken();
+    const { paymentId, reason = "other" } = params;
+    let { amount } = params;
+    if (amount !== undefined) assertMinorUnits(amount, "polar");
+
+    // Polar requires an amount; default to what is left of the order,
+    // excluding tax, which Polar refunds proportionally
+    if (amount === undefined) {
+      const orderResponse = await request(
+        `${getPolarApiUrl()}/orders/${encodeURIComponent(paymentId)}`,
+        {
+          method: "GET",
+          headers: { Authorization: `Bearer ${accessToken}` },
+        }
+      );
+
+      if (!orderResponse.ok) {
+        throw await polarError(orderResponse);
+      }
+
+      const order = await schema.readJson(
+        orderResponse,
+        schema.object({
+          net_amount: schema.number,
+          refunded_amount: schema.number,
+        }),
+        "polar",
+        "Polar"
+      );
+      amount = order.net_amount - order.refunded_amount;
+    }
+
+    const response = await request(`${getPolarApiUrl()}/refunds`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        order_id: paymentId,
+        amount,
+        reason: REFUND_REASONS[reason],
+      }),
+    });
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    return toRefund(
+      await schema.readJson(response, refundSchema, "polar", "Polar")
+    );
+  };
+
+  const listRefunds: ListRefunds = async (params = {}) => {
+    const accessToken = getPolarAccessToken();
+    const { paymentId, limit = 100 } = params;
+
+    const query = new URLSearchParams({
+      limit: String(Math.min(limit, 100)),
+      sorting: "-created_at",
+    });
+    if (paymentId) {
+      query.append("order_id", paymentId);
+    }
+
+    const response = await request(`${getPolarApiUrl()}/refunds?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(refundSchema),
+      "polar",
+      "Polar"
+    );
+    return result.items.map(toRefund);
+  };
+
+  /**
+   * Look up the ID of a discount by its code.
+   */
+  async function discountId(
+    accessToken: string,
+    code: string
+  ): Promise<string> {
+    const query = new URLSearchParams({ query: code, limit: "100" });
+    const response = await request(`${getPolarApiUrl()}/discounts?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    // `query` also matches names, so compare the codes; Polar ignores case
+    const result = await schema.readJson(
+      response,
+      listSchema(
+        schema.object({
+          id: schema.string,
+          code: schema.optional(schema.string),
+        })
+      ),
+      "polar",
+      "Polar"
+    );
+    const discount = result.items.find(
+      (item) => item.code?.toLowerCase() === code.toLowerCase()
+    );
+    if (!discount) {
+      throw new InvalidRequestError(`Unknown discount code: ${code}`, {
+        provider: "polar",
+        code: "unknown_discount",
+      });
+    }
+    return discount.id;
   }
-};
+
+  const createDiscount: CreateDiscount = async (params) => {
+    assertDiscountParams(params, "polar");
+    const accessToken = getPolarAccessToken();
+    const {
+      code,
+      name,
+      percentOff,
+      amountOff,
+      duration = "once",
+      durationInMonths,
+      maxRedemptions,
+      expiresAt,
+      productIds,
+    } = params;
+
+    const response = await request(`${getPolarApiUrl()}/discounts`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        name: name ?? code,
+        code,
+        duration,
+        duration_in_months: durationInMonths,
+        ...(amountOff
+          ? {
+              type: "fixed",
+              amount: amountOff.amount,
+              currency: amountOff.currency.toLowerCase(),
+            }
+          : {
+              type: "percentage",
+              basis_points: Math.round((percentOff ?? 0) * 100),
+            }),
+        max_redemptions: maxRedemptions,
+        ends_at: expiresAt?.toISOString(),
+        products: productIds,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    return toDiscount(
+      await schema.readJson(response, discountSchema, "polar", "Polar")
+    );
+  };
+
+  const listDiscounts: ListDiscounts = async (params = {}) => {
+    const accessToken = getPolarAccessToken();
+    const { limit = 100 } = params;
+
+    const query = new URLSearchParams({
+      limit: String(Math.min(limit, 100)),
+      sorting: "-created_at",
+    });
+    const response = await request(`${getPolarApiUrl()}/discounts?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw await polarError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(discountSchema),
+      "polar",
+      "Polar"
+    );
+    return result.items.map(toDiscount);
+  };
+
+  const createWebhookHandler: CreateWebhookHandler = (options = {}) =>
+    async (req) => {
+      const webhookSecret =
+        config.webhookSecret ?? readEnv("POLAR_WEBHOOK_SECRET");
+
+      if (!webhookSecret) {
+        return new Response("Missing POLAR_WEBHOOK_SECRET", { status: 401 });
+      }
+
+      if (!req.body) {
+        return new Response("No body", { status: 400 });
+      }
+
+      const webhookId = req.headers.get("webhook-id");
+      const webhookTimestamp = req.headers.get("webhook-timestamp");
+      const webhookSignature = req.headers.get("webhook-signature");
+
+      if (!webhookId || !webhookTimestamp || !webhookSignature) {
+        return new Response("Missing webhook headers", { status: 401 });
+      }
+
+      const body = await req.text();
+      const isValid = verifyStandardWebhookSignature({
+        id: webhookId,
+        timestamp: webhookTimestamp,
+        body,
+        signature: webhookSignature,
+        key: standardWebhookKey(webhookSecret),
+      });
+
+      if (!isValid) {
+        return new Response("Invalid signature", { status: 401 });
+      }
+
+      if (!isWithinTolerance(webhookTimestamp, options)) {
+        return new Response("Timestamp outside tolerance", { status: 401 });
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return new Response("Invalid webhook payload", { status: 400 });
+      }
+      let event: PaymentEvent | null;
+      try {
+        const parsed = schema.parse(
+          eventSchema,
+          payload,
+          "polar",
+          "Polar webhook payload"
+        );
+        event = toPaymentEvent(parsed, webhookId);
+      } catch (error) {
+        return invalidPayloadResponse(error);
+      }
+
+      return respondToEvent({
+        provider: "polar",
+        deliveryId: webhookId,
+        event,
+        options,
+        successStatus: 202,
+      });
+    };
+
+  return {
+    capabilities: POLAR_CAPABILITIES,
+    createCheckoutLink,
+    createCheckoutSession,
+    getCheckoutSession,
+    createCustomerPortalLink,
+    cancelSubscription,
+    setSubscriptionSeats,
+    getSubscription,
+    listSubscriptions,
+    createCustomer,
+    getCustomer,
+    updateCustomer,
+    findCustomerByEmail,
+    createRefund,
+    listRefunds,
+    createDiscount,
+    listDiscounts,
+    webhookHandler: createWebhookHandler(),
+    createWebhookHandler,
+  };
+}
+
+const defaultProvider = createPolarProvider();
+
+export const capabilities = defaultProvider.capabilities;
+export const createCheckoutLink = defaultProvider.createCheckoutLink;
+export const createCheckoutSession = defaultProvider.createCheckoutSession;
+export const getCheckoutSession = defaultProvider.getCheckoutSession;
+export const createCustomerPortalLink =
+  defaultProvider.createCustomerPortalLink;
+export const cancelSubscription = defaultProvider.cancelSubscription;
+export const setSubscriptionSeats = defaultProvider.setSubscriptionSeats;
+export const getSubscription = defaultProvider.getSubscription;
+export const listSubscriptions = defaultProvider.listSubscriptions;
+export const createCustomer = defaultProvider.createCustomer;
+export const getCustomer = defaultProvider.getCustomer;
+export const updateCustomer = defaultProvider.updateCustomer;
+export const findCustomerByEmail = defaultProvider.findCustomerByEmail;
+export const createRefund = defaultProvider.createRefund;
+export const listRefunds = defaultProvider.listRefunds;
+export const createDiscount = defaultProvider.createDiscount;
+export const listDiscounts = defaultProvider.listDiscounts;
+export const webhookHandler = defaultProvider.webhookHandler;
+export const createWebhookHandler = defaultProvider.createWebhookHandler;
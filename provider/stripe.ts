@@ -1,151 +1,1309 @@
+import { createHmac } from "node:crypto";
 import type {
+  CancelSubscription,
+  CheckoutSession,
+  CheckoutSessionStatus,
   CreateCheckoutLink,
+  CreateCheckoutSession,
+  CreateCustomer,
+  CreateCustomerParams,
   CreateCustomerPortalLink,
-  WebhookHandler,
+  CreateDiscount,
+  CreateRefund,
+  CreateWebhookHandler,
+  Customer,
+  Discount,
+  FindCustomerByEmail,
+  GetCheckoutSession,
+  GetCustomer,
+  GetSubscription,
+  ListDiscounts,
+  ListRefunds,
+  ListSubscriptions,
+  PaymentEvent,
+  PaymentProvider,
+  ProviderCapabilities,
+  ProviderOptions,
+  Refund,
+  RefundEvent,
+  RefundStatus,
+  SeatProration,
+  SetSubscriptionSeats,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionStatus,
+  UpdateCustomer,
 } from "../types";
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  createApiError,
+  readErrorBody,
+  type PaymentError,
+} from "../errors";
+import { createTransport } from "../transport";
+import {
+  assertCheckoutCapabilities,
+  assertDiscountParams,
+  checkoutItems,
+} from "../checkout";
+import { assertMinorUnits } from "../money";
+import { modeFromKeyPrefix, readEnv, resolveMode } from "../config";
+import * as schema from "../schema";
+import {
+  buildMetadata,
+  invalidPayloadResponse,
+  isWithinTolerance,
+  readMetadataIds,
+  respondToEvent,
+  safeEqual,
+  toDate,
+} from "../webhook";
 
 const STRIPE_API_URL = "https://api.stripe.com/v1";
 
-function getStripeSecretKey(): string {
-  const secretKey = process.env.STRIPE_SECRET_KEY;
-  if (!secretKey) {
-    throw new Error("Missing env variable STRIPE_SECRET_KEY");
+const STRIPE_KEY_PREFIXES = {
+  test: ["sk_test_", "rk_test_"],
+  live: ["sk_live_", "rk_live_"],
+};
+
+// Stripe Checkout collects the customer's name itself
+const STRIPE_CAPABILITIES: ProviderCapabilities = {
+  customerPortal: true,
+  trials: true,
+  seats: true,
+  customerId: true,
+  email: true,
+  name: false,
+  multiItem: true,
+  discountCodes: true,
+  promotionCodes: true,
+  subscriptions: true,
+  listSubscriptions: true,
+  cancelImmediately: true,
+  seatUpdates: true,
+  customerWrites: true,
+  refunds: true,
+  discounts: true,
+};
+
+/**
+ * Verify a `stripe-signature` header (`t=...,v1=...`) against the raw body.
+ * The header may carry several `v1` signatures during secret rotation.
+ * Returns the signed timestamp, or null if no signature matches.
+ */
+function verifyStripeSignature(
+  body: string,
+  header: string,
+  secret: string
+): string | null {
+  let timestamp: string | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const [key, value] = part.split("=", 2);
+    if (key === "t") timestamp = value;
+    if (key === "v1" && value) signatures.push(value);
+  }
+
+  if (!timestamp || signatures.length === 0) {
+    return null;
   }
-  return secretKey;
+
+  const expected = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return signatures.some((signature) => safeEqual(signature, expected))
+    ? timestamp
+    : null;
 }
 
-export const createCheckoutLink: CreateCheckoutLink = async (params) => {
-  const secretKey = getStripeSecretKey();
-  const {
-    type,
-    productId,
-    email,
-    redirectUrl,
-    customerId,
-    organizationId,
-    userId,
-    trialPeriodDays,
-    seats,
-  } = params;
-
-  const body = new URLSearchParams({
-    mode: type === "subscription" ? "subscription" : "payment",
-    success_url: redirectUrl ?? "",
-    "line_items[0][price]": productId,
-    "line_items[0][quantity]": String(seats ?? 1),
+const SUBSCRIPTION_EVENT_TYPES: Record<string, SubscriptionEvent["type"]> = {
+  "customer.subscription.created": "subscription.created",
+  "customer.subscription.updated": "subscription.updated",
+  "customer.subscription.deleted": "subscription.canceled",
+};
+
+const REFUND_EVENT_TYPES: Record<string, RefundEvent["type"]> = {
+  "refund.created": "refund.created",
+  "refund.updated": "refund.updated",
+  "refund.failed": "refund.updated",
+};
+
+const SUBSCRIPTION_STATUSES: Record<string, SubscriptionStatus> = {
+  trialing: "trialing",
+  active: "active",
+  past_due: "past_due",
+  unpaid: "past_due",
+  paused: "paused",
+  canceled: "canceled",
+  incomplete: "incomplete",
+  incomplete_expired: "expired",
+};
+
+const PRORATION_BEHAVIORS: Record<SeatProration, string> = {
+  prorate: "create_prorations",
+  invoice: "always_invoice",
+  none: "none",
+};
+
+const REFUND_STATUSES: Record<string, RefundStatus> = {
+  pending: "pending",
+  requires_action: "pending",
+  succeeded: "succeeded",
+  failed: "failed",
+  canceled: "canceled",
+};
+
+const checkoutSchema = schema.object({
+  id: schema.string,
+  url: schema.optional(schema.string),
+  status: schema.optional(schema.string),
+  payment_status: schema.optional(schema.string),
+  expires_at: schema.optional(schema.number),
+  subscription: schema.optional(schema.string),
+  amount_total: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+});
+
+// Newer API versions report the current period on the items
+const subscriptionSchema = schema.object({
+  id: schema.string,
+  customer: schema.optional(schema.string),
+  status: schema.string,
+  items: schema.object({
+    data: schema.array(
+      schema.object({
+        id: schema.string,
+        price: schema.object({ id: schema.string }),
+        quantity: schema.optional(schema.number),
+        current_period_start: schema.optional(schema.number),
+        current_period_end: schema.optional(schema.number),
+      })
+    ),
+  }),
+  current_period_start: schema.optional(schema.number),
+  current_period_end: schema.optional(schema.number),
+  trial_end: schema.optional(schema.number),
+  cancel_at_period_end: schema.optional(schema.boolean),
+});
+
+const subscriptionDetailsSchema = schema.optional(
+  schema.object({
+    subscription: schema.optional(schema.string),
+    metadata: schema.optional(schema.record(schema.string)),
+  })
+);
+
+// Newer API versions move the subscription under `parent` and the payment
+// intent under `payments`
+const invoiceSchema = schema.object({
+  id: schema.string,
+  subscription: schema.optional(schema.string),
+  subscription_details: subscriptionDetailsSchema,
+  parent: schema.optional(
+    schema.object({ subscription_details: subscriptionDetailsSchema })
+  ),
+  amount_paid: schema.optional(schema.number),
+  amount_due: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  payment_intent: schema.optional(schema.string),
+  charge: schema.optional(schema.string),
+  payments: schema.optional(
+    schema.object({
+      data: schema.array(
+        schema.object({
+          payment: schema.object({
+            payment_intent: schema.optional(schema.string),
+          }),
+        })
+      ),
+    })
+  ),
+});
+
+const customerSchema = schema.object({
+  id: schema.string,
+  email: schema.optional(schema.string),
+  name: schema.optional(schema.string),
+  metadata: schema.optional(schema.record(schema.string)),
+});
+
+const refundSchema = schema.object({
+  id: schema.string,
+  payment_intent: schema.optional(schema.string),
+  charge: schema.optional(schema.string),
+  amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  status: schema.optional(schema.string),
+  reason: schema.optional(schema.string),
+  created: schema.optional(schema.number),
+});
+
+const promotionCodeSchema = schema.object({
+  id: schema.string,
+  code: schema.optional(schema.string),
+  coupon: schema.optional(
+    schema.object({
+      name: schema.optional(schema.string),
+      percent_off: schema.optional(schema.number),
+      amount_off: schema.optional(schema.number),
+      currency: schema.optional(schema.string),
+      duration: schema.optional(schema.oneOf("once", "forever", "repeating")),
+      duration_in_months: schema.optional(schema.number),
+    })
+  ),
+  max_redemptions: schema.optional(schema.number),
+  times_redeemed: schema.optional(schema.number),
+  expires_at: schema.optional(schema.number),
+  active: schema.optional(schema.boolean),
+});
+
+const eventSchema = schema.object({
+  id: schema.string,
+  type: schema.string,
+  data: schema.object({
+    object: schema.object({ customer: schema.optional(schema.string) }),
+  }),
+});
+
+/**
+ * Schema for a page of Stripe list results.
+ */
+function listSchema<T>(item: schema.Schema<T>) {
+  return schema.object({
+    data: schema.array(item),
+    has_more: schema.optional(schema.boolean),
   });
+}
 
-  if (customerId) {
-    body.append("customer", customerId);
-  } else if (email) {
-    body.append("customer_email", email);
-  }
+type StripeEvent = schema.Infer<typeof eventSchema>;
 
-  if (organizationId) {
-    body.append("metadata[organization_id]", organizationId);
-  }
-  if (userId) {
-    body.append("metadata[user_id]", userId);
+/**
+ * Check the object of a Stripe event against a schema.
+ */
+function eventObject<T>(objectSchema: schema.Schema<T>, event: StripeEvent): T {
+  return schema.parse(
+    objectSchema,
+    event.data.object,
+    "stripe",
+    "Stripe webhook payload",
+    "data.object"
+  );
+}
+
+/**
+ * Normalize a Stripe currency code to upper case.
+ */
+function toCurrency(value: string | null | undefined): string | null {
+  return value ? value.toUpperCase() : null;
+}
+
+/**
+ * Map a Stripe event onto the normalized event model.
+ */
+function toPaymentEvent(event: StripeEvent): PaymentEvent | null {
+  const base = {
+    provider: "stripe",
+    id: event.id,
+    providerEventType: event.type,
+    customerId: event.data.object.customer ?? null,
+    raw: event,
+  };
+
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const object = eventObject(checkoutSchema, event);
+      return {
+        ...base,
+        ...readMetadataIds(object.metadata),
+        type: "checkout.completed",
+        checkoutId: object.id,
+        subscriptionId: object.subscription ?? null,
+        productId: null,
+        amount: object.amount_total ?? null,
+        currency: toCurrency(object.currency),
+      };
+    }
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted": {
+      const object = eventObject(subscriptionSchema, event);
+      const item = object.items.data[0];
+      return {
+        ...base,
+        ...readMetadataIds(object.metadata),
+        type: SUBSCRIPTION_EVENT_TYPES[event.type],
+        subscriptionId: object.id,
+        productId: item?.price.id ?? null,
+        status: SUBSCRIPTION_STATUSES[object.status] ?? "active",
+        seats: item?.quantity ?? null,
+        currentPeriodEnd: toDate(
+          object.current_period_end ?? item?.current_period_end
+        ),
+        cancelAtPeriodEnd: Boolean(object.cancel_at_period_end),
+      };
+    }
+    case "invoice.paid":
+    case "invoice.payment_failed": {
+      const object = eventObject(invoiceSchema, event);
+      const subscriptionDetails =
+        object.subscription_details ?? object.parent?.subscription_details;
+      const paid = event.type === "invoice.paid";
+      return {
+        ...base,
+        ...readMetadataIds(subscriptionDetails?.metadata),
+        type: paid ? "payment.succeeded" : "payment.failed",
+        paymentId: object.id,
+        subscriptionId:
+          object.subscription ?? subscriptionDetails?.subscription ?? null,
+        amount: (paid ? object.amount_paid : object.amount_due) ?? null,
+        currency: toCurrency(object.currency),
+      };
+    }
+    case "refund.created":
+    case "refund.updated":
+    case "refund.failed": {
+      const object = eventObject(refundSchema, event);
+      return {
+        ...base,
+        ...readMetadataIds(object.metadata),
+        type: REFUND_EVENT_TYPES[event.type],
+        refundId: object.id,
+        paymentId: object.payment_intent ?? object.charge ?? null,
+        amount: object.amount ?? null,
+        currency: toCurrency(object.currency),
+        status: REFUND_STATUSES[object.status ?? ""] ?? "pending",
+      };
+    }
+    default:
+      return null;
   }
+}
 
-  if (type === "subscription" && trialPeriodDays) {
-    body.append(
-      "subscription_data[trial_period_days]",
-      String(trialPeriodDays)
-    );
+/**
+ * Map a Stripe Checkout Session onto the normalized checkout session model.
+ */
+function toCheckoutSession(
+  object: schema.Infer<typeof checkoutSchema>
+): CheckoutSession {
+  let status: CheckoutSessionStatus = "open";
+  if (object.status === "expired") {
+    status = "expired";
+  } else if (object.status === "complete") {
+    // Delayed payment methods complete the session before the money arrives
+    status = object.payment_status === "unpaid" ? "processing" : "paid";
   }
+  return {
+    provider: "stripe",
+    id: object.id,
+    url: object.url ?? null,
+    status,
+    expiresAt: toDate(object.expires_at),
+    raw: object,
+  };
+}
 
-  const response = await fetch(`${STRIPE_API_URL}/checkout/sessions`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${secretKey}`,
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body,
-  });
+/**
+ * Map a Stripe subscription object onto the normalized subscription model.
+ */
+function toSubscription(
+  object: schema.Infer<typeof subscriptionSchema>
+): Subscription {
+  const item = object.items.data[0];
+  return {
+    provider: "stripe",
+    id: object.id,
+    customerId: object.customer ?? null,
+    status: SUBSCRIPTION_STATUSES[object.status] ?? "active",
+    productId: item?.price.id ?? null,
+    seats: item?.quantity ?? null,
+    currentPeriodStart: toDate(
+      object.current_period_start ?? item?.current_period_start
+    ),
+    currentPeriodEnd: toDate(
+      object.current_period_end ?? item?.current_period_end
+    ),
+    trialEnd: toDate(object.trial_end),
+    cancelAtPeriodEnd: Boolean(object.cancel_at_period_end),
+    raw: object,
+  };
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Stripe API error: ${JSON.stringify(error)}`);
-  }
+/**
+ * Map a Stripe customer object onto the normalized customer model.
+ */
+function toCustomer(object: schema.Infer<typeof customerSchema>): Customer {
+  const metadata = object.metadata ?? {};
+  return {
+    provider: "stripe",
+    id: object.id,
+    email: object.email ?? null,
+    name: object.name ?? null,
+    ...readMetadataIds(metadata),
+    metadata,
+    raw: object,
+  };
+}
 
-  const session = (await response.json()) as { url: string };
-  return session.url;
-};
+/**
+ * Map a Stripe refund object onto the normalized refund model.
+ */
+function toRefund(object: schema.Infer<typeof refundSchema>): Refund {
+  return {
+    provider: "stripe",
+    id: object.id,
+    paymentId: object.payment_intent ?? object.charge ?? null,
+    amount: object.amount ?? null,
+    currency: toCurrency(object.currency),
+    status: REFUND_STATUSES[object.status ?? ""] ?? "pending",
+    reason: object.reason ?? null,
+    createdAt: toDate(object.created),
+    raw: object,
+  };
+}
 
-export const createCustomerPortalLink: CreateCustomerPortalLink = async (
-  params
-) => {
-  const secretKey = getStripeSecretKey();
-  const { customerId, redirectUrl } = params;
+/**
+ * Map a Stripe promotion code and its coupon onto the normalized discount
+ * model.
+ */
+function toDiscount(
+  object: schema.Infer<typeof promotionCodeSchema>
+): Discount {
+  const coupon = object.coupon;
+  return {
+    provider: "stripe",
+    id: object.id,
+    code: object.code ?? null,
+    name: coupon?.name ?? null,
+    percentOff: coupon?.percent_off ?? null,
+    amountOff: coupon?.amount_off ?? null,
+    currency: toCurrency(coupon?.currency),
+    duration: coupon?.duration ?? null,
+    durationInMonths: coupon?.duration_in_months ?? null,
+    maxRedemptions: object.max_redemptions ?? null,
+    timesRedeemed: object.times_redeemed ?? null,
+    expiresAt: toDate(object.expires_at),
+    active: object.active === true,
+    raw: object,
+  };
+}
 
-  const body = new URLSearchParams({
-    customer: customerId,
-  });
+/**
+ * Encode customer fields as a Stripe form body.
+ */
+function customerBody(params: Partial<CreateCustomerParams>): URLSearchParams {
+  const body = new URLSearchParams();
 
-  if (redirectUrl) {
-    body.append("return_url", redirectUrl);
+  if (params.email !== undefined) body.append("email", params.email);
+  if (params.name !== undefined) body.append("name", params.name);
+  for (const [key, value] of Object.entries(buildMetadata(params))) {
+    body.append(`metadata[${key}]`, value);
   }
 
-  const response = await fetch(`${STRIPE_API_URL}/billing_portal/sessions`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${secretKey}`,
-      "Content-Type": "application/x-www-form-urlencoded",
+  return body;
+}
+
+/**
+ * Map a Stripe error response onto a typed payment error.
+ */
+async function stripeError(response: Response): Promise<PaymentError> {
+  const body = await readErrorBody(response);
+  const error = (
+    body as {
+      error?: {
+        type?: string;
+        code?: string;
+        decline_code?: string;
+        message?: string;
+      };
+    }
+  )?.error;
+  return createApiError(
+    "stripe",
+    "Stripe",
+    response.status,
+    {
+      message: error?.message,
+      code: error?.code,
+      declineCode: error?.decline_code,
+      isDecline: error?.type === "card_error",
     },
-    body,
+    body
+  );
+}
+
+/**
+ * Stripe provider configuration.
+ * Unset credentials fall back to environment variables.
+ */
+export type StripeConfig = ProviderOptions & {
+  /** Secret API key (default: `STRIPE_SECRET_KEY`) */
+  secretKey?: string;
+  /** Webhook signing secret (default: `STRIPE_WEBHOOK_SECRET`) */
+  webhookSecret?: string;
+};
+
+/**
+ * Create an isolated Stripe provider instance.
+ *
+ * @example
+ * ```ts
+ * import { createStripeProvider } from "@xyz/payment/providers/stripe";
+ *
+ * const stripe = createStripeProvider({ secretKey: workspace.stripeKey });
+ * ```
+ */
+export function createStripeProvider(
+  config: StripeConfig = {}
+): PaymentProvider {
+  const request = createTransport(config, {
+    provider: "stripe",
+    idempotencyHeader: "Idempotency-Key",
   });
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Stripe API error: ${JSON.stringify(error)}`);
+  function getStripeSecretKey(): string {
+    const secretKey = config.secretKey ?? readEnv("STRIPE_SECRET_KEY");
+    if (!secretKey) {
+      throw new ConfigurationError("Missing env variable STRIPE_SECRET_KEY", {
+        provider: "stripe",
+      });
+    }
+    // Stripe serves both modes from one URL; the key decides the mode
+    resolveMode(
+      "stripe",
+      config,
+      modeFromKeyPrefix(secretKey, STRIPE_KEY_PREFIXES)
+    );
+    return secretKey;
   }
 
-  const session = (await response.json()) as { url: string };
-  return session.url;
-};
+  const apiUrl = config.baseUrl ?? STRIPE_API_URL;
 
-export const webhookHandler: WebhookHandler = async (req) => {
-  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  const createCheckoutSession: CreateCheckoutSession = async (params) => {
+    if (config.strict) {
+      assertCheckoutCapabilities(
+        params,
+        STRIPE_CAPABILITIES,
+        "stripe",
+        "Stripe"
+      );
+    }
+    const secretKey = getStripeSecretKey();
+    const {
+      type,
+      email,
+      redirectUrl,
+      customerId,
+      organizationId,
+      userId,
+      trialPeriodDays,
+      discountCode,
+      allowPromotionCodes,
+    } = params;
 
-  if (!webhookSecret) {
-    return new Response("Missing STRIPE_WEBHOOK_SECRET", { status: 500 });
-  }
+    if (discountCode && allowPromotionCodes) {
+      throw new InvalidRequestError(
+        "Stripe checkouts cannot apply a discount code and allow promotion codes at the same time",
+        { provider: "stripe" }
+      );
+    }
+
+    const body = new URLSearchParams({
+      mode: type === "subscription" ? "subscription" : "payment",
+      success_url: redirectUrl ?? "",
+    });
+    checkoutItems(params, "stripe").forEach((item, index) => {
+      body.append(`line_items[${index}][price]`, item.productId);
+      body.append(`line_items[${index}][quantity]`, String(item.quantity));
+    });
+
+    if (customerId) {
+      body.append("customer", customerId);
+    } else if (email) {
+      body.append("customer_email", email);
+    }
+
+    if (organizationId) {
+      body.append("metadata[organization_id]", organizationId);
+    }
+    if (userId) {
+      body.append("metadata[user_id]", userId);
+    }
+
+    // Checkout metadata is not copied to the subscription, so set it there too
+    if (type === "subscription") {
+      if (organizationId) {
+        body.append(
+          "subscription_data[metadata][organization_id]",
+          organizationId
+        );
+      }
+      if (userId) {
+        body.append("subscription_data[metadata][user_id]", userId);
+      }
+    }
+
+    if (type === "subscription" && trialPeriodDays) {
+      body.append(
+        "subscription_data[trial_period_days]",
+        String(trialPeriodDays)
+      );
+    }
+
+    if (discountCode) {
+      body.append(
+        "discounts[0][promotion_code]",
+        await promotionCodeId(secretKey, discountCode)
+      );
+    }
+    if (allowPromotionCodes !== undefined) {
+      body.append("allow_promotion_codes", String(allowPromotionCodes));
+    }
+
+    const response = await request(`${apiUrl}/checkout/sessions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    return toCheckoutSession(
+      await schema.readJson(response, checkoutSchema, "stripe", "Stripe")
+    );
+  };
+
+  const createCheckoutLink: CreateCheckoutLink = async (params) => {
+    const session = await createCheckoutSession(params);
+    return session.url;
+  };
+
+  const getCheckoutSession: GetCheckoutSession = async (id) => {
+    const secretKey = getStripeSecretKey();
+
+    const response = await request(
+      `${apiUrl}/checkout/sessions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    return toCheckoutSession(
+      await schema.readJson(response, checkoutSchema, "stripe", "Stripe")
+    );
+  };
+
+  const createCustomerPortalLink: CreateCustomerPortalLink = async (
+    params
+  ) => {
+    const secretKey = getStripeSecretKey();
+    const { customerId, redirectUrl } = params;
+
+    const body = new URLSearchParams({
+      customer: customerId,
+    });
+
+    if (redirectUrl) {
+      body.append("return_url", redirectUrl);
+    }
+
+    const response = await request(`${apiUrl}/billing_portal/sessions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    const session = await schema.readJson(
+      response,
+      schema.object({ url: schema.string }),
+      "stripe",
+      "Stripe"
+    );
+    return session.url;
+  };
+
+  const cancelSubscription: CancelSubscription = async (id, options = {}) => {
+    const secretKey = getStripeSecretKey();
+
+    const response = options.immediately
+      ? await request(`${apiUrl}/subscriptions/${encodeURIComponent(id)}`, {
+          method: "DELETE",
+          headers: { Authorization: `Bearer ${secretKey}` },
+        })
+      : await request(`${apiUrl}/subscriptions/${encodeURIComponent(id)}`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${secretKey}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ cancel_at_period_end: "true" }),
+        });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+  };
+
+  const setSubscriptionSeats: SetSubscriptionSeats = async (params) => {
+    const secretKey = getStripeSecretKey();
+    const { id, seats, proration = "prorate" } = params;
+
+    // The quantity lives on the subscription item, so look up its ID first
+    const subscriptionResponse = await request(
+      `${apiUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      }
+    );
+
+    if (!subscriptionResponse.ok) {
+      throw await stripeError(subscriptionResponse);
+    }
+
+    const subscription = await schema.readJson(
+      subscriptionResponse,
+      subscriptionSchema,
+      "stripe",
+      "Stripe"
+    );
+    if (subscription.items.data.length !== 1) {
+      throw new InvalidRequestError(
+        `Stripe subscription ${id} has ${subscription.items.data.length} items; seats can only be set on a single-item subscription`,
+        { provider: "stripe" }
+      );
+    }
 
-  if (!req.body) {
-    return new Response("Invalid request", { status: 400 });
+    const response = await request(
+      `${apiUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          "items[0][id]": subscription.items.data[0].id,
+          "items[0][quantity]": String(seats),
+          proration_behavior: PRORATION_BEHAVIORS[proration],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+  };
+
+  const getSubscription: GetSubscription = async (id) => {
+    const secretKey = getStripeSecretKey();
+
+    const response = await request(
+      `${apiUrl}/subscriptions/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    return toSubscription(
+      await schema.readJson(response, subscriptionSchema, "stripe", "Stripe")
+    );
+  };
+
+  const listSubscriptions: ListSubscriptions = async (params) => {
+    const secretKey = getStripeSecretKey();
+    const subscriptions: Subscription[] = [];
+    let startingAfter: string | undefined;
+
+    do {
+      const query = new URLSearchParams({
+        customer: params.customerId,
+        status: "all",
+        limit: "100",
+      });
+      if (startingAfter) {
+        query.append("starting_after", startingAfter);
+      }
+
+      const response = await request(`${apiUrl}/subscriptions?${query}`, {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      });
+
+      if (!response.ok) {
+        throw await stripeError(response);
+      }
+
+      const page = await schema.readJson(
+        response,
+        listSchema(subscriptionSchema),
+        "stripe",
+        "Stripe"
+      );
+      subscriptions.push(...page.data.map(toSubscription));
+      startingAfter = page.has_more
+        ? subscriptions[subscriptions.length - 1].id
+        : undefined;
+    } while (startingAfter);
+
+    return subscriptions;
+  };
+
+  const createCustomer: CreateCustomer = async (params) => {
+    const secretKey = getStripeSecretKey();
+
+    const response = await request(`${apiUrl}/customers`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: customerBody(params),
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "stripe", "Stripe")
+    );
+  };
+
+  const getCustomer: GetCustomer = async (id) => {
+    const secretKey = getStripeSecretKey();
+
+    const response = await request(
+      `${apiUrl}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "stripe", "Stripe")
+    );
+  };
+
+  const updateCustomer: UpdateCustomer = async (params) => {
+    const secretKey = getStripeSecretKey();
+    const { id, ...fields } = params;
+
+    const response = await request(
+      `${apiUrl}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: customerBody(fields),
+      }
+    );
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "stripe", "Stripe")
+    );
+  };
+
+  const findCustomerByEmail: FindCustomerByEmail = async (email) => {
+    const secretKey = getStripeSecretKey();
+    const query = new URLSearchParams({ email, limit: "1" });
+
+    const response = await request(`${apiUrl}/customers?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${secretKey}` },
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(customerSchema),
+      "stripe",
+      "Stripe"
+    );
+    return result.data[0] ? toCustomer(result.data[0]) : null;
+  };
+
+  /**
+   * Resolve the charge or payment intent to refund. Invoice IDs, as reported
+   * by `payment.succeeded` events, are resolved through the invoice.
+   */
+  async function refundTarget(
+    secretKey: string,
+    paymentId: string
+  ): Promise<[string, string]> {
+    if (paymentId.startsWith("ch_") || paymentId.startsWith("py_")) {
+      return ["charge", paymentId];
+    }
+    if (!paymentId.startsWith("in_")) {
+      return ["payment_intent", paymentId];
+    }
+
+    const query = new URLSearchParams({ "expand[]": "payments" });
+    const response = await request(
+      `${apiUrl}/invoices/${encodeURIComponent(paymentId)}?${query}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    const invoice = await schema.readJson(
+      response,
+      invoiceSchema,
+      "stripe",
+      "Stripe"
+    );
+    const paymentIntent =
+      invoice.payment_intent ??
+      invoice.payments?.data[0]?.payment.payment_intent;
+    if (paymentIntent) {
+      return ["payment_intent", paymentIntent];
+    }
+    if (invoice.charge) {
+      return ["charge", invoice.charge];
+    }
+    throw new InvalidRequestError(`Invoice ${paymentId} has no payment`, {
+      provider: "stripe",
+    });
   }
 
-  const signature = req.headers.get("stripe-signature");
-  if (!signature) {
-    return new Response("Missing stripe-signature header", { status: 400 });
+  const createRefund: CreateRefund = async (params) => {
+    const secretKey = getStripeSecretKey();
+    const { paymentId, amount, reason } = params;
+    if (amount !== undefined) assertMinorUnits(amount, "stripe");
+    const [targetKey, targetId] = await refundTarget(secretKey, paymentId);
+
+    const body = new URLSearchParams({ [targetKey]: targetId });
+    if (amount !== undefined) {
+      body.append("amount", String(amount));
+    }
+    // Stripe has no "other" reason; leave it unset instead
+    if (reason && reason !== "other") {
+      body.append("reason", reason);
+    }
+
+    const response = await request(`${apiUrl}/refunds`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    return toRefund(
+      await schema.readJson(response, refundSchema, "stripe", "Stripe")
+    );
+  };
+
+  const listRefunds: ListRefunds = async (params = {}) => {
+    const secretKey = getStripeSecretKey();
+    const { paymentId, limit = 100 } = params;
+
+    const query = new URLSearchParams({ limit: String(Math.min(limit, 100)) });
+    if (paymentId) {
+      const [targetKey, targetId] = await refundTarget(secretKey, paymentId);
+      query.append(targetKey, targetId);
+    }
+
+    const response = await request(`${apiUrl}/refunds?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${secretKey}` },
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(refundSchema),
+      "stripe",
+      "Stripe"
+    );
+    return result.data.map(toRefund);
+  };
+
+  /**
+   * Look up the ID of an active promotion code.
+   */
+  async function promotionCodeId(
+    secretKey: string,
+    code: string
+  ): Promise<string> {
+    const query = new URLSearchParams({ code, active: "true", limit: "1" });
+    const response = await request(`${apiUrl}/promotion_codes?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${secretKey}` },
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(schema.object({ id: schema.string })),
+      "stripe",
+      "Stripe"
+    );
+    if (!result.data[0]) {
+      throw new InvalidRequestError(`Unknown discount code: ${code}`, {
+        provider: "stripe",
+        code: "unknown_discount",
+      });
+    }
+    return result.data[0].id;
   }
 
-  // Note: For production, you should verify the signature using Stripe's SDK
-  // This is a simplified implementation
+  /**
+   * Stripe splits a discount into a coupon, which holds the terms, and a
+   * promotion code customers enter, so this creates both.
+   */
+  const createDiscount: CreateDiscount = async (params) => {
+    assertDiscountParams(params, "stripe");
+    const secretKey = getStripeSecretKey();
+    const {
+      code,
+      name,
+      percentOff,
+      amountOff,
+      duration = "once",
+      durationInMonths,
+      maxRedemptions,
+      expiresAt,
+      productIds,
+    } = params;
+
+    const coupon = new URLSearchParams({ duration, name: name ?? code });
+    if (percentOff !== undefined) {
+      coupon.append("percent_off", String(percentOff));
+    }
+    if (amountOff) {
+      coupon.append("amount_off", String(amountOff.amount));
+      coupon.append("currency", amountOff.currency.toLowerCase());
+    }
+    if (durationInMonths !== undefined) {
+      coupon.append("duration_in_months", String(durationInMonths));
+    }
+    productIds?.forEach((productId, index) => {
+      coupon.append(`applies_to[products][${index}]`, productId);
+    });
+
+    const couponResponse = await request(`${apiUrl}/coupons`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: coupon,
+    });
 
-  try {
-    const body = await req.text();
-    const event = JSON.parse(body) as {
-      type: string;
-      data: { object: Record<string, unknown> };
+    if (!couponResponse.ok) {
+      throw await stripeError(couponResponse);
+    }
+
+    const { id: couponId } = await schema.readJson(
+      couponResponse,
+      schema.object({ id: schema.string }),
+      "stripe",
+      "Stripe"
+    );
+
+    const body = new URLSearchParams({ coupon: couponId, code });
+    if (maxRedemptions !== undefined) {
+      body.append("max_redemptions", String(maxRedemptions));
+    }
+    if (expiresAt) {
+      body.append("expires_at", String(Math.floor(expiresAt.getTime() / 1000)));
+    }
+
+    const response = await request(`${apiUrl}/promotion_codes`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    return toDiscount(
+      await schema.readJson(response, promotionCodeSchema, "stripe", "Stripe")
+    );
+  };
+
+  const listDiscounts: ListDiscounts = async (params = {}) => {
+    const secretKey = getStripeSecretKey();
+    const { limit = 100 } = params;
+
+    const query = new URLSearchParams({ limit: String(Math.min(limit, 100)) });
+    const response = await request(`${apiUrl}/promotion_codes?${query}`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${secretKey}` },
+    });
+
+    if (!response.ok) {
+      throw await stripeError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      listSchema(promotionCodeSchema),
+      "stripe",
+      "Stripe"
+    );
+    return result.data.map(toDiscount);
+  };
+
+  const createWebhookHandler: CreateWebhookHandler = (options = {}) =>
+    async (req) => {
+      const webhookSecret =
+        config.webhookSecret ?? readEnv("STRIPE_WEBHOOK_SECRET");
+
+      if (!webhookSecret) {
+        return new Response("Missing STRIPE_WEBHOOK_SECRET", { status: 401 });
+      }
+
+      if (!req.body) {
+        return new Response("Invalid request", { status: 400 });
+      }
+
+      const signature = req.headers.get("stripe-signature");
+      if (!signature) {
+        return new Response("Missing stripe-signature header", { status: 401 });
+      }
+
+      const body = await req.text();
+      const timestamp = verifyStripeSignature(body, signature, webhookSecret);
+      if (!timestamp) {
+        return new Response("Invalid signature", { status: 401 });
+      }
+
+      if (!isWithinTolerance(timestamp, options)) {
+        return new Response("Timestamp outside tolerance", { status: 401 });
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return new Response("Invalid webhook payload", { status: 400 });
+      }
+      let event: StripeEvent;
+      let paymentEvent: PaymentEvent | null;
+      try {
+        event = schema.parse(
+          eventSchema,
+          payload,
+          "stripe",
+          "Stripe webhook payload"
+        );
+        paymentEvent = toPaymentEvent(event);
+      } catch (error) {
+        return invalidPayloadResponse(error);
+      }
+
+      return respondToEvent({
+        provider: "stripe",
+        deliveryId: event.id,
+        event: paymentEvent,
+        options,
+        successStatus: 200,
+      });
     };
 
-    // Handle webhook events - implement your business logic here
-    switch (event.type) {
-      case "checkout.session.completed":
-      case "customer.subscription.created":
-      case "customer.subscription.updated":
-      case "customer.subscription.deleted":
-        // Implement your business logic here
-        break;
-      default:
-        // Unhandled event type
-        break;
-    }
-
-    return new Response(null, { status: 200 });
-  } catch {
-    return new Response("Invalid webhook payload", { status: 400 });
-  }
-};
+  return {
+    capabilities: STRIPE_CAPABILITIES,
+    createCheckoutLink,
+    createCheckoutSession,
+    getCheckoutSession,
+    createCustomerPortalLink,
+    cancelSubscription,
+    setSubscriptionSeats,
+    getSubscription,
+    listSubscriptions,
+    createCustomer,
+    getCustomer,
+    updateCustomer,
+    findCustomerByEmail,
+    createRefund,
+    listRefunds,
+    createDiscount,
+    listDiscounts,
+    webhookHandler: createWebhookHandler(),
+    createWebhookHandler,
+  };
+}
+
+const defaultProvider = createStripeProvider();
+
+export const capabilities = defaultProvider.capabilities;
+export const createCheckoutLink = defaultProvider.createCheckoutLink;
+export const createCheckoutSession = defaultProvider.createCheckoutSession;
+export const getCheckoutSession = defaultProvider.getCheckoutSession;
+export const createCustomerPortalLink =
+  defaultProvider.createCustomerPortalLink;
+export const cancelSubscription = defaultProvider.cancelSubscription;
+export const setSubscriptionSeats = defaultProvider.setSubscriptionSeats;
+export const getSubscription = defaultProvider.getSubscription;
+export const listSubscriptions = defaultProvider.listSubscriptions;
+export const createCustomer = defaultProvider.createCustomer;
+export const getCustomer = defaultProvider.getCustomer;
+export const updateCustomer = defaultProvider.updateCustomer;
+export const findCustomerByEmail = defaultProvider.findCustomerByEmail;
+export const createRefund = defaultProvider.createRefund;
+export const listRefunds = defaultProvider.listRefunds;
+export const createDiscount = defaultProvider.createDiscount;
+export const listDiscounts = defaultProvider.listDiscounts;
+export const webhookHandler = defaultProvider.webhookHandler;
+export const createWebhookHandler = defaultProvider.createWebhookHandler;
@@ -0,0 +1,1149 @@
+import { randomUUID } from "node:crypto";
+import type {
+  CancelSubscription,
+  GetSubscription,
+  ListSubscriptions,
+  PaymentEvent,
+  PaymentEventCallback,
+  PaymentTransactionEvent,
+  SetSubscriptionSeats,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionStatus,
+} from "../types";
+import {
+  ApiConnectionError,
+  InvalidRequestError,
+  NotFoundError,
+  PaymentError,
+  ValidationError,
+} from "../errors";
+import {
+  chargeCard,
+  createCharge,
+  listCharges,
+  revokePaymentAgreement,
+  type BillingInterval,
+  type TapPriceCatalog,
+  type TapProvider,
+  type TapSavedCardResult,
+} from "./tap";
+
+export type { BillingInterval };
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A recurring price that subscriptions are billed at.
+ */
+export type TapPlan = {
+  /** Plan ID, used as the product ID in events */
+  id: string;
+  /** Price per seat in the currency's smallest unit */
+  amount: number;
+  /** Currency code (e.g., "USD", "SAR", "KWD") */
+  currency: string;
+  /** Billing interval */
+  interval: BillingInterval;
+  /** Number of intervals per billing period (default: 1) */
+  intervalCount?: number;
+};
+
+/**
+ * A payment link sent with a dunning notice.
+ */
+export type TapPaymentLink = {
+  /** Charge behind the payment page */
+  chargeId: string;
+  /**
+   * `open` until the subscription renews; paying a `superseded` link does
+   * not renew it again
+   */
+  status: "open" | "superseded";
+};
+
+/**
+ * A subscription billed by the engine.
+ */
+export type TapSubscription = TapSavedCardResult & {
+  /** Subscription ID */
+  id: string;
+  /** Plan the subscription is billed at */
+  planId: string;
+  /** Number of seats/quantity */
+  seats: number;
+  /** Current status */
+  status: SubscriptionStatus;
+  /** Start of the first paid period; later periods are counted from it */
+  anchorDate: Date;
+  /** Index of the current period counted from the anchor (-1 during a trial) */
+  billingCycle: number;
+  /** Start of the current period */
+  currentPeriodStart: Date;
+  /** End of the current period, when the next charge is due */
+  currentPeriodEnd: Date;
+  /** End of the trial, if the subscription has one */
+  trialEnd: Date | null;
+  /** Whether the subscription ends at the end of the current period */
+  cancelAtPeriodEnd: boolean;
+  /**
+   * Amount added to the next charge in the currency's smallest unit;
+   * negative for a credit (e.g. from a prorated seat reduction)
+   */
+  balance: number;
+  /** Charge awaiting its `CHARGE.CAPTURED` or `CHARGE.FAILED` webhook */
+  pendingChargeId: string | null;
+  /**
+   * When a renewal charge got no definite answer from Tap, e.g. because it
+   * timed out; Tap is checked for it before the card is charged again
+   */
+  unconfirmedChargeAt: Date | null;
+  /**
+   * Prorated seat charge awaiting its webhook; if it fails, its amount is
+   * added to the next charge
+   */
+  pendingProration: { chargeId: string; amount: number } | null;
+  /** Failed charges since the last successful one */
+  failedAttempts: number;
+  /** When the first of those charges failed */
+  firstFailedAt: Date | null;
+  /** When the next retry or final dunning action is due */
+  nextRetryAt: Date | null;
+  /** Payment links sent since the previous renewal, and those it superseded */
+  paymentLinks: TapPaymentLink[];
+  /** Customer email, used for payment links */
+  email: string | null;
+  /** Organization ID for metadata */
+  organizationId: string | null;
+  /** User ID for metadata */
+  userId: string | null;
+  /** When the subscription was created */
+  createdAt: Date;
+};
+
+/**
+ * Storage for plans and subscriptions.
+ * Back it with your database; `createMemoryBillingStore` is for tests and
+ * single-process setups.
+ */
+export interface TapBillingStore {
+  /** Look up a plan; resolves `null` if it does not exist */
+  getPlan(id: string): Promise<TapPlan | null>;
+  /** Create or replace a plan */
+  savePlan(plan: TapPlan): Promise<void>;
+  /** Look up a subscription; resolves `null` if it does not exist */
+  getSubscription(id: string): Promise<TapSubscription | null>;
+  /** Create or replace a subscription */
+  saveSubscription(subscription: TapSubscription): Promise<void>;
+  /** List a customer's subscriptions, including ended ones */
+  listSubscriptions(customerId: string): Promise<TapSubscription[]>;
+  /**
+   * List `active` and `trialing` subscriptions whose `currentPeriodEnd` is at
+   * or before `now`, and `past_due` ones whose `nextRetryAt` is
+   */
+  listDueSubscriptions(now: Date): Promise<TapSubscription[]>;
+}
+
+/**
+ * Details passed to the dunning notification hooks.
+ */
+export type DunningNotice = {
+  /** Subscription after the failure was recorded */
+  subscription: TapSubscription;
+  /** Failed charges so far */
+  attempt: number;
+  /** Next automatic retry, or `null` when retries are exhausted */
+  nextRetryAt: Date | null;
+  /** Amount due in the currency's smallest unit */
+  amount: number;
+  /** Currency code */
+  currency: string;
+  /**
+   * Tap payment page for the amount due, from `createCharge`. Paying it
+   * renews the subscription. `null` if the link could not be created.
+   */
+  paymentUrl: string | null;
+  /** Why the last charge failed */
+  error: unknown;
+};
+
+/**
+ * How failed renewals are retried.
+ */
+export type DunningPolicy = {
+  /** Days after the first failed charge to retry on (default: [1, 3, 7]) */
+  retryDays?: number[];
+  /**
+   * Days after the first failed charge until the final action, if longer
+   * than the retry schedule (default: the last retry day)
+   */
+  gracePeriodDays?: number;
+  /** What happens once retries and grace period are over (default: "cancel") */
+  finalAction?: "cancel" | "pause";
+  /** Redirect URL of the payment links passed to the hooks */
+  paymentLinkRedirectUrl?: string;
+  /** Called after every failed charge, e.g. to email the payment link */
+  onPaymentFailed?: (notice: DunningNotice) => void | Promise<void>;
+  /** Called when the subscription is canceled or paused for non-payment */
+  onFinalAction?: (notice: DunningNotice) => void | Promise<void>;
+  /** Called when a past-due or paused subscription is paid again */
+  onRecovered?: (subscription: TapSubscription) => void | Promise<void>;
+  /**
+   * Called when a payment link is paid after another payment renewed the
+   * subscription, e.g. to refund the charge
+   */
+  onSupersededPayment?: (
+    subscription: TapSubscription,
+    event: PaymentTransactionEvent
+  ) => void | Promise<void>;
+};
+
+/**
+ * Options for the billing engine.
+ */
+export type TapBillingOptions = {
+  /** Plan and subscription storage */
+  store: TapBillingStore;
+  /** Tap provider used to charge cards (default: the env-configured one) */
+  provider?: Pick<
+    TapProvider,
+    "chargeCard" | "createCharge" | "revokePaymentAgreement" | "listCharges"
+  >;
+  /** Called for every event the engine emits */
+  onEvent?: PaymentEventCallback;
+  /** Failed-payment retries and notifications */
+  dunning?: DunningPolicy;
+  /**
+   * Revoke the payment agreement when a subscription ends (default: false).
+   * This deletes the saved card, so leave it off if cards are shared between
+   * subscriptions.
+   */
+  revokeOnEnd?: boolean;
+  /** Subscription ID generator (default: `sub_` + random UUID) */
+  generateId?: () => string;
+};
+
+/**
+ * Parameters for starting a subscription.
+ */
+export type CreateTapSubscriptionParams = TapSavedCardResult & {
+  /** Plan to bill */
+  planId: string;
+  /** Number of seats/quantity (default: 1) */
+  seats?: number;
+  /** Start of the first paid period (default: now, or the end of the trial) */
+  anchorDate?: Date;
+  /** Trial period in days; the first charge is made when it ends */
+  trialPeriodDays?: number;
+  /** Customer email, used for payment links */
+  email?: string;
+  /** Organization ID for metadata */
+  organizationId?: string;
+  /** User ID for metadata */
+  userId?: string;
+};
+
+/**
+ * Outcome of a billing run, as subscription IDs.
+ */
+export type BillingRunResult = {
+  /** Charged and moved to the next period */
+  renewed: string[];
+  /**
+   * Charged, awaiting the charge webhook, or charged without a definite
+   * answer from Tap and looked up again on the next run
+   */
+  pending: string[];
+  /** Charge failed; the subscription is now `past_due` */
+  failed: string[];
+  /** Paused for non-payment */
+  paused: string[];
+  /** Ended at the end of their period or canceled for non-payment */
+  ended: string[];
+  /**
+   * Subscriptions whose billing threw, e.g. for an unknown plan or a failing
+   * `onEvent` callback. Their saved state shows how far billing got.
+   */
+  errors: { subscriptionId: string; error: unknown }[];
+};
+
+/**
+ * Recurring billing engine for Tap.
+ */
+export type TapBilling = {
+  createSubscription: (
+    params: CreateTapSubscriptionParams
+  ) => Promise<TapSubscription>;
+  cancelSubscription: CancelSubscription;
+  setSubscriptionSeats: SetSubscriptionSeats;
+  getSubscription: GetSubscription;
+  listSubscriptions: ListSubscriptions;
+  runDueBillings: (now?: Date) => Promise<BillingRunResult>;
+  handleEvent: (event: PaymentEvent) => Promise<void>;
+};
+
+// ============================================
+// Billing Periods
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETRY_DAYS = [1, 3, 7];
+
+/** Tap statuses of a charge that has not completed yet */
+const PENDING_CHARGE_STATUSES = ["INITIATED", "IN_PROGRESS"];
+
+/** Result of charging a card, or of looking a charge up */
+type ChargeOutcome = {
+  chargeId: string | null;
+  status: "succeeded" | "pending" | "failed" | "unknown";
+  error: unknown;
+};
+
+function toChargeOutcome(result: {
+  chargeId: string;
+  status: string;
+}): ChargeOutcome {
+  const { chargeId, status } = result;
+  if (status === "CAPTURED") {
+    return { chargeId, status: "succeeded", error: null };
+  }
+  if (PENDING_CHARGE_STATUSES.includes(status)) {
+    return { chargeId, status: "pending", error: null };
+  }
+  return {
+    chargeId,
+    status: "failed",
+    error: new PaymentError(
+      `Tap charge ${chargeId} ended in status ${status}`,
+      {
+        provider: "tap",
+        code: status,
+        raw: result,
+      }
+    ),
+  };
+}
+
+/**
+ * Whether a failed charge request leaves open if Tap made the charge: it
+ * timed out or failed in transit, Tap answered with a server error, or its
+ * answer could not be read.
+ */
+function isOutcomeUnknown(error: unknown): boolean {
+  return (
+    error instanceof ApiConnectionError ||
+    error instanceof ValidationError ||
+    (error instanceof PaymentError && (error.httpStatus ?? 0) >= 500)
+  );
+}
+
+function assertSeats(seats: number): void {
+  if (!Number.isInteger(seats) || seats < 1) {
+    throw new InvalidRequestError(
+      `Invalid seats ${seats}: expected a positive integer`,
+      { provider: "tap" }
+    );
+  }
+}
+
+/**
+ * Add `count` intervals to a date. Month and year steps keep the anchor's day
+ * of month, clamped to shorter months (Jan 31 → Feb 28 → Mar 31).
+ */
+function addInterval(
+  anchor: Date,
+  interval: BillingInterval,
+  count: number
+): Date {
+  if (interval === "day" || interval === "week") {
+    const days = interval === "week" ? count * 7 : count;
+    return new Date(anchor.getTime() + days * DAY_MS);
+  }
+
+  const months = interval === "year" ? count * 12 : count;
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(anchor.getUTCDate(), lastDay),
+      anchor.getUTCHours(),
+      anchor.getUTCMinutes(),
+      anchor.getUTCSeconds(),
+      anchor.getUTCMilliseconds()
+    )
+  );
+}
+
+/**
+ * Start and end of a billing cycle counted from the anchor.
+ */
+function periodOf(
+  plan: TapPlan,
+  anchorDate: Date,
+  billingCycle: number
+): { start: Date; end: Date } {
+  const step = plan.intervalCount ?? 1;
+  return {
+    start: addInterval(anchorDate, plan.interval, billingCycle * step),
+    end: addInterval(anchorDate, plan.interval, (billingCycle + 1) * step),
+  };
+}
+
+/**
+ * Amount due for the next period, including any balance.
+ */
+function amountDue(record: TapSubscription, plan: TapPlan): number {
+  return Math.max(plan.amount * record.seats + record.balance, 0);
+}
+
+// ============================================
+// Events
+// ============================================
+
+/**
+ * Map a subscription record onto the normalized subscription model.
+ */
+function toSubscription(record: TapSubscription): Subscription {
+  return {
+    provider: "tap",
+    id: record.id,
+    customerId: record.customerId,
+    status: record.status,
+    productId: record.planId,
+    seats: record.seats,
+    currentPeriodStart: record.currentPeriodStart,
+    currentPeriodEnd: record.currentPeriodEnd,
+    trialEnd: record.trialEnd,
+    cancelAtPeriodEnd: record.cancelAtPeriodEnd,
+    raw: record,
+  };
+}
+
+function eventBase(record: TapSubscription, providerEventType: string) {
+  return {
+    provider: "tap",
+    id: null,
+    providerEventType,
+    customerId: record.customerId,
+    organizationId: record.organizationId,
+    userId: record.userId,
+    raw: record,
+  };
+}
+
+function subscriptionEvent(
+  type: SubscriptionEvent["type"],
+  record: TapSubscription,
+  providerEventType: string
+): SubscriptionEvent {
+  return {
+    ...eventBase(record, providerEventType),
+    type,
+    subscriptionId: record.id,
+    productId: record.planId,
+    status: record.status,
+    seats: record.seats,
+    currentPeriodEnd: record.currentPeriodEnd,
+    cancelAtPeriodEnd: record.cancelAtPeriodEnd,
+  };
+}
+
+// ============================================
+// Billing Engine
+// ============================================
+
+/**
+ * Create a recurring billing engine that charges saved Tap cards.
+ * Call `runDueBillings` from a cron job or scheduler; do not run it from
+ * several processes at once, since Tap charges have no idempotency keys.
+ * Pass Tap webhook events to `handleEvent` so charges that complete
+ * asynchronously and paid payment links are picked up.
+ *
+ * @example
+ * ```ts
+ * import { createTapProvider } from "@xyz/payment/providers/tap";
+ * import {
+ *   createMemoryBillingStore,
+ *   createTapBilling,
+ * } from "@xyz/payment/providers/tap-billing";
+ *
+ * const billing = createTapBilling({
+ *   provider: createTapProvider({ secretKey: process.env.TAP_SECRET_KEY }),
+ *   store: createMemoryBillingStore([
+ *     { id: "pro", amount: 999, currency: "USD", interval: "month" },
+ *   ]),
+ *   dunning: {
+ *     retryDays: [1, 3, 7],
+ *     onPaymentFailed: async ({ subscription, paymentUrl }) => { ... },
+ *   },
+ * });
+ *
+ * // After the checkout charge saved the card:
+ * await billing.createSubscription({ planId: "pro", ...savedCard });
+ *
+ * // In your scheduled billing job:
+ * await billing.runDueBillings();
+ * ```
+ */
+export function createTapBilling(options: TapBillingOptions): TapBilling {
+  const { store, onEvent, dunning = {} } = options;
+  const provider = options.provider ?? {
+    chargeCard,
+    createCharge,
+    revokePaymentAgreement,
+    listCharges,
+  };
+  const generateId = options.generateId ?? (() => `sub_${randomUUID()}`);
+  const retryDays = dunning.retryDays ?? DEFAULT_RETRY_DAYS;
+  const finalDay = Math.max(
+    retryDays[retryDays.length - 1] ?? 0,
+    dunning.gracePeriodDays ?? 0
+  );
+
+  async function emit(event: PaymentEvent): Promise<void> {
+    await onEvent?.(event);
+  }
+
+  async function requirePlan(id: string): Promise<TapPlan> {
+    const plan = await store.getPlan(id);
+    if (!plan) {
+      throw new NotFoundError(`Unknown plan: ${id}`, { provider: "tap" });
+    }
+    return plan;
+  }
+
+  async function requireSubscription(id: string): Promise<TapSubscription> {
+    const record = await store.getSubscription(id);
+    if (!record) {
+      throw new NotFoundError(`Unknown subscription: ${id}`, {
+        provider: "tap",
+      });
+    }
+    return record;
+  }
+
+  function chargeMetadata(record: TapSubscription): Record<string, string> {
+    return {
+      subscription_id: record.id,
+      ...(record.organizationId
+        ? { organization_id: record.organizationId }
+        : {}),
+      ...(record.userId ? { user_id: record.userId } : {}),
+    };
+  }
+
+  /**
+   * Charge a subscription's card. Declines and other errors count as a
+   * failed payment. A charge that timed out, failed in transit or got a
+   * server error may still have gone through, so its outcome is `unknown`
+   * and it is looked up on Tap instead of being retried blindly.
+   */
+  async function charge(
+    record: TapSubscription,
+    plan: TapPlan,
+    amount: number,
+    description: string,
+    metadata: Record<string, string>
+  ): Promise<ChargeOutcome> {
+    try {
+      const result = await provider.chargeCard({
+        customerId: record.customerId,
+        cardId: record.cardId,
+        paymentAgreementId: record.paymentAgreementId,
+        amount: { amount, currency: plan.currency },
+        description,
+        metadata,
+      });
+      return toChargeOutcome(result);
+    } catch (error) {
+      return {
+        chargeId: null,
+        status: isOutcomeUnknown(error) ? "unknown" : "failed",
+        error,
+      };
+    }
+  }
+
+  /**
+   * Metadata of the charge for a subscription's next period, which marks it
+   * so it can be found again if its outcome is unknown.
+   */
+  function renewalMetadata(record: TapSubscription): Record<string, string> {
+    return {
+      ...chargeMetadata(record),
+      billing_cycle: String(record.billingCycle + 1),
+    };
+  }
+
+  /**
+   * Look up the renewal charge of a subscription whose outcome was unknown.
+   * Resolves `null` if Tap has no such charge, so the card can be charged
+   * again.
+   */
+  async function findRenewalCharge(
+    record: TapSubscription,
+    since: Date
+  ): Promise<ChargeOutcome | null> {
+    const { billing_cycle } = renewalMetadata(record);
+    const outcomes = (
+      await provider.listCharges({
+        customerId: record.customerId,
+        createdAfter: since,
+      })
+    )
+      .filter(
+        ({ metadata }) =>
+          metadata.subscription_id === record.id &&
+          metadata.billing_cycle === billing_cycle
+      )
+      .map(toChargeOutcome);
+
+    return (
+      outcomes.find((outcome) => outcome.status === "succeeded") ??
+      outcomes.find((outcome) => outcome.status === "pending") ??
+      outcomes[0] ??
+      null
+    );
+  }
+
+  /**
+   * Create a payment page for the amount due and record its charge on the
+   * subscription. Failures are swallowed so a Tap outage does not stop the
+   * notification itself.
+   */
+  async function createPaymentUrl(
+    record: TapSubscription,
+    plan: TapPlan,
+    amount: number
+  ): Promise<string | null> {
+    try {
+      const result = await provider.createCharge({
+        amount: { amount, currency: plan.currency },
+        email: record.email ?? undefined,
+        redirectUrl: dunning.paymentLinkRedirectUrl,
+        description: `Subscription ${plan.id}`,
+        metadata: chargeMetadata(record),
+      });
+      record.paymentLinks = [
+        ...record.paymentLinks,
+        { chargeId: result.chargeId, status: "open" },
+      ];
+      await store.saveSubscription(record);
+      return result.url;
+    } catch {
+      return null;
+    }
+  }
+
+  async function endSubscription(
+    record: TapSubscription,
+    type: SubscriptionEvent["type"],
+    providerEventType: string
+  ): Promise<void> {
+    record.status = "canceled";
+    record.cancelAtPeriodEnd = false;
+    record.nextRetryAt = null;
+    await store.saveSubscription(record);
+
+    if (options.revokeOnEnd) {
+      await provider.revokePaymentAgreement({
+        customerId: record.customerId,
+        cardId: record.cardId,
+      });
+    }
+
+    await emit(subscriptionEvent(type, record, providerEventType));
+  }
+
+  /**
+   * Move a paid subscription into its next period and clear its dunning
+   * state. Open payment links are superseded; links superseded by an earlier
+   * renewal are dropped.
+   */
+  async function renew(record: TapSubscription, plan: TapPlan): Promise<void> {
+    const recovered =
+      record.status === "past_due" || record.status === "paused";
+    const period = periodOf(plan, record.anchorDate, record.billingCycle + 1);
+
+    record.billingCycle += 1;
+    record.currentPeriodStart = period.start;
+    record.currentPeriodEnd = period.end;
+    record.status = "active";
+    record.balance = 0;
+    record.pendingChargeId = null;
+    record.unconfirmedChargeAt = null;
+    record.failedAttempts = 0;
+    record.firstFailedAt = null;
+    record.nextRetryAt = null;
+    record.paymentLinks = record.paymentLinks
+      .filter((link) => link.status === "open")
+      .map((link) => ({ ...link, status: "superseded" }));
+    await store.saveSubscription(record);
+
+    await emit(
+      subscriptionEvent("subscription.updated", record, "billing.renewed")
+    );
+    if (recovered) {
+      await dunning.onRecovered?.(record);
+    }
+  }
+
+  /**
+   * Record a failed charge and schedule the next retry, or take the final
+   * action once the schedule is exhausted and the grace period is over.
+   */
+  async function recordFailure(
+    record: TapSubscription,
+    plan: TapPlan,
+    error: unknown,
+    now: Date
+  ): Promise<"failed" | "paused" | "ended"> {
+    const amount = amountDue(record, plan);
+    const firstFailedAt = record.firstFailedAt ?? now;
+    const attempt = record.failedAttempts + 1;
+    const retryDay =
+      attempt <= retryDays.length ? retryDays[attempt - 1] : null;
+    const finalAt = new Date(firstFailedAt.getTime() + finalDay * DAY_MS);
+
+    record.status = "past_due";
+    record.pendingChargeId = null;
+    record.failedAttempts = attempt;
+    record.firstFailedAt = firstFailedAt;
+    record.nextRetryAt =
+      retryDay !== null
+        ? new Date(firstFailedAt.getTime() + retryDay * DAY_MS)
+        : finalAt > now
+          ? finalAt
+          : null;
+
+    const notice = async (): Promise<DunningNotice> => ({
+      subscription: record,
+      attempt,
+      nextRetryAt: retryDay !== null ? record.nextRetryAt : null,
+      amount,
+      currency: plan.currency,
+      paymentUrl: await createPaymentUrl(record, plan, amount),
+      error,
+    });
+
+    if (!record.nextRetryAt) {
+      return finalAction(record, await notice());
+    }
+
+    await store.saveSubscription(record);
+    await emit(
+      subscriptionEvent("subscription.updated", record, "billing.failed")
+    );
+    if (dunning.onPaymentFailed) {
+      await dunning.onPaymentFailed(await notice());
+    }
+    return "failed";
+  }
+
+  async function finalAction(
+    record: TapSubscription,
+    notice: DunningNotice
+  ): Promise<"paused" | "ended"> {
+    if (dunning.finalAction === "pause") {
+      record.status = "paused";
+      record.nextRetryAt = null;
+      await store.saveSubscription(record);
+      await emit(
+        subscriptionEvent("subscription.updated", record, "billing.paused")
+      );
+      await dunning.onFinalAction?.(notice);
+      return "paused";
+    }
+
+    await endSubscription(record, "subscription.canceled", "billing.unpaid");
+    await dunning.onFinalAction?.(notice);
+    return "ended";
+  }
+
+  const createSubscription: TapBilling["createSubscription"] = async (
+    params
+  ) => {
+    const plan = await requirePlan(params.planId);
+    const seats = params.seats ?? 1;
+    assertSeats(seats);
+    const now = new Date();
+    const trialEnd = params.trialPeriodDays
+      ? new Date(now.getTime() + params.trialPeriodDays * DAY_MS)
+      : null;
+    const anchorDate = params.anchorDate ?? trialEnd ?? now;
+
+    // Without a trial the first period is paid by the checkout charge
+    const billingCycle = trialEnd ? -1 : 0;
+    const period = trialEnd
+      ? { start: now, end: trialEnd }
+      : periodOf(plan, anchorDate, billingCycle);
+
+    const record: TapSubscription = {
+      id: generateId(),
+      planId: plan.id,
+      customerId: params.customerId,
+      cardId: params.cardId,
+      paymentAgreementId: params.paymentAgreementId,
+      seats,
+      status: trialEnd ? "trialing" : "active",
+      anchorDate,
+      billingCycle,
+      currentPeriodStart: period.start,
+      currentPeriodEnd: period.end,
+      trialEnd,
+      cancelAtPeriodEnd: false,
+      balance: 0,
+      pendingChargeId: null,
+      unconfirmedChargeAt: null,
+      pendingProration: null,
+      failedAttempts: 0,
+      firstFailedAt: null,
+      nextRetryAt: null,
+      paymentLinks: [],
+      email: params.email ?? null,
+      organizationId: params.organizationId ?? null,
+      userId: params.userId ?? null,
+      createdAt: now,
+    };
+
+    await store.saveSubscription(record);
+    await emit(
+      subscriptionEvent("subscription.created", record, "billing.created")
+    );
+    return record;
+  };
+
+  const cancelSubscription: CancelSubscription = async (id, cancelOptions) => {
+    const record = await requireSubscription(id);
+
+    if (cancelOptions?.immediately) {
+      await endSubscription(record, "subscription.expired", "billing.canceled");
+      return;
+    }
+
+    record.cancelAtPeriodEnd = true;
+    await store.saveSubscription(record);
+    await emit(
+      subscriptionEvent("subscription.canceled", record, "billing.canceled")
+    );
+  };
+
+  /**
+   * Seat changes apply from the next charge. With proration, the difference
+   * for the rest of the current period is added to the next charge
+   * (`prorate`) or charged right away (`invoice`); reductions become a
+   * credit on the next charge. An invoiced charge that is still pending is
+   * added to the next charge if it fails.
+   */
+  const setSubscriptionSeats: SetSubscriptionSeats = async (params) => {
+    const { id, seats, proration = "prorate" } = params;
+    assertSeats(seats);
+    const record = await requireSubscription(id);
+    const plan = await requirePlan(record.planId);
+
+    if (proration !== "none" && record.status === "active") {
+      const now = Date.now();
+      const start = record.currentPeriodStart.getTime();
+      const end = record.currentPeriodEnd.getTime();
+      const remaining = Math.min(Math.max((end - now) / (end - start), 0), 1);
+      const difference = Math.round(
+        (seats - record.seats) * plan.amount * remaining
+      );
+
+      if (proration === "invoice" && difference > 0) {
+        const { chargeId, status, error } = await charge(
+          record,
+          plan,
+          difference,
+          "Prorated seat change",
+          chargeMetadata(record)
+        );
+        if (status === "failed" || status === "unknown") {
+          throw error;
+        }
+        if (status === "pending" && chargeId) {
+          record.pendingProration = { chargeId, amount: difference };
+        }
+      } else {
+        record.balance += difference;
+      }
+    }
+
+    record.seats = seats;
+    await store.saveSubscription(record);
+    await emit(
+      subscriptionEvent("subscription.updated", record, "billing.updated")
+    );
+  };
+
+  const getSubscription: GetSubscription = async (id) => {
+    return toSubscription(await requireSubscription(id));
+  };
+
+  const listSubscriptions: ListSubscriptions = async (params) => {
+    const records = await store.listSubscriptions(params.customerId);
+    return records.map(toSubscription);
+  };
+
+  /**
+   * Bill one due subscription. Its new state is saved before events and
+   * hooks run, so a throwing callback cannot get the card charged twice.
+   */
+  async function billSubscription(
+    record: TapSubscription,
+    now: Date
+  ): Promise<Exclude<keyof BillingRunResult, "errors">> {
+    if (record.pendingChargeId) {
+      return "pending";
+    }
+
+    // The last charge may have gone through; settle it instead of charging
+    if (record.unconfirmedChargeAt) {
+      const plan = await requirePlan(record.planId);
+      const found = await findRenewalCharge(record, record.unconfirmedChargeAt);
+      record.unconfirmedChargeAt = null;
+      if (found) {
+        return settleCharge(record, plan, amountDue(record, plan), found, now);
+      }
+      await store.saveSubscription(record);
+    }
+
+    if (record.cancelAtPeriodEnd) {
+      await endSubscription(record, "subscription.expired", "billing.ended");
+      return "ended";
+    }
+
+    const plan = await requirePlan(record.planId);
+    const amount = amountDue(record, plan);
+
+    // Retries are exhausted and the grace period is over
+    if (record.failedAttempts > retryDays.length) {
+      return finalAction(record, {
+        subscription: record,
+        attempt: record.failedAttempts,
+        nextRetryAt: null,
+        amount,
+        currency: plan.currency,
+        paymentUrl: await createPaymentUrl(record, plan, amount),
+        error: null,
+      });
+    }
+
+    const chargedAt = new Date();
+    const result: ChargeOutcome =
+      amount > 0
+        ? await charge(
+            record,
+            plan,
+            amount,
+            `Subscription ${plan.id}`,
+            renewalMetadata(record)
+          )
+        : { chargeId: null, status: "succeeded", error: null };
+
+    if (result.status === "unknown") {
+      record.unconfirmedChargeAt = chargedAt;
+      await store.saveSubscription(record);
+      return "pending";
+    }
+    return settleCharge(record, plan, amount, result, now);
+  }
+
+  /**
+   * Apply the result of a subscription's renewal charge.
+   */
+  async function settleCharge(
+    record: TapSubscription,
+    plan: TapPlan,
+    amount: number,
+    { chargeId, status, error }: ChargeOutcome,
+    now: Date
+  ): Promise<"renewed" | "pending" | "failed" | "paused" | "ended"> {
+    if (status === "pending") {
+      record.pendingChargeId = chargeId;
+      await store.saveSubscription(record);
+      return "pending";
+    }
+
+    const payment: PaymentTransactionEvent | null = chargeId
+      ? {
+          ...eventBase(record, `billing.charge_${status}`),
+          type: status === "succeeded" ? "payment.succeeded" : "payment.failed",
+          paymentId: chargeId,
+          subscriptionId: record.id,
+          amount,
+          currency: plan.currency,
+        }
+      : null;
+
+    let outcome: "renewed" | "failed" | "paused" | "ended" = "renewed";
+    if (status === "succeeded") {
+      await renew(record, plan);
+    } else {
+      outcome = await recordFailure(record, plan, error, now);
+    }
+    if (payment) {
+      await emit(payment);
+    }
+    return outcome;
+  }
+
+  const runDueBillings: TapBilling["runDueBillings"] = async (
+    now = new Date()
+  ) => {
+    const result: BillingRunResult = {
+      renewed: [],
+      pending: [],
+      failed: [],
+      paused: [],
+      ended: [],
+      errors: [],
+    };
+
+    // One subscription failing to bill does not stop the others
+    for (const record of await store.listDueSubscriptions(now)) {
+      try {
+        result[await billSubscription(record, now)].push(record.id);
+      } catch (error) {
+        result.errors.push({ subscriptionId: record.id, error });
+      }
+    }
+
+    return result;
+  };
+
+  /**
+   * Apply a normalized Tap webhook event. Resolves pending charges and
+   * renews past-due or paused subscriptions whose open payment link was paid.
+   * Other charges, and events without a `subscriptionId`, are ignored.
+   */
+  const handleEvent: TapBilling["handleEvent"] = async (event) => {
+    if (event.type !== "payment.succeeded" && event.type !== "payment.failed") {
+      return;
+    }
+    if (!event.subscriptionId) {
+      return;
+    }
+
+    const record = await store.getSubscription(event.subscriptionId);
+    if (!record) {
+      return;
+    }
+
+    // A failed prorated seat charge is added to the next charge
+    if (record.pendingProration?.chargeId === event.paymentId) {
+      if (event.type === "payment.failed") {
+        record.balance += record.pendingProration.amount;
+      }
+      record.pendingProration = null;
+      await store.saveSubscription(record);
+      return;
+    }
+
+    const plan = await requirePlan(record.planId);
+    const pending = record.pendingChargeId === event.paymentId;
+
+    if (event.type === "payment.succeeded") {
+      const link = record.paymentLinks.find(
+        (paymentLink) => paymentLink.chargeId === event.paymentId
+      );
+      if (
+        pending ||
+        (link?.status === "open" &&
+          (record.status === "past_due" || record.status === "paused"))
+      ) {
+        await renew(record, plan);
+      } else if (link?.status === "superseded") {
+        await dunning.onSupersededPayment?.(record, event);
+      }
+      return;
+    }
+
+    if (pending) {
+      await recordFailure(
+        record,
+        plan,
+        new PaymentError(`Tap charge ${event.paymentId} failed`, {
+          provider: "tap",
+          raw: event.raw,
+        }),
+        new Date()
+      );
+    }
+  };
+
+  return {
+    createSubscription,
+    cancelSubscription,
+    setSubscriptionSeats,
+    getSubscription,
+    listSubscriptions,
+    runDueBillings,
+    handleEvent,
+  };
+}
+
+// ============================================
+// In-Memory Store
+// ============================================
+
+/**
+ * Create an in-memory billing store, optionally seeded with plans or with the
+ * recurring prices of a Tap price catalog.
+ * Records are per process and lost on restart; use it for tests and local
+ * development.
+ */
+export function createMemoryBillingStore(
+  plans: TapPlan[] | TapPriceCatalog = []
+): TapBillingStore {
+  const planList = Array.isArray(plans)
+    ? plans
+    : Object.entries(plans).flatMap(([id, price]) =>
+        price.interval ? [{ ...price, id, interval: price.interval }] : []
+      );
+  const planMap = new Map(planList.map((plan) => [plan.id, { ...plan }]));
+  const subscriptions = new Map<string, TapSubscription>();
+
+  function isDue(record: TapSubscription, now: Date): boolean {
+    if (record.status === "past_due") {
+      return !!record.nextRetryAt && record.nextRetryAt <= now;
+    }
+    return (
+      (record.status === "active" || record.status === "trialing") &&
+      record.currentPeriodEnd <= now
+    );
+  }
+
+  return {
+    async getPlan(id) {
+      const plan = planMap.get(id);
+      return plan ? { ...plan } : null;
+    },
+    async savePlan(plan) {
+      planMap.set(plan.id, { ...plan });
+    },
+    async getSubscription(id) {
+      const record = subscriptions.get(id);
+      return record ? { ...record } : null;
+    },
+    async saveSubscription(subscription) {
+      subscriptions.set(subscription.id, { ...subscription });
+    },
+    async listSubscriptions(customerId) {
+      return [...subscriptions.values()]
+        .filter((record) => record.customerId === customerId)
+        .map((record) => ({ ...record }));
+    },
+    async listDueSubscriptions(now) {
+      return [...subscriptions.values()]
+        .filter((record) => isDue(record, now))
+        .map((record) => ({ ...record }));
+    },
+  };
+}
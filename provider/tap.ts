@@ -1,18 +1,83 @@
 import type {
+  CancelSubscription,
+  CheckoutSession,
+  CheckoutSessionStatus,
   CreateCheckoutLink,
+  CreateCheckoutSession,
+  CreateCustomer,
   CreateCustomerPortalLink,
-  WebhookHandler,
+  CreateDiscount,
+  CreateRefund,
+  CreateWebhookHandler,
+  Customer,
+  FindCustomerByEmail,
+  GetCheckoutSession,
+  GetCustomer,
+  GetSubscription,
+  ListDiscounts,
+  ListRefunds,
+  ListSubscriptions,
+  Money,
+  PaymentEvent,
+  PaymentProvider,
+  ProviderCapabilities,
+  ProviderOptions,
+  Refund,
+  RefundStatus,
+  SetSubscriptionSeats,
+  UpdateCustomer,
 } from "../types";
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  ProviderUnsupportedError,
+  createApiError,
+  readErrorBody,
+  type PaymentError,
+} from "../errors";
+import { createTransport } from "../transport";
+import { assertCheckoutCapabilities, checkoutItems } from "../checkout";
+import {
+  currencyDecimals,
+  fromMinorUnits,
+  money,
+  toMinorUnits,
+} from "../money";
+import { modeFromKeyPrefix, readEnv, resolveMode } from "../config";
+import * as schema from "../schema";
+import {
+  bodyDigest,
+  buildMetadata,
+  invalidPayloadResponse,
+  readMetadataIds,
+  respondToEvent,
+  safeEqual,
+  tapHashString,
+} from "../webhook";
 
 const TAP_API_URL = "https://api.tap.company/v2";
 
-function getTapSecretKey(): string {
-  const secretKey = process.env.TAP_SECRET_KEY;
-  if (!secretKey) {
-    throw new Error("Missing env variable TAP_SECRET_KEY");
-  }
-  return secretKey;
-}
+const TAP_KEY_PREFIXES = { test: ["sk_test_"], live: ["sk_live_"] };
+
+// Subscriptions are billed by the engine in ./tap-billing
+const TAP_CAPABILITIES: ProviderCapabilities = {
+  customerPortal: false,
+  trials: false,
+  seats: true,
+  customerId: false,
+  email: true,
+  name: true,
+  multiItem: true,
+  discountCodes: false,
+  promotionCodes: false,
+  subscriptions: false,
+  listSubscriptions: false,
+  cancelImmediately: false,
+  seatUpdates: false,
+  customerWrites: true,
+  refunds: true,
+  discounts: false,
+};
 
 // ============================================
 // Tap-Specific Types for Subscription Support
@@ -38,10 +103,10 @@ export type ChargeCardParams = {
   cardId: string;
   /** Payment Agreement ID from saved card */
   paymentAgreementId: string;
-  /** Amount to charge */
-  amount: number;
-  /** Currency code (e.g., "USD", "SAR", "KWD") */
-  currency: string;
+  /** Amount to charge, e.g. `{ amount: 2999, currency: "USD" }` */
+  amount: Money | number;
+  /** @deprecated Pass `amount` as `Money`; only used with a decimal amount */
+  currency?: string;
   /** Description of the charge */
   description?: string;
   /** Metadata for your records */
@@ -52,10 +117,10 @@ export type ChargeCardParams = {
  * Parameters for creating a charge.
  */
 export type CreateChargeParams = {
-  /** Amount to charge */
-  amount: number;
-  /** Currency code */
-  currency: string;
+  /** Amount to charge, e.g. `{ amount: 2999, currency: "USD" }` */
+  amount: Money | number;
+  /** @deprecated Pass `amount` as `Money`; only used with a decimal amount */
+  currency?: string;
   /** Customer email */
   email?: string;
   /** Customer name */
@@ -70,254 +135,114 @@ export type CreateChargeParams = {
   metadata?: Record<string, string>;
 };
 
-// ============================================
-// Core Provider Methods
-// ============================================
-
-export const createCheckoutLink: CreateCheckoutLink = async (params) => {
-  const secretKey = getTapSecretKey();
-  const {
-    type,
-    productId,
-    redirectUrl,
-    email,
-    name,
-    organizationId,
-    userId,
-    seats,
-  } = params;
-
-  const metadata: Record<string, string> = {};
-  if (organizationId) metadata.organization_id = organizationId;
-  if (userId) metadata.user_id = userId;
-  metadata.product_id = productId;
-  metadata.quantity = String(seats ?? 1);
-  metadata.type = type;
-
-  // Use Charges API for both subscription and one-time
-  // For subscriptions, enable save_card to store payment method
-  const response = await fetch(`${TAP_API_URL}/charges`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${secretKey}`,
-      "Content-Type": "application/json",
+/**
+ * Map a Tap error response onto a typed payment error.
+ */
+async function tapError(response: Response): Promise<PaymentError> {
+  const body = await readErrorBody(response);
+  const errors = (
+    body as { errors?: { code?: string; description?: string }[] }
+  )?.errors;
+  return createApiError(
+    "tap",
+    "Tap",
+    response.status,
+    {
+      message: errors?.map((error) => error.description).join("; "),
+      code: errors?.[0]?.code,
     },
-    body: JSON.stringify({
-      amount: 0, // Set your amount here based on pricing
-      currency: "USD",
-      save_card: type === "subscription", // Enable for subscriptions
-      customer: {
-        email,
-        first_name: name?.split(" ")[0] ?? "",
-        last_name: name?.split(" ").slice(1).join(" ") ?? "",
-      },
-      source: {
-        id: "src_all", // Accept all payment methods
-      },
-      redirect: {
-        url: redirectUrl ?? "",
-      },
-      post: {
-        url: redirectUrl ?? "",
-      },
-      metadata,
-      reference: {
-        transaction: productId,
-        order: `${type}_${Date.now()}`,
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Tap API error: ${JSON.stringify(error)}`);
-  }
+    body
+  );
+}
 
-  const result = (await response.json()) as {
-    transaction?: { url: string };
-  };
-  return result.transaction?.url ?? null;
+/**
+ * Parameters for revoking a payment agreement.
+ */
+export type RevokePaymentAgreementParams = {
+  /** Customer ID from saved card */
+  customerId: string;
+  /** Card ID from saved card */
+  cardId: string;
 };
 
-export const createCustomerPortalLink: CreateCustomerPortalLink = async (
-  _params
-) => {
-  // Tap doesn't have a built-in customer portal
-  throw new Error(
-    "Tap Payments does not have a built-in customer portal. Build your own billing management page using the subscription helpers."
-  );
+/**
+ * Parameters for listing a customer's charges.
+ */
+export type ListChargesParams = {
+  /** Customer ID from saved card */
+  customerId: string;
+  /** Only list charges created at or after this time */
+  createdAfter: Date;
 };
 
-// ============================================
-// Subscription Helpers (Tap-Specific)
-// ============================================
-
 /**
- * Create a charge with optional card saving.
- * Use this for initial subscription payments or one-time charges.
- *
- * @example
- * ```ts
- * import { createCharge } from "@xyz/payment/providers/tap";
- *
- * const result = await createCharge({
- *   amount: 29.99,
- *   currency: "USD",
- *   email: "user@example.com",
- *   saveCard: true, // Save for subscription
- *   redirectUrl: "https://example.com/success",
- * });
- * ```
+ * Billing interval of a recurring price.
  */
-export async function createCharge(params: CreateChargeParams): Promise<{
-  chargeId: string;
-  url: string | null;
-}> {
-  const secretKey = getTapSecretKey();
-  const { amount, currency, email, name, saveCard, redirectUrl, description, metadata } =
-    params;
-
-  const response = await fetch(`${TAP_API_URL}/charges`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${secretKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      amount,
-      currency,
-      save_card: saveCard ?? false,
-      customer: {
-        email,
-        first_name: name?.split(" ")[0] ?? "",
-        last_name: name?.split(" ").slice(1).join(" ") ?? "",
-      },
-      source: {
-        id: "src_all",
-      },
-      redirect: {
-        url: redirectUrl ?? "",
-      },
-      post: {
-        url: redirectUrl ?? "",
-      },
-      description,
-      metadata,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Tap Charge API error: ${JSON.stringify(error)}`);
-  }
-
-  const result = (await response.json()) as {
-    id: string;
-    transaction?: { url: string };
-  };
-
-  return {
-    chargeId: result.id,
-    url: result.transaction?.url ?? null,
-  };
-}
+export type BillingInterval = "day" | "week" | "month" | "year";
 
 /**
- * Charge a saved card for recurring subscription payments.
- * Use this in a cron job or scheduler to bill customers periodically.
- *
- * @example
- * ```ts
- * import { chargeCard } from "@xyz/payment/providers/tap";
- *
- * // In your scheduled billing job:
- * await chargeCard({
- *   customerId: "cus_xxx",
- *   cardId: "card_xxx",
- *   paymentAgreementId: "pa_xxx",
- *   amount: 9.99,
- *   currency: "USD",
- *   description: "Monthly subscription",
- * });
- * ```
+ * Price of a product in the Tap price catalog.
  */
-export async function chargeCard(params: ChargeCardParams): Promise<{
-  chargeId: string;
-  status: string;
-}> {
-  const secretKey = getTapSecretKey();
-  const {
-    customerId,
-    cardId,
-    paymentAgreementId,
-    amount,
-    currency,
-    description,
-    metadata,
-  } = params;
-
-  // First, create a token from the saved card
-  const tokenResponse = await fetch(`${TAP_API_URL}/tokens`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${secretKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      saved_card: {
-        card_id: cardId,
-        customer_id: customerId,
-      },
-    }),
-  });
-
-  if (!tokenResponse.ok) {
-    const error = await tokenResponse.json();
-    throw new Error(`Tap Token API error: ${JSON.stringify(error)}`);
-  }
-
-  const tokenResult = (await tokenResponse.json()) as { id: string };
+export type TapPrice = {
+  /** Price per seat in the currency's smallest unit */
+  amount: number;
+  /** Currency code (e.g., "USD", "SAR", "KWD") */
+  currency: string;
+  /** Billing interval; omit for one-time products */
+  interval?: BillingInterval;
+  /** Number of intervals per billing period (default: 1) */
+  intervalCount?: number;
+};
 
-  // Create a merchant-initiated charge (no 3DS required)
-  const chargeResponse = await fetch(`${TAP_API_URL}/charges`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${secretKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      amount,
-      currency,
-      customer_initiated: false, // Merchant-initiated recurring charge
-      source: {
-        id: tokenResult.id,
-      },
-      customer: {
-        id: customerId,
-      },
-      payment_agreement: {
-        id: paymentAgreementId,
-      },
-      description: description ?? "Recurring payment",
-      metadata,
-    }),
-  });
+/**
+ * Prices by product ID. Tap has no product catalog of its own, so checkout
+ * amounts are looked up here.
+ */
+export type TapPriceCatalog = Record<string, TapPrice>;
 
-  if (!chargeResponse.ok) {
-    const error = await chargeResponse.json();
-    throw new Error(`Tap Charge API error: ${JSON.stringify(error)}`);
-  }
+/**
+ * Tap provider configuration.
+ * Unset credentials fall back to environment variables.
+ */
+export type TapConfig = ProviderOptions & {
+  /** Secret API key (default: `TAP_SECRET_KEY`) */
+  secretKey?: string;
+  /** Webhook signing secret (default: `TAP_WEBHOOK_SECRET`) */
+  webhookSecret?: string;
+  /**
+   * Price catalog, or the path of a JSON file containing one
+   * (default: the file at `TAP_PRICES_FILE`)
+   */
+  prices?: TapPriceCatalog | string;
+};
 
-  const chargeResult = (await chargeResponse.json()) as {
-    id: string;
+/**
+ * Tap provider instance with the Tap-specific charge helpers.
+ */
+export type TapProvider = PaymentProvider & {
+  createCharge: (params: CreateChargeParams) => Promise<{
+    chargeId: string;
+    url: string | null;
+  }>;
+  chargeCard: (params: ChargeCardParams) => Promise<{
+    chargeId: string;
     status: string;
-  };
+  }>;
+  revokePaymentAgreement: (
+    params: RevokePaymentAgreementParams
+  ) => Promise<void>;
+  listCharges: (params: ListChargesParams) => Promise<
+    {
+      chargeId: string;
+      status: string;
+      metadata: Record<string, string>;
+    }[]
+  >;
+};
 
-  return {
-    chargeId: chargeResult.id,
-    status: chargeResult.status,
-  };
-}
+// ============================================
+// Subscription Helpers (Tap-Specific)
+// ============================================
 
 /**
  * Parse webhook to extract saved card details for subscriptions.
@@ -344,73 +269,1230 @@ export function extractSavedCardFromWebhook(
 }
 
 // ============================================
-// Webhook Handler
+// Schemas
+// ============================================
+
+const metadataSchema = schema.optional(schema.record(schema.string));
+
+// Checkouts, saved-card charges and webhook events are all charges
+const chargeSchema = schema.object({
+  id: schema.string,
+  status: schema.string,
+  amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  customer: schema.optional(
+    schema.object({ id: schema.optional(schema.string) })
+  ),
+  metadata: metadataSchema,
+  transaction: schema.optional(
+    schema.object({
+      url: schema.optional(schema.string),
+      created: schema.optional(schema.union(schema.string, schema.number)),
+      expiry: schema.optional(
+        schema.object({
+          period: schema.optional(schema.number),
+          type: schema.optional(schema.string),
+        })
+      ),
+    })
+  ),
+});
+
+const customerSchema = schema.object({
+  id: schema.string,
+  email: schema.optional(schema.string),
+  first_name: schema.optional(schema.string),
+  last_name: schema.optional(schema.string),
+  metadata: metadataSchema,
+});
+
+const refundSchema = schema.object({
+  id: schema.string,
+  charge_id: schema.optional(schema.string),
+  amount: schema.optional(schema.number),
+  currency: schema.optional(schema.string),
+  status: schema.optional(schema.string),
+  reason: schema.optional(schema.string),
+  created: schema.optional(schema.number),
+});
+
+const eventSchema = schema.object({
+  event: schema.string,
+  data: schema.object({
+    id: schema.optional(schema.string),
+    currency: schema.optional(schema.string),
+    customer: schema.optional(
+      schema.object({ id: schema.optional(schema.string) })
+    ),
+    metadata: metadataSchema,
+  }),
+});
+
+type TapEvent = schema.Infer<typeof eventSchema>;
+
+/**
+ * Check the data of a Tap event against a schema.
+ */
+function eventData<T>(dataSchema: schema.Schema<T>, event: TapEvent): T {
+  return schema.parse(
+    dataSchema,
+    event.data,
+    "tap",
+    "Tap webhook payload",
+    "data"
+  );
+}
+
+// ============================================
+// Webhook Events
 // ============================================
 
-import { WebhookVerifier } from "@xyz/webhook-verifier";
-import { tap as tapConfig } from "@xyz/webhook-verifier/configs";
+/**
+ * Convert a decimal amount read from Tap into the currency's smallest unit.
+ */
+function readAmount(amount: unknown, currency: string | null): number | null {
+  if (typeof amount !== "number") return null;
+  return Math.round(amount * 10 ** currencyDecimals(currency ?? "USD"));
+}
 
 /**
- * Create a Tap webhook verifier instance.
- * Uses the predefined Tap configuration from @xyz/webhook-verifier.
+ * Convert an amount parameter into Tap's decimal wire format. Plain numbers
+ * are the deprecated decimal form and are checked against the currency's
+ * precision.
  */
-function getTapVerifier(): WebhookVerifier {
-  const webhookSecret = process.env.TAP_WEBHOOK_SECRET;
-  if (!webhookSecret) {
-    throw new Error("Missing TAP_WEBHOOK_SECRET");
+function toTapAmount(
+  amount: Money | number,
+  currency: string | undefined
+): { amount: number; currency: string } {
+  if (typeof amount !== "number") {
+    const value = money(amount.amount, amount.currency, "tap");
+    return {
+      amount: fromMinorUnits(value.amount, value.currency, "tap"),
+      currency: value.currency,
+    };
   }
-  return new WebhookVerifier({
-    ...tapConfig,
-    secretKey: webhookSecret,
-  });
+  if (!currency) {
+    throw new InvalidRequestError(
+      "Pass amount as Money, e.g. { amount: 2999, currency: \"USD\" }",
+      { provider: "tap", code: "invalid_amount" }
+    );
+  }
+  toMinorUnits(amount, currency, "tap");
+  return { amount, currency };
 }
 
-export const webhookHandler: WebhookHandler = async (req) => {
-  if (!req.body) {
-    return new Response("Invalid request", { status: 400 });
+/**
+ * Map a Tap event onto the normalized event model.
+ * Charges created by `createCheckoutLink` carry a `product_id` in metadata
+ * and are reported as completed checkouts; a `subscription_id` in metadata
+ * links other charges to a subscription.
+ */
+function toPaymentEvent(event: TapEvent): PaymentEvent | null {
+  const metadata = event.data.metadata;
+  const currency = event.data.currency ?? null;
+  const base = {
+    provider: "tap",
+    id: event.data.id ?? null,
+    providerEventType: event.event,
+    customerId: event.data.customer?.id ?? null,
+    ...readMetadataIds(metadata),
+    raw: event,
+  };
+
+  switch (event.event) {
+    case "CHARGE.CAPTURED": {
+      const data = eventData(chargeSchema, event);
+      if (metadata?.product_id) {
+        return {
+          ...base,
+          type: "checkout.completed",
+          checkoutId: data.id,
+          subscriptionId: null,
+          productId: metadata.product_id,
+          amount: readAmount(data.amount, currency),
+          currency,
+        };
+      }
+      return {
+        ...base,
+        type: "payment.succeeded",
+        paymentId: data.id,
+        subscriptionId: metadata?.subscription_id ?? null,
+        amount: readAmount(data.amount, currency),
+        currency,
+      };
+    }
+    case "CHARGE.FAILED": {
+      const data = eventData(chargeSchema, event);
+      return {
+        ...base,
+        type: "payment.failed",
+        paymentId: data.id,
+        subscriptionId: metadata?.subscription_id ?? null,
+        amount: readAmount(data.amount, currency),
+        currency,
+      };
+    }
+    case "REFUND.SUCCEEDED":
+    case "REFUND.FAILED": {
+      const data = eventData(refundSchema, event);
+      const succeeded = event.event === "REFUND.SUCCEEDED";
+      return {
+        ...base,
+        type: succeeded ? "refund.created" : "refund.updated",
+        refundId: data.id,
+        paymentId: data.charge_id ?? null,
+        amount: readAmount(data.amount, currency),
+        currency,
+        status: succeeded ? "succeeded" : "failed",
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// Checkout Sessions
+// ============================================
+
+// A Tap checkout is a charge, so its status is the charge status
+const CHECKOUT_STATUSES: Record<string, CheckoutSessionStatus> = {
+  INITIATED: "open",
+  IN_PROGRESS: "processing",
+  AUTHORIZED: "processing",
+  CAPTURED: "paid",
+  ABANDONED: "expired",
+  CANCELLED: "expired",
+  TIMEDOUT: "expired",
+  FAILED: "failed",
+  DECLINED: "failed",
+  RESTRICTED: "failed",
+  VOID: "failed",
+};
+
+const EXPIRY_UNITS_MS: Record<string, number> = {
+  MINUTE: 60 * 1000,
+  HOUR: 60 * 60 * 1000,
+  DAY: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Map a Tap charge onto the normalized checkout session model.
+ */
+function toCheckoutSession(
+  data: schema.Infer<typeof chargeSchema>
+): CheckoutSession {
+  const transaction = data.transaction;
+  const created = Number(transaction?.created);
+  const unit = EXPIRY_UNITS_MS[transaction?.expiry?.type ?? ""];
+  const period = transaction?.expiry?.period;
+  return {
+    provider: "tap",
+    id: data.id,
+    url: transaction?.url ?? null,
+    status: CHECKOUT_STATUSES[data.status] ?? "failed",
+    expiresAt:
+      created && unit && period ? new Date(created + period * unit) : null,
+    raw: data,
+  };
+}
+
+// ============================================
+// Customers
+// ============================================
+
+/**
+ * Map a Tap customer object onto the normalized customer model.
+ */
+function toCustomer(data: schema.Infer<typeof customerSchema>): Customer {
+  const metadata = data.metadata ?? {};
+  const name = [data.first_name, data.last_name].filter(Boolean).join(" ");
+  return {
+    provider: "tap",
+    id: data.id,
+    email: data.email ?? null,
+    name: name || null,
+    ...readMetadataIds(metadata),
+    metadata,
+    raw: data,
+  };
+}
+
+// ============================================
+// Refunds
+// ============================================
+
+const REFUND_STATUSES: Record<string, RefundStatus> = {
+  INITIATED: "pending",
+  PENDING: "pending",
+  IN_PROGRESS: "pending",
+  REFUNDED: "succeeded",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+  DECLINED: "failed",
+  CANCELLED: "canceled",
+};
+
+/**
+ * Map a Tap refund object onto the normalized refund model.
+ */
+function toRefund(data: schema.Infer<typeof refundSchema>): Refund {
+  const currency = data.currency ?? null;
+  return {
+    provider: "tap",
+    id: data.id,
+    paymentId: data.charge_id ?? null,
+    amount: readAmount(data.amount, currency),
+    currency,
+    status: REFUND_STATUSES[data.status ?? ""] ?? "pending",
+    reason: data.reason ?? null,
+    createdAt:
+      typeof data.created === "number" ? new Date(data.created) : null,
+    raw: data,
+  };
+}
+
+// ============================================
+// Price Catalog
+// ============================================
+
+const BILLING_INTERVALS = ["day", "week", "month", "year"];
+
+/**
+ * Check a price catalog, e.g. one read from a JSON file.
+ */
+function parsePriceCatalog(value: unknown, source: string): TapPriceCatalog {
+  const invalid = (reason: string) =>
+    new ConfigurationError(`Invalid Tap price catalog ${source}: ${reason}`, {
+      provider: "tap",
+    });
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw invalid("expected an object of prices by product ID");
+  }
+
+  for (const [productId, price] of Object.entries(value)) {
+    const { amount, currency, interval, intervalCount } = (price ??
+      {}) as Record<string, unknown>;
+    if (!Number.isInteger(amount) || (amount as number) < 0) {
+      throw invalid(`${productId}.amount must be a non-negative integer`);
+    }
+    if (typeof currency !== "string" || currency.length !== 3) {
+      throw invalid(`${productId}.currency must be a 3-letter currency code`);
+    }
+    if (
+      interval !== undefined &&
+      !BILLING_INTERVALS.includes(interval as string)
+    ) {
+      throw invalid(`${productId}.interval must be day, week, month or year`);
+    }
+    if (
+      intervalCount !== undefined &&
+      (!Number.isInteger(intervalCount) || (intervalCount as number) < 1)
+    ) {
+      throw invalid(`${productId}.intervalCount must be a positive integer`);
+    }
+  }
+
+  return value as TapPriceCatalog;
+}
+
+/**
+ * Read a price catalog from a JSON file. `node:fs` is imported here, so
+ * runtimes without a file system can load the module and pass the catalog
+ * as an object.
+ */
+async function loadPriceCatalog(path: string): Promise<TapPriceCatalog> {
+  let text: string;
+  try {
+    const { readFile } = await import("node:fs/promises");
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read Tap price catalog ${path}`, {
+      provider: "tap",
+      raw: error,
+    });
   }
 
   try {
-    const body = await req.text();
-    const headers = Object.fromEntries(req.headers.entries());
+    return parsePriceCatalog(JSON.parse(text), path);
+  } catch (error) {
+    if (error instanceof ConfigurationError) throw error;
+    throw new ConfigurationError(`Tap price catalog ${path} is not JSON`, {
+      provider: "tap",
+      raw: error,
+    });
+  }
+}
+
+// ============================================
+// Provider Factory
+// ============================================
+
+/**
+ * Create an isolated Tap provider instance.
+ *
+ * @example
+ * ```ts
+ * import { createTapProvider } from "@xyz/payment/providers/tap";
+ *
+ * const tap = createTapProvider({ secretKey: workspace.tapKey });
+ * ```
+ */
+export function createTapProvider(config: TapConfig = {}): TapProvider {
+  // Tap has no idempotency keys, so charges are only retried on 429
+  const request = createTransport(config, { provider: "tap" });
+
+  function getTapSecretKey(): string {
+    const secretKey = config.secretKey ?? readEnv("TAP_SECRET_KEY");
+    if (!secretKey) {
+      throw new ConfigurationError("Missing env variable TAP_SECRET_KEY", {
+        provider: "tap",
+      });
+    }
+    // Tap serves both modes from one URL; the key decides the mode
+    resolveMode("tap", config, modeFromKeyPrefix(secretKey, TAP_KEY_PREFIXES));
+    return secretKey;
+  }
+
+  const apiUrl = config.baseUrl ?? TAP_API_URL;
+
+  let priceCatalog: Promise<TapPriceCatalog> | undefined;
+
+  /**
+   * Look up the price of a product. The catalog file is read once, on first
+   * use.
+   */
+  async function getPrice(productId: string): Promise<TapPrice> {
+    if (!priceCatalog) {
+      const prices = config.prices ?? readEnv("TAP_PRICES_FILE");
+      if (!prices) {
+        throw new ConfigurationError(
+          "Missing Tap price catalog: pass `prices` to createTapProvider() or set TAP_PRICES_FILE",
+          { provider: "tap" }
+        );
+      }
+      priceCatalog =
+        typeof prices === "string"
+          ? loadPriceCatalog(prices)
+          : Promise.resolve(parsePriceCatalog(prices, "in config"));
+      // Let a missing or broken file be fixed without a restart
+      priceCatalog.catch(() => {
+        priceCatalog = undefined;
+      });
+    }
+
+    const catalog = await priceCatalog;
+    if (!Object.prototype.hasOwnProperty.call(catalog, productId)) {
+      throw new InvalidRequestError(
+        `Unknown Tap product: ${productId}. Add it to the price catalog.`,
+        { provider: "tap", code: "unknown_product" }
+      );
+    }
+    return catalog[productId];
+  }
+
+  /**
+   * Tap charges a single amount, so the items are priced through the
+   * catalog and added up.
+   */
+  const createCheckoutSession: CreateCheckoutSession = async (params) => {
+    if (config.strict) {
+      assertCheckoutCapabilities(params, TAP_CAPABILITIES, "tap", "Tap");
+    }
+    const secretKey = getTapSecretKey();
+    const { type, redirectUrl, email, name, organizationId, userId } = params;
+    if (params.discountCode || params.allowPromotionCodes) {
+      throw new ProviderUnsupportedError(
+        "Tap Payments has no discount codes. Charge a discounted price from your price catalog instead.",
+        { provider: "tap" }
+      );
+    }
+    const items = checkoutItems(params, "tap");
+    const [{ productId, quantity }] = items;
+
+    const metadata: Record<string, string> = {};
+    if (organizationId) metadata.organization_id = organizationId;
+    if (userId) metadata.user_id = userId;
+    metadata.product_id = productId;
+    metadata.quantity = String(quantity);
+    if (items.length > 1) {
+      metadata.items = items
+        .map((item) => `${item.productId}:${item.quantity}`)
+        .join(",");
+    }
+    metadata.type = type;
+
+    const prices = await Promise.all(
+      items.map((item) => getPrice(item.productId))
+    );
+    const currency = prices[0].currency;
+    if (prices.some((price) => price.currency !== currency)) {
+      throw new InvalidRequestError(
+        "All products of a Tap checkout must have the same currency",
+        { provider: "tap", code: "currency_mismatch" }
+      );
+    }
+    if (type === "subscription" && !prices.some((price) => price.interval)) {
+      throw new InvalidRequestError(
+        `Tap product ${productId} is a one-time price and cannot be used for a subscription checkout`,
+        { provider: "tap", code: "one_time_price" }
+      );
+    }
+    const total = items.reduce(
+      (sum, item, index) => sum + prices[index].amount * item.quantity,
+      0
+    );
+
+    // Use Charges API for both subscription and one-time
+    // For subscriptions, enable save_card to store payment method
+    const response = await request(`${apiUrl}/charges`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount: fromMinorUnits(total, currency, "tap"),
+        currency,
+        save_card: type === "subscription", // Enable for subscriptions
+        customer: {
+          email,
+          first_name: name?.split(" ")[0] ?? "",
+          last_name: name?.split(" ").slice(1).join(" ") ?? "",
+        },
+        source: {
+          id: "src_all", // Accept all payment methods
+        },
+        redirect: {
+          url: redirectUrl ?? "",
+        },
+        post: {
+          url: redirectUrl ?? "",
+        },
+        metadata,
+        reference: {
+          transaction: productId,
+          order: `${type}_${Date.now()}`,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await tapError(response);
+    }
 
-    // Verify webhook signature using @xyz/webhook-verifier
-    const verifier = getTapVerifier();
-    const payload = JSON.parse(body);
-    const result = verifier.verify(payload, headers);
+    return toCheckoutSession(
+      await schema.readJson(response, chargeSchema, "tap", "Tap")
+    );
+  };
+
+  const createCheckoutLink: CreateCheckoutLink = async (params) => {
+    const session = await createCheckoutSession(params);
+    return session.url;
+  };
+
+  const getCheckoutSession: GetCheckoutSession = async (id) => {
+    const secretKey = getTapSecretKey();
 
-    if (!result.isValid) {
-      return new Response(`Invalid signature: ${result.error}`, { status: 401 });
+    const response = await request(
+      `${apiUrl}/charges/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await tapError(response);
     }
 
-    const event = result.data as {
-      event: string;
-      data: Record<string, unknown>;
+    return toCheckoutSession(
+      await schema.readJson(response, chargeSchema, "tap", "Tap")
+    );
+  };
+
+  const createCustomerPortalLink: CreateCustomerPortalLink = async (
+    _params
+  ) => {
+    // Tap doesn't have a built-in customer portal
+    throw new ProviderUnsupportedError(
+      "Tap Payments does not have a built-in customer portal. Build your own billing management page using the subscription helpers.",
+      { provider: "tap" }
+    );
+  };
+
+  async function createCharge(params: CreateChargeParams): Promise<{
+    chargeId: string;
+    url: string | null;
+  }> {
+    const secretKey = getTapSecretKey();
+    const { amount, currency } = toTapAmount(params.amount, params.currency);
+    const {
+      email,
+      name,
+      saveCard,
+      redirectUrl,
+      description,
+      metadata,
+    } = params;
+
+    const response = await request(`${apiUrl}/charges`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount,
+        currency,
+        save_card: saveCard ?? false,
+        customer: {
+          email,
+          first_name: name?.split(" ")[0] ?? "",
+          last_name: name?.split(" ").slice(1).join(" ") ?? "",
+        },
+        source: {
+          id: "src_all",
+        },
+        redirect: {
+          url: redirectUrl ?? "",
+        },
+        post: {
+          url: redirectUrl ?? "",
+        },
+        description,
+        metadata,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await tapError(response);
+    }
+
+    const result = await schema.readJson(
+      response,
+      chargeSchema,
+      "tap",
+      "Tap"
+    );
+
+    return {
+      chargeId: result.id,
+      url: result.transaction?.url ?? null,
     };
+  }
 
-    // Handle webhook events
-    // For subscriptions, listen for CHARGE.CAPTURED to get saved card details
-    switch (event.event) {
-      case "CHARGE.CAPTURED": {
-        // Extract saved card details if save_card was enabled
-        const savedCard = extractSavedCardFromWebhook(event.data);
-        if (savedCard) {
-          // Store these in your database for future recurring charges:
-          // savedCard.customerId, savedCard.cardId, savedCard.paymentAgreementId
-        }
-        break;
+  async function chargeCard(params: ChargeCardParams): Promise<{
+    chargeId: string;
+    status: string;
+  }> {
+    const secretKey = getTapSecretKey();
+    const { amount, currency } = toTapAmount(params.amount, params.currency);
+    const { customerId, cardId, paymentAgreementId, description, metadata } =
+      params;
+
+    // First, create a token from the saved card
+    // Creating a token has no side effects, so it is safe to retry
+    const tokenResponse = await request(`${apiUrl}/tokens`, {
+      method: "POST",
+      retryable: true,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        saved_card: {
+          card_id: cardId,
+          customer_id: customerId,
+        },
+      }),
+    });
+
+    if (!tokenResponse.ok) {
+      throw await tapError(tokenResponse);
+    }
+
+    const tokenResult = await schema.readJson(
+      tokenResponse,
+      schema.object({ id: schema.string }),
+      "tap",
+      "Tap"
+    );
+
+    // Create a merchant-initiated charge (no 3DS required)
+    const chargeResponse = await request(`${apiUrl}/charges`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount,
+        currency,
+        customer_initiated: false, // Merchant-initiated recurring charge
+        source: {
+          id: tokenResult.id,
+        },
+        customer: {
+          id: customerId,
+        },
+        payment_agreement: {
+          id: paymentAgreementId,
+        },
+        description: description ?? "Recurring payment",
+        metadata,
+      }),
+    });
+
+    if (!chargeResponse.ok) {
+      throw await tapError(chargeResponse);
+    }
+
+    const chargeResult = await schema.readJson(
+      chargeResponse,
+      chargeSchema,
+      "tap",
+      "Tap"
+    );
+
+    return {
+      chargeId: chargeResult.id,
+      status: chargeResult.status,
+    };
+  }
+
+  /**
+   * Tap has no subscription objects: a subscription is a saved card plus the
+   * payment agreement that authorizes charging it.
+   */
+  const cancelSubscription: CancelSubscription = async (_id) => {
+    throw new ProviderUnsupportedError(
+      "Tap Payments has no subscription objects. Use createTapBilling() from @xyz/payment/providers/tap-billing, or stop charging the saved card and call revokePaymentAgreement().",
+      { provider: "tap" }
+    );
+  };
+
+  const setSubscriptionSeats: SetSubscriptionSeats = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Tap Payments has no subscription objects. Use createTapBilling() from @xyz/payment/providers/tap-billing, or charge the amount for the new seat count with chargeCard() on the next billing cycle.",
+      { provider: "tap" }
+    );
+  };
+
+  async function revokePaymentAgreement(
+    params: RevokePaymentAgreementParams
+  ): Promise<void> {
+    const secretKey = getTapSecretKey();
+    const { customerId, cardId } = params;
+
+    const response = await request(
+      `${apiUrl}/card/${encodeURIComponent(customerId)}/${encodeURIComponent(cardId)}`,
+      {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${secretKey}` },
       }
-      case "CHARGE.FAILED":
-        // Handle failed charges - implement retry logic or notify customer
-        break;
-      default:
-        // Unhandled event type
-        break;
+    );
+
+    if (!response.ok) {
+      throw await tapError(response);
     }
+  }
+
+  async function listCharges(params: ListChargesParams): Promise<
+    {
+      chargeId: string;
+      status: string;
+      metadata: Record<string, string>;
+    }[]
+  > {
+    const secretKey = getTapSecretKey();
+    const { customerId, createdAfter } = params;
+    const charges: {
+      chargeId: string;
+      status: string;
+      metadata: Record<string, string>;
+    }[] = [];
+    let startingAfter: string | undefined;
+
+    do {
+      const response = await request(`${apiUrl}/charges/list`, {
+        method: "POST",
+        // Listing has no side effects, so it is safe to retry
+        retryable: true,
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          period: {
+            date: { from: createdAfter.getTime(), to: Date.now() },
+          },
+          customers: [customerId],
+          limit: 50,
+          starting_after: startingAfter,
+        }),
+      });
+
+      if (!response.ok) {
+        throw await tapError(response);
+      }
+
+      const page = await schema.readJson(
+        response,
+        schema.object({
+          charges: schema.array(chargeSchema),
+          has_more: schema.optional(schema.boolean),
+        }),
+        "tap",
+        "Tap"
+      );
+      for (const charge of page.charges) {
+        charges.push({
+          chargeId: charge.id,
+          status: charge.status,
+          metadata: charge.metadata ?? {},
+        });
+      }
 
-    return new Response(null, { status: 200 });
-  } catch {
-    return new Response("Invalid webhook payload", { status: 400 });
+      const last = page.charges[page.charges.length - 1];
+      startingAfter = page.has_more && last ? last.id : undefined;
+    } while (startingAfter);
+
+    return charges;
   }
-};
 
+  const getSubscription: GetSubscription = async (_id) => {
+    throw new ProviderUnsupportedError(
+      "Tap Payments has no subscription objects. Use createTapBilling() from @xyz/payment/providers/tap-billing, or read subscription state from your own records of saved cards and charges.",
+      { provider: "tap" }
+    );
+  };
+
+  const listSubscriptions: ListSubscriptions = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Tap Payments has no subscription objects. Use createTapBilling() from @xyz/payment/providers/tap-billing, or read subscription state from your own records of saved cards and charges.",
+      { provider: "tap" }
+    );
+  };
+
+  const createCustomer: CreateCustomer = async (params) => {
+    const secretKey = getTapSecretKey();
+    const { email, name } = params;
+
+    const response = await request(`${apiUrl}/customers`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        email,
+        first_name: name?.split(" ")[0] ?? "",
+        last_name: name?.split(" ").slice(1).join(" ") ?? "",
+        metadata: buildMetadata(params),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await tapError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "tap", "Tap")
+    );
+  };
+
+  const getCustomer: GetCustomer = async (id) => {
+    const secretKey = getTapSecretKey();
+
+    const response = await request(
+      `${apiUrl}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      }
+    );
+
+    if (!response.ok) {
+      throw await tapError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "tap", "Tap")
+    );
+  };
+
+  const updateCustomer: UpdateCustomer = async (params) => {
+    const secretKey = getTapSecretKey();
+    const { id, email, name, organizationId, userId, metadata } = params;
+
+    // Tap replaces the customer on update, so merge onto the current one
+    const current = await getCustomer(id);
+    const hasMetadata = Boolean(organizationId || userId || metadata);
+    const fullName = name ?? current.name ?? "";
+
+    const response = await request(
+      `${apiUrl}/customers/${encodeURIComponent(id)}`,
+      {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          email: email ?? current.email,
+          first_name: fullName.split(" ")[0],
+          last_name: fullName.split(" ").slice(1).join(" "),
+          metadata: hasMetadata
+            ? { ...current.metadata, ...buildMetadata(params) }
+            : current.metadata,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await tapError(response);
+    }
+
+    return toCustomer(
+      await schema.readJson(response, customerSchema, "tap", "Tap")
+    );
+  };
+
+  /**
+   * Tap cannot filter customers by email, so this pages through the list.
+   */
+  const findCustomerByEmail: FindCustomerByEmail = async (email) => {
+    const secretKey = getTapSecretKey();
+    const target = email.toLowerCase();
+    let startingAfter: string | undefined;
+
+    do {
+      const response = await request(`${apiUrl}/customers/list`, {
+        method: "POST",
+        // Listing has no side effects, so it is safe to retry
+        retryable: true,
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ limit: 50, starting_after: startingAfter }),
+      });
+
+      if (!response.ok) {
+        throw await tapError(response);
+      }
+
+      const page = await schema.readJson(
+        response,
+        schema.object({
+          customers: schema.array(customerSchema),
+          has_more: schema.optional(schema.boolean),
+        }),
+        "tap",
+        "Tap"
+      );
+      const match = page.customers.find(
+        (customer) => customer.email?.toLowerCase() === target
+      );
+      if (match) {
+        return toCustomer(match);
+      }
+
+      const last = page.customers[page.customers.length - 1];
+      startingAfter = page.has_more && last ? last.id : undefined;
+    } while (startingAfter);
+
+    return null;
+  };
+
+  const createRefund: CreateRefund = async (params) => {
+    const secretKey = getTapSecretKey();
+    const { paymentId, amount, reason = "requested_by_customer" } = params;
+
+    // Tap needs the amount and currency, so read them from the charge
+    const chargeResponse = await request(
+      `${apiUrl}/charges/${encodeURIComponent(paymentId)}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      }
+    );
+
+    if (!chargeResponse.ok) {
+      throw await tapError(chargeResponse);
+    }
+
+    const charge = await schema.readJson(
+      chargeResponse,
+      schema.object({ amount: schema.number, currency: schema.string }),
+      "tap",
+      "Tap"
+    );
+
+    const response = await request(`${apiUrl}/refunds`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        charge_id: paymentId,
+        amount:
+          amount === undefined
+            ? charge.amount
+            : fromMinorUnits(amount, charge.currency, "tap"),
+        currency: charge.currency,
+        reason,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await tapError(response);
+    }
+
+    return toRefund(
+      await schema.readJson(response, refundSchema, "tap", "Tap")
+    );
+  };
+
+  /**
+   * Tap cannot filter refunds by charge, so this pages through the list.
+   */
+  const listRefunds: ListRefunds = async (params = {}) => {
+    const secretKey = getTapSecretKey();
+    const { paymentId, limit = 100 } = params;
+    const refunds: Refund[] = [];
+    let startingAfter: string | undefined;
+
+    do {
+      const response = await request(`${apiUrl}/refunds/list`, {
+        method: "POST",
+        // Listing has no side effects, so it is safe to retry
+        retryable: true,
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ limit: 50, starting_after: startingAfter }),
+      });
+
+      if (!response.ok) {
+        throw await tapError(response);
+      }
+
+      const page = await schema.readJson(
+        response,
+        schema.object({
+          refunds: schema.array(refundSchema),
+          has_more: schema.optional(schema.boolean),
+        }),
+        "tap",
+        "Tap"
+      );
+      for (const refund of page.refunds) {
+        if (!paymentId || refund.charge_id === paymentId) {
+          refunds.push(toRefund(refund));
+        }
+      }
+
+      const last = page.refunds[page.refunds.length - 1];
+      startingAfter = page.has_more && last ? last.id : undefined;
+    } while (startingAfter && refunds.length < limit);
+
+    return refunds.slice(0, limit);
+  };
+
+  // Tap has no coupons or promotion codes
+  const createDiscount: CreateDiscount = async (_params) => {
+    throw new ProviderUnsupportedError(
+      "Tap Payments has no discounts API. Apply discounts to the amounts in your price catalog instead.",
+      { provider: "tap" }
+    );
+  };
+
+  const listDiscounts: ListDiscounts = async (_params) => {
+    throw new ProviderUnsupportedError("Tap Payments has no discounts API.", {
+      provider: "tap",
+    });
+  };
+
+  /**
+   * Create a Tap webhook handler.
+   * For subscriptions, listen for `checkout.completed` and read the saved card
+   * details with `extractSavedCardFromWebhook(event.raw.data)`.
+   */
+  const createWebhookHandler: CreateWebhookHandler = (options = {}) =>
+    async (req) => {
+      const webhookSecret =
+        config.webhookSecret ?? readEnv("TAP_WEBHOOK_SECRET");
+
+      if (!webhookSecret) {
+        return new Response("Missing TAP_WEBHOOK_SECRET", { status: 401 });
+      }
+
+      if (!req.body) {
+        return new Response("Invalid request", { status: 400 });
+      }
+
+      let verified: unknown;
+      let deliveryId: string;
+      try {
+        const body = await req.text();
+        const signature = req.headers.get("hashstring");
+        verified = JSON.parse(body);
+
+        if (
+          !signature ||
+          !safeEqual(signature, tapHashString(verified, webhookSecret))
+        ) {
+          return new Response("Invalid signature", { status: 401 });
+        }
+
+        deliveryId = bodyDigest(body);
+      } catch {
+        return new Response("Invalid webhook payload", { status: 400 });
+      }
+      let event: PaymentEvent | null;
+      try {
+        const payload = schema.parse(
+          eventSchema,
+          verified,
+          "tap",
+          "Tap webhook payload"
+        );
+        event = toPaymentEvent(payload);
+      } catch (error) {
+        return invalidPayloadResponse(error);
+      }
+
+      return respondToEvent({
+        provider: "tap",
+        deliveryId,
+        event,
+        options,
+        successStatus: 200,
+      });
+    };
+
+  return {
+    capabilities: TAP_CAPABILITIES,
+    createCheckoutLink,
+    createCheckoutSession,
+    getCheckoutSession,
+    createCustomerPortalLink,
+    cancelSubscription,
+    setSubscriptionSeats,
+    getSubscription,
+    listSubscriptions,
+    createCustomer,
+    getCustomer,
+    updateCustomer,
+    findCustomerByEmail,
+    createRefund,
+    listRefunds,
+    createDiscount,
+    listDiscounts,
+    webhookHandler: createWebhookHandler(),
+    createWebhookHandler,
+    createCharge,
+    chargeCard,
+    revokePaymentAgreement,
+    listCharges,
+  };
+}
+
+const defaultProvider = createTapProvider();
+
+export const capabilities = defaultProvider.capabilities;
+export const createCheckoutLink = defaultProvider.createCheckoutLink;
+export const createCheckoutSession = defaultProvider.createCheckoutSession;
+export const getCheckoutSession = defaultProvider.getCheckoutSession;
+export const createCustomerPortalLink =
+  defaultProvider.createCustomerPortalLink;
+export const cancelSubscription = defaultProvider.cancelSubscription;
+export const setSubscriptionSeats = defaultProvider.setSubscriptionSeats;
+export const getSubscription = defaultProvider.getSubscription;
+export const listSubscriptions = defaultProvider.listSubscriptions;
+export const createCustomer = defaultProvider.createCustomer;
+export const getCustomer = defaultProvider.getCustomer;
+export const updateCustomer = defaultProvider.updateCustomer;
+export const findCustomerByEmail = defaultProvider.findCustomerByEmail;
+export const createRefund = defaultProvider.createRefund;
+export const listRefunds = defaultProvider.listRefunds;
+export const createDiscount = defaultProvider.createDiscount;
+export const listDiscounts = defaultProvider.listDiscounts;
+export const webhookHandler = defaultProvider.webhookHandler;
+export const createWebhookHandler = defaultProvider.createWebhookHandler;
+
+/**
+ * Create a charge with optional card saving.
+ * Use this for initial subscription payments or one-time charges.
+ *
+ * @example
+ * ```ts
+ * import { createCharge } from "@xyz/payment/providers/tap";
+ *
+ * const result = await createCharge({
+ *   amount: { amount: 2999, currency: "USD" },
+ *   email: "user@example.com",
+ *   saveCard: true, // Save for subscription
+ *   redirectUrl: "https://example.com/success",
+ * });
+ * ```
+ */
+export const createCharge = defaultProvider.createCharge;
+
+/**
+ * Charge a saved card for recurring subscription payments.
+ * Use this in a cron job or scheduler to bill customers periodically.
+ *
+ * @example
+ * ```ts
+ * import { chargeCard } from "@xyz/payment/providers/tap";
+ *
+ * // In your scheduled billing job:
+ * await chargeCard({
+ *   customerId: "cus_xxx",
+ *   cardId: "card_xxx",
+ *   paymentAgreementId: "pa_xxx",
+ *   amount: { amount: 999, currency: "USD" },
+ *   description: "Monthly subscription",
+ * });
+ * ```
+ */
+export const chargeCard = defaultProvider.chargeCard;
+
+/**
+ * Revoke the payment agreement behind a Tap subscription.
+ * Deletes the saved card, so no further merchant-initiated charges can be made.
+ *
+ * @example
+ * ```ts
+ * import { revokePaymentAgreement } from "@xyz/payment/providers/tap";
+ *
+ * await revokePaymentAgreement({
+ *   customerId: "cus_xxx",
+ *   cardId: "card_xxx",
+ * });
+ * ```
+ */
+export const revokePaymentAgreement = defaultProvider.revokePaymentAgreement;
+
+/**
+ * List a customer's charges created since a given time, e.g. to find out
+ * whether a charge whose request timed out went through.
+ *
+ * @example
+ * ```ts
+ * import { listCharges } from "@xyz/payment/providers/tap";
+ *
+ * const charges = await listCharges({
+ *   customerId: "cus_xxx",
+ *   createdAfter: new Date(Date.now() - 60 * 60 * 1000),
+ * });
+ * ```
+ */
+export const listCharges = defaultProvider.listCharges;
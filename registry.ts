@@ -0,0 +1,183 @@
+import { ConfigurationError, ProviderUnsupportedError } from "./errors";
+import type {
+  PaymentProvider,
+  ProviderCapabilities,
+  ProviderOptions,
+} from "./types";
+
+/**
+ * A provider added with `registerProvider`. Only `createCheckoutLink` and
+ * `createWebhookHandler` are required; methods that are left out throw
+ * `ProviderUnsupportedError`.
+ */
+export type ProviderImplementation = Pick<
+  PaymentProvider,
+  "createCheckoutLink" | "createWebhookHandler"
+> &
+  Partial<Omit<PaymentProvider, "capabilities">> & {
+    /** What the provider supports; unset values are inferred from its methods */
+    capabilities?: Partial<ProviderCapabilities>;
+  };
+
+/**
+ * Creates a provider instance. `createPayment` calls it with the instance's
+ * options and credentials; `usePayment` calls it once with none.
+ */
+export type ProviderFactory<Config = ProviderOptions> = (
+  config: Config
+) => ProviderImplementation;
+
+const REQUIRED_METHODS = ["createCheckoutLink", "createWebhookHandler"] as const;
+
+const OPTIONAL_METHODS = [
+  "createCheckoutSession",
+  "getCheckoutSession",
+  "createCustomerPortalLink",
+  "cancelSubscription",
+  "setSubscriptionSeats",
+  "getSubscription",
+  "listSubscriptions",
+  "createCustomer",
+  "getCustomer",
+  "updateCustomer",
+  "findCustomerByEmail",
+  "createRefund",
+  "listRefunds",
+  "createDiscount",
+  "listDiscounts",
+  "webhookHandler",
+] as const;
+
+type OptionalMethod = (typeof OPTIONAL_METHODS)[number];
+
+/**
+ * Check a registered implementation and fill in what it leaves out.
+ */
+export function toPaymentProvider(
+  name: string,
+  implementation: ProviderImplementation
+): PaymentProvider {
+  if (!implementation || typeof implementation !== "object") {
+    throw new ConfigurationError(
+      `Payment provider ${name} must be an object with the provider methods`,
+      { provider: name }
+    );
+  }
+
+  const missing = REQUIRED_METHODS.filter(
+    (method) => typeof implementation[method] !== "function"
+  );
+  if (missing.length > 0) {
+    throw new ConfigurationError(
+      `Payment provider ${name} is missing required methods: ${missing.join(", ")}`,
+      { provider: name }
+    );
+  }
+
+  const invalid = OPTIONAL_METHODS.filter(
+    (method) =>
+      implementation[method] !== undefined &&
+      typeof implementation[method] !== "function"
+  );
+  if (invalid.length > 0) {
+    throw new ConfigurationError(
+      `Payment provider ${name} has methods that are not functions: ${invalid.join(", ")}`,
+      { provider: name }
+    );
+  }
+
+  const has = (method: OptionalMethod) => Boolean(implementation[method]);
+  const unsupported =
+    (method: OptionalMethod) =>
+    async (..._args: unknown[]): Promise<never> => {
+      throw new ProviderUnsupportedError(
+        `Payment provider ${name} does not implement ${method}`,
+        { provider: name }
+      );
+    };
+
+  return {
+    ...implementation,
+    // Checkout parameters cannot be inferred, so they count as ignored
+    capabilities: {
+      customerPortal: has("createCustomerPortalLink"),
+      trials: false,
+      seats: false,
+      customerId: false,
+      email: false,
+      name: false,
+      multiItem: false,
+      discountCodes: false,
+      promotionCodes: false,
+      subscriptions: has("getSubscription") && has("cancelSubscription"),
+      listSubscriptions: has("listSubscriptions"),
+      cancelImmediately: false,
+      seatUpdates: has("setSubscriptionSeats"),
+      customerWrites: has("createCustomer") && has("updateCustomer"),
+      refunds: has("createRefund") && has("listRefunds"),
+      discounts: has("createDiscount"),
+      ...implementation.capabilities,
+    },
+    createCheckoutSession:
+      implementation.createCheckoutSession ??
+      unsupported("createCheckoutSession"),
+    getCheckoutSession:
+      implementation.getCheckoutSession ?? unsupported("getCheckoutSession"),
+    createCustomerPortalLink:
+      implementation.createCustomerPortalLink ??
+      unsupported("createCustomerPortalLink"),
+    cancelSubscription:
+      implementation.cancelSubscription ?? unsupported("cancelSubscription"),
+    setSubscriptionSeats:
+      implementation.setSubscriptionSeats ??
+      unsupported("setSubscriptionSeats"),
+    getSubscription:
+      implementation.getSubscription ?? unsupported("getSubscription"),
+    listSubscriptions:
+      implementation.listSubscriptions ?? unsupported("listSubscriptions"),
+    createCustomer:
+      implementation.createCustomer ?? unsupported("createCustomer"),
+    getCustomer: implementation.getCustomer ?? unsupported("getCustomer"),
+    updateCustomer:
+      implementation.updateCustomer ?? unsupported("updateCustomer"),
+    findCustomerByEmail:
+      implementation.findCustomerByEmail ??
+      unsupported("findCustomerByEmail"),
+    createRefund: implementation.createRefund ?? unsupported("createRefund"),
+    listRefunds: implementation.listRefunds ?? unsupported("listRefunds"),
+    createDiscount:
+      implementation.createDiscount ?? unsupported("createDiscount"),
+    listDiscounts: implementation.listDiscounts ?? unsupported("listDiscounts"),
+    webhookHandler:
+      implementation.webhookHandler ?? implementation.createWebhookHandler(),
+  };
+}
+
+/**
+ * Decorate a provider, e.g. to add logging or metrics around its methods.
+ * The overrides receive the original provider so they can call through to
+ * it. The provider's own methods keep calling the originals.
+ *
+ * @example
+ * ```ts
+ * import { registerProvider, wrapProvider } from "@xyz/payment";
+ * import { createStripeProvider } from "@xyz/payment/providers/stripe";
+ *
+ * registerProvider("stripe", (config) =>
+ *   wrapProvider(createStripeProvider(config), (stripe) => ({
+ *     createCheckoutLink: async (params) => {
+ *       logger.info("Creating checkout", params);
+ *       return stripe.createCheckoutLink(params);
+ *     },
+ *   }))
+ * );
+ * ```
+ */
+export function wrapProvider<T extends PaymentProvider>(
+  provider: T,
+  overrides: Partial<T> | ((provider: T) => Partial<T>)
+): T {
+  const methods =
+    typeof overrides === "function" ? overrides(provider) : overrides;
+  return { ...provider, ...methods };
+}
@@ -0,0 +1,215 @@
+import { ValidationError } from "./errors";
+
+/**
+ * Runtime check that a value has type `T`. Returns the value as is, or throws
+ * at the first mismatch. `path` locates the value in the parsed document,
+ * e.g. `items[0].id`.
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * Type checked by a schema.
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Schemas for the fields of an object.
+ */
+export type Shape = Record<string, Schema<unknown>>;
+
+/**
+ * Thrown by schemas; `parse` turns it into a `ValidationError`.
+ */
+class SchemaMismatch extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly value: unknown
+  ) {
+    super(`Expected ${expected} at ${path || "the root"}`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function primitive<T>(
+  expected: string,
+  test: (value: unknown) => value is T
+): Schema<T> {
+  return (value, path) => {
+    if (!test(value)) {
+      throw new SchemaMismatch(path, expected, value);
+    }
+    return value;
+  };
+}
+
+export const string = primitive(
+  "a string",
+  (value): value is string => typeof value === "string"
+);
+
+export const number = primitive(
+  "a number",
+  (value): value is number =>
+    typeof value === "number" && Number.isFinite(value)
+);
+
+export const boolean = primitive(
+  "a boolean",
+  (value): value is boolean => typeof value === "boolean"
+);
+
+/**
+ * Accept any value, e.g. a field that is only passed through.
+ */
+export const unknown: Schema<unknown> = (value) => value;
+
+/**
+ * Accept one of the given strings, e.g. an enum the library maps exhaustively.
+ */
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+  return primitive(
+    values.map((value) => JSON.stringify(value)).join(" or "),
+    (value): value is T => values.includes(value as T)
+  );
+}
+
+/**
+ * Also accept `null` and a missing value.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | null | undefined> {
+  return (value, path) =>
+    value === null || value === undefined ? value : schema(value, path);
+}
+
+/**
+ * Accept a value matching any of the schemas, e.g. an ID or the expanded
+ * object.
+ */
+export function union<T extends unknown[]>(
+  ...schemas: { [K in keyof T]: Schema<T[K]> }
+): Schema<T[number]> {
+  return (value, path) => {
+    const expected: string[] = [];
+    for (const schema of schemas) {
+      try {
+        return schema(value, path);
+      } catch (error) {
+        // A mismatch further in means the value is of this kind
+        if (!(error instanceof SchemaMismatch) || error.path !== path) {
+          throw error;
+        }
+        expected.push(error.expected);
+      }
+    }
+    throw new SchemaMismatch(path, expected.join(" or "), value);
+  };
+}
+
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaMismatch(path, "an array", value);
+    }
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Accept an object whose values all match the schema, e.g. metadata.
+ */
+export function record<T>(schema: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (!isRecord(value)) {
+      throw new SchemaMismatch(path, "an object", value);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      schema(item, path ? `${path}.${key}` : key);
+    }
+    return value as Record<string, T>;
+  };
+}
+
+/**
+ * Accept an object with the given fields. Other fields are kept, so the
+ * object can still be returned as `raw`.
+ */
+export function object<S extends Shape>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> } & Record<string, unknown>> {
+  return (value, path) => {
+    if (!isRecord(value)) {
+      throw new SchemaMismatch(path, "an object", value);
+    }
+    for (const [key, schema] of Object.entries(shape)) {
+      schema(value[key], path ? `${path}.${key}` : key);
+    }
+    return value as { [K in keyof S]: Infer<S[K]> } & Record<string, unknown>;
+  };
+}
+
+/**
+ * Show an unexpected value in an error message.
+ */
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+  const json = JSON.stringify(value) ?? String(value);
+  return json.length > 100 ? `${json.slice(0, 100)}...` : json;
+}
+
+/**
+ * Check a value against a schema.
+ * Throws a `ValidationError` naming the provider, path and unexpected value.
+ *
+ * @example
+ * ```ts
+ * const checkout = parse(checkoutSchema, body, "polar", "Polar API response");
+ * ```
+ */
+export function parse<T>(
+  schema: Schema<T>,
+  value: unknown,
+  provider: string,
+  source: string,
+  path = ""
+): T {
+  try {
+    return schema(value, path);
+  } catch (error) {
+    if (!(error instanceof SchemaMismatch)) throw error;
+    throw new ValidationError(
+      `${source} has an unexpected value at ${error.path || "the root"}: expected ${error.expected}, got ${describe(error.value)}`,
+      { provider, path: error.path, value: error.value, raw: value }
+    );
+  }
+}
+
+/**
+ * Read a provider API response body and check it against a schema.
+ */
+export async function readJson<T>(
+  response: Response,
+  schema: Schema<T>,
+  provider: string,
+  label: string
+): Promise<T> {
+  const text = await response.text();
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new ValidationError(`${label} API response is not valid JSON`, {
+      provider,
+      httpStatus: response.status,
+      path: "",
+      value: text,
+      raw: text,
+    });
+  }
+  return parse(schema, body, provider, `${label} API response`);
+}
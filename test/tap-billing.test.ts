@@ -0,0 +1,624 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTapProvider } from "../provider/tap";
+import {
+  createMemoryBillingStore,
+  createTapBilling,
+  type DunningNotice,
+  type TapBillingOptions,
+} from "../provider/tap-billing";
+import { InvalidRequestError, NotFoundError } from "../errors";
+import type { PaymentEvent, PaymentTransactionEvent } from "../types";
+
+const PLAN = {
+  id: "pro",
+  amount: 999,
+  currency: "USD",
+  interval: "month" as const,
+};
+
+const SAVED_CARD = {
+  customerId: "cus_1",
+  cardId: "card_1",
+  paymentAgreementId: "agr_1",
+};
+
+/**
+ * A Tap API behind a mocked `fetch`. Saved-card charges end in the status
+ * set for the customer (default: CAPTURED). `TIMEOUT` captures the charge but
+ * fails the request; `DROPPED` fails the request without charging.
+ */
+function createTapApi(statuses: Record<string, string> = {}) {
+  const charges: {
+    id: string;
+    customerId: string;
+    amount: number;
+    currency: string;
+    status: string;
+    metadata: Record<string, string>;
+  }[] = [];
+  let chargeCount = 0;
+
+  const fetch = vi.fn(
+    async (input: string | URL | Request, init?: RequestInit) => {
+      const path = new URL(String(input)).pathname;
+      const body = init?.body ? JSON.parse(String(init.body)) : {};
+
+      if (path === "/v2/tokens") {
+        return Response.json({ id: `tok_${body.saved_card.customer_id}` });
+      }
+      if (path === "/v2/charges" && body.source.id === "src_all") {
+        chargeCount += 1;
+        return Response.json({
+          id: `chg_link_${chargeCount}`,
+          status: "INITIATED",
+          transaction: { url: `https://tap.test/pay/${chargeCount}` },
+        });
+      }
+      if (path === "/v2/charges/list") {
+        return Response.json({
+          charges: charges
+            .filter((charge) => body.customers.includes(charge.customerId))
+            .map(({ id, status, metadata }) => ({ id, status, metadata })),
+          has_more: false,
+        });
+      }
+      if (path === "/v2/charges") {
+        const status = statuses[body.customer.id] ?? "CAPTURED";
+        if (status === "DROPPED") {
+          throw new TypeError("fetch failed");
+        }
+        chargeCount += 1;
+        const charge = {
+          id: `chg_${chargeCount}`,
+          customerId: body.customer.id,
+          amount: body.amount,
+          currency: body.currency,
+          status: status === "TIMEOUT" ? "CAPTURED" : status,
+          metadata: body.metadata ?? {},
+        };
+        charges.push(charge);
+        if (status === "TIMEOUT") {
+          throw new TypeError("fetch failed");
+        }
+        return Response.json({ id: charge.id, status: charge.status });
+      }
+      return Response.json({ errors: [] }, { status: 404 });
+    }
+  );
+
+  const provider = createTapProvider({
+    secretKey: "sk_test_123",
+    baseUrl: "https://api.tap.test/v2",
+    fetch,
+    maxRetries: 0,
+  });
+
+  return { fetch, provider, charges };
+}
+
+function createBilling(
+  api: ReturnType<typeof createTapApi>,
+  options: Partial<TapBillingOptions> = {}
+) {
+  const events: PaymentEvent[] = [];
+  const store = createMemoryBillingStore([PLAN]);
+  let subscriptionCount = 0;
+  const billing = createTapBilling({
+    provider: api.provider,
+    store,
+    onEvent: (event) => {
+      events.push(event);
+    },
+    generateId: () => `sub_${++subscriptionCount}`,
+    ...options,
+  });
+  return { billing, events, store };
+}
+
+function chargeEvent(
+  type: PaymentTransactionEvent["type"],
+  paymentId: string,
+  subscriptionId: string
+): PaymentTransactionEvent {
+  return {
+    type,
+    provider: "tap",
+    id: null,
+    providerEventType:
+      type === "payment.succeeded" ? "CHARGE.CAPTURED" : "CHARGE.FAILED",
+    customerId: SAVED_CARD.customerId,
+    organizationId: null,
+    userId: null,
+    raw: {},
+    paymentId,
+    subscriptionId,
+    amount: PLAN.amount,
+    currency: PLAN.currency,
+  };
+}
+
+const date = (iso: string) => new Date(iso);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"], now: date("2026-01-01T00:00:00Z") });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createTapBilling", () => {
+  it("keeps the anchor day across months, clamped to shorter months", async () => {
+    const api = createTapApi();
+    const { billing } = createBilling(api);
+
+    const created = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+      anchorDate: date("2026-01-31T00:00:00Z"),
+    });
+    expect(created.currentPeriodEnd).toEqual(date("2026-02-28T00:00:00Z"));
+
+    await billing.runDueBillings(date("2026-02-28T00:00:00Z"));
+    let subscription = await billing.getSubscription(created.id);
+    expect(subscription.currentPeriodStart).toEqual(
+      date("2026-02-28T00:00:00Z")
+    );
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-03-31T00:00:00Z"));
+
+    await billing.runDueBillings(date("2026-03-31T00:00:00Z"));
+    subscription = await billing.getSubscription(created.id);
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-04-30T00:00:00Z"));
+  });
+
+  it("charges the first period when the trial ends", async () => {
+    const api = createTapApi();
+    const { billing, events } = createBilling(api);
+
+    const created = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+      seats: 2,
+      trialPeriodDays: 14,
+    });
+    expect(created.status).toBe("trialing");
+    expect(created.currentPeriodEnd).toEqual(date("2026-01-15T00:00:00Z"));
+
+    const early = await billing.runDueBillings(date("2026-01-14T00:00:00Z"));
+    expect(early.renewed).toEqual([]);
+    expect(api.fetch).not.toHaveBeenCalled();
+
+    const result = await billing.runDueBillings(date("2026-01-15T00:00:00Z"));
+    expect(result.renewed).toEqual([created.id]);
+    // Tap takes decimal amounts
+    expect(api.charges).toMatchObject([
+      { customerId: "cus_1", amount: 19.98, currency: "USD" },
+    ]);
+
+    const subscription = await billing.getSubscription(created.id);
+    expect(subscription.status).toBe("active");
+    expect(subscription.currentPeriodStart).toEqual(
+      date("2026-01-15T00:00:00Z")
+    );
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-02-15T00:00:00Z"));
+    expect(events.map((event) => event.type)).toEqual([
+      "subscription.created",
+      "subscription.updated",
+      "payment.succeeded",
+    ]);
+  });
+
+  it("renews a pending charge once its webhook reports it captured", async () => {
+    const api = createTapApi({ cus_1: "IN_PROGRESS" });
+    const { billing } = createBilling(api);
+    const created = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    const first = await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+    expect(first.pending).toEqual([created.id]);
+
+    // A pending charge is not charged again
+    const second = await billing.runDueBillings(date("2026-02-01T01:00:00Z"));
+    expect(second.pending).toEqual([created.id]);
+    expect(api.charges).toHaveLength(1);
+
+    // Unrelated charges do not renew the subscription
+    await billing.handleEvent(
+      chargeEvent("payment.succeeded", "chg_other", created.id)
+    );
+    let subscription = await billing.getSubscription(created.id);
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-02-01T00:00:00Z"));
+
+    await billing.handleEvent(
+      chargeEvent("payment.succeeded", "chg_1", created.id)
+    );
+    subscription = await billing.getSubscription(created.id);
+    expect(subscription.status).toBe("active");
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-03-01T00:00:00Z"));
+  });
+
+  it("marks the subscription past due when a pending charge fails", async () => {
+    const api = createTapApi({ cus_1: "INITIATED" });
+    const { billing } = createBilling(api);
+    const created = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+    await billing.handleEvent(
+      chargeEvent("payment.failed", "chg_1", created.id)
+    );
+
+    const subscription = await billing.getSubscription(created.id);
+    expect(subscription.status).toBe("past_due");
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-02-01T00:00:00Z"));
+  });
+
+  it("reports the outcome of every due subscription", async () => {
+    const api = createTapApi({
+      cus_declined: "DECLINED",
+      cus_slow: "IN_PROGRESS",
+    });
+    const { billing } = createBilling(api);
+    const create = (customerId: string) =>
+      billing.createSubscription({ ...SAVED_CARD, customerId, planId: "pro" });
+
+    const paid = await create("cus_paid");
+    const declined = await create("cus_declined");
+    const slow = await create("cus_slow");
+    const canceled = await create("cus_canceled");
+    const notDue = await billing.createSubscription({
+      ...SAVED_CARD,
+      customerId: "cus_later",
+      planId: "pro",
+      anchorDate: date("2026-01-15T00:00:00Z"),
+    });
+    await billing.cancelSubscription(canceled.id);
+
+    const result = await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+
+    expect(result).toEqual({
+      renewed: [paid.id],
+      pending: [slow.id],
+      failed: [declined.id],
+      paused: [],
+      ended: [canceled.id],
+      errors: [],
+    });
+    expect(api.charges.map((charge) => charge.customerId)).toEqual([
+      "cus_paid",
+      "cus_declined",
+      "cus_slow",
+    ]);
+    expect((await billing.getSubscription(notDue.id)).status).toBe("active");
+    expect((await billing.getSubscription(canceled.id)).status).toBe(
+      "canceled"
+    );
+  });
+
+  it("keeps billing the other subscriptions when one throws", async () => {
+    const api = createTapApi();
+    const { billing, store } = createBilling(api);
+    const orphan = await billing.createSubscription({
+      ...SAVED_CARD,
+      customerId: "cus_orphan",
+      planId: "pro",
+    });
+    await store.saveSubscription({ ...orphan, planId: "retired" });
+    const paid = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    const result = await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+
+    expect(result.renewed).toEqual([paid.id]);
+    expect(result.errors).toEqual([
+      { subscriptionId: orphan.id, error: expect.any(NotFoundError) },
+    ]);
+  });
+
+  it("saves the renewal before a throwing onEvent callback runs", async () => {
+    const api = createTapApi();
+    const { billing } = createBilling(api, {
+      onEvent: (event) => {
+        if (event.type === "payment.succeeded") {
+          throw new Error("Callback failed");
+        }
+      },
+    });
+    const { id } = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    const first = await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+    expect(first.errors).toEqual([
+      { subscriptionId: id, error: new Error("Callback failed") },
+    ]);
+
+    const second = await billing.runDueBillings(date("2026-02-01T01:00:00Z"));
+    expect(second.errors).toEqual([]);
+    expect(api.charges).toHaveLength(1);
+    expect((await billing.getSubscription(id)).currentPeriodEnd).toEqual(
+      date("2026-03-01T00:00:00Z")
+    );
+  });
+
+  it("looks up a charge that timed out instead of charging again", async () => {
+    const api = createTapApi({ cus_1: "TIMEOUT" });
+    const { billing, events } = createBilling(api);
+    const created = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    const first = await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+    expect(first.pending).toEqual([created.id]);
+    let subscription = await billing.getSubscription(created.id);
+    expect(subscription.status).toBe("active");
+
+    const second = await billing.runDueBillings(date("2026-02-01T01:00:00Z"));
+    expect(second.renewed).toEqual([created.id]);
+    expect(api.charges).toHaveLength(1);
+    expect(events.at(-1)).toMatchObject({
+      type: "payment.succeeded",
+      paymentId: "chg_1",
+    });
+    subscription = await billing.getSubscription(created.id);
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-03-01T00:00:00Z"));
+  });
+
+  it("charges again when a request that failed in transit made no charge", async () => {
+    const statuses: Record<string, string> = { cus_1: "DROPPED" };
+    const api = createTapApi(statuses);
+    const { billing } = createBilling(api);
+    const created = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    const first = await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+    expect(first.pending).toEqual([created.id]);
+    let subscription = await billing.getSubscription(created.id);
+    expect(subscription.status).toBe("active");
+
+    delete statuses.cus_1;
+    const second = await billing.runDueBillings(date("2026-02-01T01:00:00Z"));
+    expect(second.renewed).toEqual([created.id]);
+    expect(api.charges).toHaveLength(1);
+    subscription = await billing.getSubscription(created.id);
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-03-01T00:00:00Z"));
+  });
+
+  it("rejects seat counts that are not positive integers", async () => {
+    const api = createTapApi();
+    const { billing } = createBilling(api);
+    const created = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    for (const seats of [0, -1, 1.5, Number.NaN]) {
+      await expect(
+        billing.setSubscriptionSeats({ id: created.id, seats })
+      ).rejects.toBeInstanceOf(InvalidRequestError);
+    }
+    await expect(
+      billing.createSubscription({ ...SAVED_CARD, planId: "pro", seats: 0 })
+    ).rejects.toBeInstanceOf(InvalidRequestError);
+  });
+
+  it("adds a failed pending proration charge to the next charge", async () => {
+    const statuses: Record<string, string> = {};
+    const api = createTapApi(statuses);
+    const { billing } = createBilling(api);
+    const created = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    // Half of the period is left, so one more seat costs half the price
+    vi.setSystemTime(date("2026-01-16T12:00:00Z"));
+    statuses.cus_1 = "IN_PROGRESS";
+    await billing.setSubscriptionSeats({
+      id: created.id,
+      seats: 2,
+      proration: "invoice",
+    });
+    expect(api.charges.map((charge) => charge.amount)).toEqual([5]);
+
+    await billing.handleEvent(
+      chargeEvent("payment.failed", "chg_1", created.id)
+    );
+
+    delete statuses.cus_1;
+    await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+    // Tap takes decimal amounts
+    expect(api.charges.map((charge) => charge.amount)).toEqual([5, 24.98]);
+  });
+});
+
+describe("dunning", () => {
+  function createDunning(options: TapBillingOptions["dunning"] = {}) {
+    const statuses: Record<string, string> = { cus_1: "DECLINED" };
+    const api = createTapApi(statuses);
+    const notices: DunningNotice[] = [];
+    const finalNotices: DunningNotice[] = [];
+    const { billing, store } = createBilling(api, {
+      dunning: {
+        onPaymentFailed: (notice) => {
+          notices.push(notice);
+        },
+        onFinalAction: (notice) => {
+          finalNotices.push(notice);
+        },
+        ...options,
+      },
+    });
+    return { api, statuses, billing, store, notices, finalNotices };
+  }
+
+  it("retries on the schedule and cancels once it is exhausted", async () => {
+    const { api, billing, store, notices, finalNotices } = createDunning();
+    const { id } = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    expect(await billing.runDueBillings(date("2026-02-01T00:00:00Z"))).toEqual(
+      expect.objectContaining({ failed: [id] })
+    );
+    expect(await store.getSubscription(id)).toMatchObject({
+      status: "past_due",
+      failedAttempts: 1,
+      firstFailedAt: date("2026-02-01T00:00:00Z"),
+      nextRetryAt: date("2026-02-02T00:00:00Z"),
+    });
+
+    // Not retried before the next retry date
+    const early = await billing.runDueBillings(date("2026-02-01T12:00:00Z"));
+    expect(early.failed).toEqual([]);
+
+    await billing.runDueBillings(date("2026-02-02T00:00:00Z"));
+    await billing.runDueBillings(date("2026-02-04T00:00:00Z"));
+    expect(notices.map((notice) => notice.nextRetryAt)).toEqual([
+      date("2026-02-02T00:00:00Z"),
+      date("2026-02-04T00:00:00Z"),
+      date("2026-02-08T00:00:00Z"),
+    ]);
+    expect(notices.map((notice) => notice.paymentUrl)).toEqual([
+      "https://tap.test/pay/2",
+      "https://tap.test/pay/4",
+      "https://tap.test/pay/6",
+    ]);
+
+    const result = await billing.runDueBillings(date("2026-02-08T00:00:00Z"));
+    expect(result.ended).toEqual([id]);
+    expect(api.charges).toHaveLength(4);
+    expect(finalNotices).toEqual([
+      expect.objectContaining({ attempt: 4, nextRetryAt: null }),
+    ]);
+    expect(await store.getSubscription(id)).toMatchObject({
+      status: "canceled",
+      nextRetryAt: null,
+    });
+  });
+
+  it("pauses after the grace period and renews when the link is paid", async () => {
+    const { api, billing, store, notices, finalNotices } = createDunning({
+      gracePeriodDays: 14,
+      finalAction: "pause",
+    });
+    const { id } = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    for (const day of ["01", "02", "04", "08"]) {
+      await billing.runDueBillings(date(`2026-02-${day}T00:00:00Z`));
+    }
+    // The last retry failed, but the grace period is not over yet
+    expect(notices).toHaveLength(4);
+    expect(notices[3].nextRetryAt).toBeNull();
+    expect(finalNotices).toEqual([]);
+    expect(await store.getSubscription(id)).toMatchObject({
+      status: "past_due",
+      nextRetryAt: date("2026-02-15T00:00:00Z"),
+    });
+
+    const result = await billing.runDueBillings(date("2026-02-15T00:00:00Z"));
+    expect(result.paused).toEqual([id]);
+    // The final action does not charge the card again
+    expect(api.charges).toHaveLength(4);
+    expect(finalNotices).toHaveLength(1);
+    expect((await billing.getSubscription(id)).status).toBe("paused");
+
+    // Paused subscriptions are not billed
+    const later = await billing.runDueBillings(date("2026-03-01T00:00:00Z"));
+    expect(later.failed).toEqual([]);
+    expect(api.charges).toHaveLength(4);
+
+    const link = (await store.getSubscription(id))?.paymentLinks.at(-1);
+    await billing.handleEvent(
+      chargeEvent("payment.succeeded", link?.chargeId ?? "", id)
+    );
+    const subscription = await billing.getSubscription(id);
+    expect(subscription.status).toBe("active");
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-03-01T00:00:00Z"));
+  });
+
+  it("renews once when several payment links are paid", async () => {
+    const onRecovered = vi.fn();
+    const onSupersededPayment = vi.fn();
+    const { billing, store } = createDunning({
+      onRecovered,
+      onSupersededPayment,
+    });
+    const { id } = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+    await billing.runDueBillings(date("2026-02-02T00:00:00Z"));
+    expect((await store.getSubscription(id))?.paymentLinks).toEqual([
+      { chargeId: "chg_link_2", status: "open" },
+      { chargeId: "chg_link_4", status: "open" },
+    ]);
+
+    // Charges other than the payment links do not renew it
+    await billing.handleEvent(chargeEvent("payment.succeeded", "chg_3", id));
+    expect((await billing.getSubscription(id)).status).toBe("past_due");
+
+    await billing.handleEvent(
+      chargeEvent("payment.succeeded", "chg_link_4", id)
+    );
+    const second = chargeEvent("payment.succeeded", "chg_link_2", id);
+    await billing.handleEvent(second);
+
+    const subscription = await billing.getSubscription(id);
+    expect(subscription.status).toBe("active");
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-03-01T00:00:00Z"));
+    expect(onRecovered).toHaveBeenCalledTimes(1);
+    expect(onSupersededPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ id }),
+      second
+    );
+    expect((await store.getSubscription(id))?.paymentLinks).toEqual([
+      { chargeId: "chg_link_2", status: "superseded" },
+      { chargeId: "chg_link_4", status: "superseded" },
+    ]);
+  });
+
+  it("does not renew again when a link is paid after a retry succeeded", async () => {
+    const onSupersededPayment = vi.fn();
+    const { statuses, billing, store } = createDunning({
+      onSupersededPayment,
+    });
+    const { id } = await billing.createSubscription({
+      ...SAVED_CARD,
+      planId: "pro",
+    });
+
+    await billing.runDueBillings(date("2026-02-01T00:00:00Z"));
+    statuses.cus_1 = "CAPTURED";
+    const retry = await billing.runDueBillings(date("2026-02-02T00:00:00Z"));
+    expect(retry.renewed).toEqual([id]);
+
+    await billing.handleEvent(
+      chargeEvent("payment.succeeded", "chg_link_2", id)
+    );
+
+    const subscription = await billing.getSubscription(id);
+    expect(subscription.currentPeriodEnd).toEqual(date("2026-03-01T00:00:00Z"));
+    expect(onSupersededPayment).toHaveBeenCalledTimes(1);
+
+    // The next renewal drops the superseded links
+    await billing.runDueBillings(date("2026-03-01T00:00:00Z"));
+    expect((await store.getSubscription(id))?.paymentLinks).toEqual([]);
+  });
+});
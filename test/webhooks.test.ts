@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCreemProvider } from "../provider/creem";
+import { createDodoPaymentsProvider } from "../provider/dodopayments";
+import { createLemonSqueezyProvider } from "../provider/lemonsqueezy";
+import { createMockProvider } from "../provider/mock";
+import { createPolarProvider } from "../provider/polar";
+import { createStripeProvider } from "../provider/stripe";
+import { createTapProvider } from "../provider/tap";
+import { sampleEvent, signWebhook, type WebhookProviderName } from "../testing";
+import type {
+  CreateWebhookHandler,
+  PaymentEvent,
+  PaymentEventType,
+} from "../types";
+import { createWebhookRouter } from "../webhook";
+
+// Standard Webhooks secrets carry a base64 key
+const STANDARD_SECRET = `whsec_${Buffer.from("test-signing-key").toString("base64")}`;
+const OTHER_STANDARD_SECRET = `whsec_${Buffer.from("other-signing-key").toString("base64")}`;
+
+type WebhookProvider = { createWebhookHandler: CreateWebhookHandler };
+
+// Secrets the handlers fall back to when none is configured
+const SECRET_ENV_VARS = [
+  "STRIPE_WEBHOOK_SECRET",
+  "LEMONSQUEEZY_WEBHOOK_SECRET",
+  "POLAR_WEBHOOK_SECRET",
+  "CREEM_WEBHOOK_SECRET",
+  "DODO_PAYMENTS_WEBHOOK_SECRET",
+  "TAP_WEBHOOK_SECRET",
+  "MOCK_WEBHOOK_SECRET",
+];
+
+beforeEach(() => {
+  for (const name of SECRET_ENV_VARS) {
+    vi.stubEnv(name, undefined);
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const PROVIDERS: Record<
+  WebhookProviderName,
+  {
+    secret: string;
+    create: (config: { webhookSecret?: string }) => WebhookProvider;
+  }
+> = {
+  stripe: { secret: "whsec_test", create: createStripeProvider },
+  lemonsqueezy: { secret: "ls_test", create: createLemonSqueezyProvider },
+  polar: { secret: STANDARD_SECRET, create: createPolarProvider },
+  creem: { secret: "creem_test", create: createCreemProvider },
+  dodopayments: { secret: STANDARD_SECRET, create: createDodoPaymentsProvider },
+  tap: { secret: "sk_test_tap", create: createTapProvider },
+  mock: { secret: STANDARD_SECRET, create: createMockProvider },
+};
+
+const EVENT_TYPES: PaymentEventType[] = [
+  "checkout.completed",
+  "subscription.created",
+  "subscription.updated",
+  "subscription.canceled",
+  "subscription.expired",
+  "payment.succeeded",
+  "payment.failed",
+  "refund.created",
+];
+
+/**
+ * The provider's sample events by normalized type.
+ */
+function samplesOf(provider: WebhookProviderName) {
+  return EVENT_TYPES.flatMap((type) => {
+    const payload = sampleEvent(provider, type);
+    return payload === undefined ? [] : [{ type, payload }];
+  });
+}
+
+describe.each(Object.keys(PROVIDERS) as WebhookProviderName[])(
+  "%s webhooks",
+  (provider) => {
+    const { secret, create } = PROVIDERS[provider];
+    const { createWebhookHandler } = create({ webhookSecret: secret });
+
+    it.each(samplesOf(provider))(
+      "maps a signed $type sample",
+      async ({ type, payload }) => {
+        const events: PaymentEvent[] = [];
+        const handler = createWebhookHandler({
+          onEvent: (event) => {
+            events.push(event);
+          },
+        });
+
+        const response = await handler(signWebhook(provider, payload, secret));
+
+        expect(response.status).toBeGreaterThanOrEqual(200);
+        expect(response.status).toBeLessThan(300);
+        expect(events.map((event) => event.type)).toEqual([type]);
+        expect(events[0].provider).toBe(provider);
+      }
+    );
+
+    it("rejects a payload signed with another secret", async () => {
+      const [{ payload }] = samplesOf(provider);
+      const handler = createWebhookHandler();
+      const otherSecret =
+        secret === STANDARD_SECRET ? OTHER_STANDARD_SECRET : `${secret}_other`;
+
+      const response = await handler(
+        signWebhook(provider, payload, otherSecret)
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("rejects an unsigned delivery", async () => {
+      const [{ payload }] = samplesOf(provider);
+      const handler = createWebhookHandler();
+
+      const response = await handler(
+        new Request(`http://localhost/webhooks/${provider}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        })
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    // The mock provider falls back to a built-in secret
+    it.skipIf(provider === "mock")(
+      "rejects deliveries while no secret is configured",
+      async () => {
+        const [{ payload }] = samplesOf(provider);
+        const handler = create({}).createWebhookHandler();
+
+        const response = await handler(signWebhook(provider, payload, secret));
+
+        expect(response.status).toBe(401);
+      }
+    );
+  }
+);
+
+describe("createWebhookRouter", () => {
+  const routes = (polarSecret?: string) => [
+    {
+      provider: "polar",
+      handler: createPolarProvider({
+        webhookSecret: polarSecret,
+      }).createWebhookHandler(),
+    },
+    {
+      provider: "dodopayments",
+      handler: createDodoPaymentsProvider({
+        webhookSecret: OTHER_STANDARD_SECRET,
+      }).createWebhookHandler(),
+    },
+  ];
+
+  it("passes a delivery the first provider cannot verify to the next", async () => {
+    const handler = createWebhookRouter({ providers: routes(STANDARD_SECRET) });
+    const payload = sampleEvent("dodopayments", "payment.succeeded");
+
+    const response = await handler(
+      signWebhook("dodopayments", payload, OTHER_STANDARD_SECRET)
+    );
+
+    expect(response.status).toBe(204);
+  });
+
+  it("passes deliveries on while a provider has no secret", async () => {
+    const handler = createWebhookRouter({ providers: routes() });
+    const payload = sampleEvent("dodopayments", "payment.succeeded");
+
+    const response = await handler(
+      signWebhook("dodopayments", payload, OTHER_STANDARD_SECRET)
+    );
+
+    expect(response.status).toBe(204);
+  });
+});
@@ -0,0 +1,874 @@
+import { createHmac, randomUUID } from "node:crypto";
+import type { PaymentEventType } from "./types";
+import {
+  signStandardWebhook,
+  standardWebhookKey,
+  tapHashString,
+} from "./webhook";
+
+/**
+ * Providers that sign their webhooks.
+ */
+export type WebhookProviderName =
+  | "stripe"
+  | "lemonsqueezy"
+  | "polar"
+  | "creem"
+  | "dodopayments"
+  | "tap"
+  | "mock";
+
+/**
+ * Options for `signWebhook`.
+ */
+export type SignWebhookOptions = {
+  /** Request URL (default: `http://localhost/webhooks/<provider>`) */
+  url?: string;
+  /** Signing time (default: now) */
+  timestamp?: Date;
+  /** Delivery ID, for providers that send one (default: a random ID) */
+  id?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+};
+
+/**
+ * Compute an HMAC-SHA256 signature as hex.
+ */
+function hmacHex(secret: string, content: string): string {
+  return createHmac("sha256", secret).update(content).digest("hex");
+}
+
+/**
+ * Build a webhook request signed the way the provider signs its deliveries,
+ * ready to pass to the provider's webhook handler. `payload` is serialized
+ * as JSON unless it is already a string.
+ *
+ * @example
+ * ```ts
+ * import { sampleEvent, signWebhook } from "@xyz/payment/testing";
+ *
+ * const event = sampleEvent("stripe", "payment.failed");
+ * const response = await stripe.webhookHandler(
+ *   signWebhook("stripe", event, "whsec_test")
+ * );
+ * expect(response.status).toBe(200);
+ * ```
+ */
+export function signWebhook(
+  provider: WebhookProviderName,
+  payload: unknown,
+  secret: string,
+  options: SignWebhookOptions = {}
+): Request {
+  const body = typeof payload === "string" ? payload : JSON.stringify(payload);
+  const timestamp = String(
+    Math.floor((options.timestamp ?? new Date()).getTime() / 1000)
+  );
+  const id = options.id ?? `msg_${randomUUID().replace(/-/g, "")}`;
+
+  let signature: Record<string, string>;
+  switch (provider) {
+    case "stripe": {
+      const digest = hmacHex(secret, `${timestamp}.${body}`);
+      signature = { "stripe-signature": `t=${timestamp},v1=${digest}` };
+      break;
+    }
+    case "lemonsqueezy":
+      signature = { "x-signature": hmacHex(secret, body) };
+      break;
+    case "creem":
+      signature = { "creem-signature": hmacHex(secret, body) };
+      break;
+    case "polar":
+    case "dodopayments":
+    case "mock":
+      signature = {
+        "webhook-id": id,
+        "webhook-timestamp": timestamp,
+        "webhook-signature": signStandardWebhook({
+          id,
+          timestamp,
+          body,
+          key: standardWebhookKey(secret),
+        }),
+      };
+      break;
+    case "tap":
+      signature = {
+        hashstring: tapHashString(
+          typeof payload === "string" ? JSON.parse(payload) : payload,
+          secret
+        ),
+      };
+      break;
+  }
+
+  return new Request(
+    options.url ?? `http://localhost/webhooks/${provider}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...signature,
+        ...options.headers,
+      },
+      body,
+    }
+  );
+}
+
+// ============================================
+// Sample Events
+// ============================================
+
+// 2026-01-01T00:00:00Z and one month later
+const CREATED = 1767225600;
+const PERIOD_END = 1769904000;
+const CREATED_AT = "2026-01-01T00:00:00.000Z";
+const PERIOD_END_AT = "2026-02-01T00:00:00.000Z";
+
+const METADATA = { organization_id: "org_123", user_id: "user_123" };
+
+function stripeEvent(
+  id: string,
+  type: string,
+  object: Record<string, unknown>
+) {
+  return {
+    id,
+    object: "event",
+    api_version: "2025-03-31.basil",
+    created: CREATED,
+    livemode: false,
+    type,
+    data: { object },
+  };
+}
+
+function stripeSubscription(
+  status: string,
+  fields: Record<string, unknown> = {}
+) {
+  return {
+    id: "sub_1QaBcDeFgHiJkLmN",
+    object: "subscription",
+    customer: "cus_RaBcDeFgHiJkLm",
+    status,
+    items: {
+      object: "list",
+      data: [
+        {
+          id: "si_RaBcDeFgHiJkLm",
+          object: "subscription_item",
+          price: { id: "price_1QaBcDeFgHiJkLmN", object: "price" },
+          quantity: 1,
+          current_period_start: CREATED,
+          current_period_end: PERIOD_END,
+        },
+      ],
+    },
+    cancel_at_period_end: false,
+    trial_end: null,
+    metadata: METADATA,
+    ...fields,
+  };
+}
+
+function stripeInvoice(status: string, fields: Record<string, unknown>) {
+  return {
+    id: "in_1QaBcDeFgHiJkLmN",
+    object: "invoice",
+    customer: "cus_RaBcDeFgHiJkLm",
+    status,
+    currency: "usd",
+    amount_due: 2000,
+    billing_reason: "subscription_cycle",
+    parent: {
+      type: "subscription_details",
+      subscription_details: {
+        subscription: "sub_1QaBcDeFgHiJkLmN",
+        metadata: METADATA,
+      },
+    },
+    ...fields,
+  };
+}
+
+function lemonSqueezyEvent(eventName: string, data: Record<string, unknown>) {
+  return {
+    meta: {
+      event_name: eventName,
+      test_mode: true,
+      custom_data: METADATA,
+    },
+    data,
+  };
+}
+
+function lemonSqueezySubscription(
+  status: string,
+  fields: Record<string, unknown> = {}
+) {
+  return {
+    type: "subscriptions",
+    id: "1",
+    attributes: {
+      store_id: 1,
+      customer_id: 1,
+      order_id: 1,
+      product_id: 1,
+      variant_id: 1,
+      user_email: "user@example.com",
+      status,
+      first_subscription_item: { id: 1, subscription_id: 1, quantity: 1 },
+      renews_at: PERIOD_END_AT,
+      ends_at: null,
+      trial_ends_at: null,
+      created_at: CREATED_AT,
+      test_mode: true,
+      ...fields,
+    },
+  };
+}
+
+function lemonSqueezyOrder(fields: Record<string, unknown> = {}) {
+  return {
+    type: "orders",
+    id: "1",
+    attributes: {
+      store_id: 1,
+      customer_id: 1,
+      identifier: "104e18a2-d755-4d4b-80c4-a6c1dcbe1c10",
+      order_number: 1,
+      user_email: "user@example.com",
+      currency: "USD",
+      status: "paid",
+      total: 2000,
+      first_order_item: { order_id: 1, product_id: 1, variant_id: 1 },
+      refunded: false,
+      refunded_at: null,
+      created_at: CREATED_AT,
+      test_mode: true,
+      ...fields,
+    },
+  };
+}
+
+function lemonSqueezyInvoice(status: string) {
+  return {
+    type: "subscription-invoices",
+    id: "1",
+    attributes: {
+      store_id: 1,
+      subscription_id: 1,
+      customer_id: 1,
+      billing_reason: "renewal",
+      currency: "USD",
+      status,
+      total: 2000,
+      created_at: CREATED_AT,
+      test_mode: true,
+    },
+  };
+}
+
+function polarSubscription(
+  status: string,
+  fields: Record<string, unknown> = {}
+) {
+  return {
+    id: "0f8e1b5c-2d3a-4e6f-9a7b-1c2d3e4f5a6b",
+    customer_id: "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d",
+    product_id: "3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e6f",
+    status,
+    amount: 2000,
+    currency: "usd",
+    recurring_interval: "month",
+    current_period_start: CREATED_AT,
+    current_period_end: PERIOD_END_AT,
+    cancel_at_period_end: false,
+    metadata: METADATA,
+    ...fields,
+  };
+}
+
+function creemSubscription(
+  status: string,
+  fields: Record<string, unknown> = {}
+) {
+  return {
+    id: "sub_5Ba7vHxSr3mbCRhM9ffqbd",
+    object: "subscription",
+    status,
+    customer: { id: "cust_4fpU8kYkQmI1XKBwU2qeME", email: "user@example.com" },
+    product: {
+      id: "prod_6tW66i0oZM7w1qXReHJrwg",
+      price: 2000,
+      currency: "USD",
+      billing_type: "recurring",
+      billing_period: "every-month",
+    },
+    items: [
+      {
+        id: "sitem_3xZ4yXKoTSDXpPk1A4XTVO",
+        product_id: "prod_6tW66i0oZM7w1qXReHJrwg",
+        units: 1,
+      },
+    ],
+    last_transaction_id: "tran_5yMaWzAl3jxuGJMCOrYWwk",
+    current_period_start_date: CREATED_AT,
+    current_period_end_date: PERIOD_END_AT,
+    metadata: METADATA,
+    ...fields,
+  };
+}
+
+function dodoEvent(type: string, data: Record<string, unknown>) {
+  return {
+    business_id: "bus_1a2b3c4d5e6f",
+    type,
+    timestamp: CREATED_AT,
+    data,
+  };
+}
+
+const DODO_CUSTOMER = {
+  customer_id: "cus_7h8i9j0k1l2m",
+  email: "user@example.com",
+  name: "Jane Doe",
+};
+
+function dodoSubscription(
+  status: string,
+  fields: Record<string, unknown> = {}
+) {
+  return {
+    payload_type: "Subscription",
+    subscription_id: "sub_3n4o5p6q7r8s",
+    customer: DODO_CUSTOMER,
+    product_id: "pdt_9t0u1v2w3x4y",
+    status,
+    quantity: 1,
+    currency: "USD",
+    recurring_pre_tax_amount: 2000,
+    payment_frequency_interval: "Month",
+    created_at: CREATED_AT,
+    previous_billing_date: CREATED_AT,
+    next_billing_date: PERIOD_END_AT,
+    cancel_at_next_billing_date: false,
+    metadata: METADATA,
+    ...fields,
+  };
+}
+
+function dodoPayment(status: string) {
+  return {
+    payload_type: "Payment",
+    payment_id: "pay_5z6a7b8c9d0e",
+    subscription_id: "sub_3n4o5p6q7r8s",
+    customer: DODO_CUSTOMER,
+    status,
+    total_amount: 2000,
+    currency: "USD",
+    product_cart: [{ product_id: "pdt_9t0u1v2w3x4y", quantity: 1 }],
+    refunds: [],
+    created_at: CREATED_AT,
+    metadata: METADATA,
+  };
+}
+
+function tapCharge(
+  event: string,
+  status: string,
+  metadata: Record<string, string>
+) {
+  return {
+    event,
+    data: {
+      id: "chg_TS02A5720231433Qs1w0809820",
+      object: "charge",
+      live_mode: false,
+      status,
+      amount: 20,
+      currency: "USD",
+      customer: {
+        id: "cus_TS03A5720231433Kx2w0809821",
+        first_name: "Jane",
+        last_name: "Doe",
+        email: "user@example.com",
+      },
+      reference: {
+        transaction: "txn_0001",
+        order: "ord_0001",
+        gateway: "123456789012",
+        payment: "5720231433091234567",
+      },
+      transaction: { created: String(CREATED * 1000), currency: "USD" },
+      metadata: { ...METADATA, ...metadata },
+    },
+  };
+}
+
+function mockEvent(
+  id: string,
+  type: string,
+  data: Record<string, unknown>
+) {
+  return { id, type, created_at: CREATED_AT, data };
+}
+
+function mockSubscription(
+  status: string,
+  fields: Record<string, unknown> = {}
+) {
+  return {
+    id: "sub_mock_0001",
+    status,
+    customer_id: "cus_mock_0001",
+    items: [{ product_id: "pro", quantity: 1 }],
+    currency: "USD",
+    interval: "month",
+    interval_count: 1,
+    current_period_start: CREATED_AT,
+    current_period_end: PERIOD_END_AT,
+    trial_end: null,
+    cancel_at_period_end: false,
+    discount_id: null,
+    metadata: METADATA,
+    created_at: CREATED_AT,
+    ...fields,
+  };
+}
+
+function mockPayment(status: string) {
+  return {
+    id: "pay_mock_0001",
+    status,
+    customer_id: "cus_mock_0001",
+    checkout_id: null,
+    subscription_id: "sub_mock_0001",
+    amount: 2000,
+    amount_refunded: 0,
+    currency: "USD",
+    metadata: METADATA,
+    created_at: CREATED_AT,
+  };
+}
+
+// Each sample is the provider's native event for the normalized event type
+const SAMPLE_EVENTS = {
+  stripe: {
+    "checkout.completed": stripeEvent(
+      "evt_1QaBcDeFgHiJkL01",
+      "checkout.session.completed",
+      {
+        id: "cs_test_a1B2c3D4e5F6g7H8",
+        object: "checkout.session",
+        mode: "subscription",
+        status: "complete",
+        payment_status: "paid",
+        customer: "cus_RaBcDeFgHiJkLm",
+        subscription: "sub_1QaBcDeFgHiJkLmN",
+        amount_total: 2000,
+        currency: "usd",
+        expires_at: PERIOD_END,
+        metadata: METADATA,
+      }
+    ),
+    "subscription.created": stripeEvent(
+      "evt_1QaBcDeFgHiJkL02",
+      "customer.subscription.created",
+      stripeSubscription("active")
+    ),
+    "subscription.updated": stripeEvent(
+      "evt_1QaBcDeFgHiJkL03",
+      "customer.subscription.updated",
+      stripeSubscription("active", { cancel_at_period_end: true })
+    ),
+    "subscription.canceled": stripeEvent(
+      "evt_1QaBcDeFgHiJkL04",
+      "customer.subscription.deleted",
+      stripeSubscription("canceled", { ended_at: PERIOD_END })
+    ),
+    "payment.succeeded": stripeEvent(
+      "evt_1QaBcDeFgHiJkL05",
+      "invoice.paid",
+      stripeInvoice("paid", { amount_paid: 2000 })
+    ),
+    "payment.failed": stripeEvent(
+      "evt_1QaBcDeFgHiJkL06",
+      "invoice.payment_failed",
+      stripeInvoice("open", { amount_paid: 0, attempt_count: 1 })
+    ),
+    "refund.created": stripeEvent("evt_1QaBcDeFgHiJkL07", "refund.created", {
+      id: "re_1QaBcDeFgHiJkLmN",
+      object: "refund",
+      payment_intent: "pi_1QaBcDeFgHiJkLmN",
+      charge: "ch_1QaBcDeFgHiJkLmN",
+      amount: 2000,
+      currency: "usd",
+      status: "succeeded",
+      reason: "requested_by_customer",
+      created: CREATED,
+      metadata: METADATA,
+    }),
+  },
+  lemonsqueezy: {
+    "checkout.completed": lemonSqueezyEvent(
+      "order_created",
+      lemonSqueezyOrder()
+    ),
+    "subscription.created": lemonSqueezyEvent(
+      "subscription_created",
+      lemonSqueezySubscription("active")
+    ),
+    "subscription.updated": lemonSqueezyEvent(
+      "subscription_updated",
+      lemonSqueezySubscription("past_due")
+    ),
+    "subscription.canceled": lemonSqueezyEvent(
+      "subscription_cancelled",
+      lemonSqueezySubscription("cancelled", { ends_at: PERIOD_END_AT })
+    ),
+    "subscription.expired": lemonSqueezyEvent(
+      "subscription_expired",
+      lemonSqueezySubscription("expired", { ends_at: PERIOD_END_AT })
+    ),
+    "payment.succeeded": lemonSqueezyEvent(
+      "subscription_payment_success",
+      lemonSqueezyInvoice("paid")
+    ),
+    "payment.failed": lemonSqueezyEvent(
+      "subscription_payment_failed",
+      lemonSqueezyInvoice("pending")
+    ),
+    "refund.created": lemonSqueezyEvent(
+      "order_refunded",
+      lemonSqueezyOrder({
+        status: "refunded",
+        refunded: true,
+        refunded_amount: 2000,
+        refunded_at: PERIOD_END_AT,
+      })
+    ),
+  },
+  polar: {
+    "checkout.completed": {
+      type: "checkout.updated",
+      timestamp: CREATED_AT,
+      data: {
+        id: "5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e",
+        status: "succeeded",
+        customer_id: "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d",
+        subscription_id: "0f8e1b5c-2d3a-4e6f-9a7b-1c2d3e4f5a6b",
+        product_id: "3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e6f",
+        total_amount: 2000,
+        currency: "usd",
+        expires_at: PERIOD_END_AT,
+        metadata: METADATA,
+      },
+    },
+    "subscription.created": {
+      type: "subscription.created",
+      timestamp: CREATED_AT,
+      data: polarSubscription("active"),
+    },
+    "subscription.updated": {
+      type: "subscription.updated",
+      timestamp: CREATED_AT,
+      data: polarSubscription("past_due"),
+    },
+    "subscription.canceled": {
+      type: "subscription.canceled",
+      timestamp: CREATED_AT,
+      data: polarSubscription("active", { cancel_at_period_end: true }),
+    },
+    "subscription.expired": {
+      type: "subscription.revoked",
+      timestamp: CREATED_AT,
+      data: polarSubscription("canceled", { ended_at: PERIOD_END_AT }),
+    },
+    "payment.succeeded": {
+      type: "order.paid",
+      timestamp: CREATED_AT,
+      data: {
+        id: "7d8e9f0a-1b2c-4d3e-9f4a-5b6c7d8e9f0a",
+        status: "paid",
+        billing_reason: "subscription_cycle",
+        customer_id: "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d",
+        subscription_id: "0f8e1b5c-2d3a-4e6f-9a7b-1c2d3e4f5a6b",
+        total_amount: 2000,
+        currency: "usd",
+        metadata: METADATA,
+      },
+    },
+    "refund.created": {
+      type: "refund.created",
+      timestamp: CREATED_AT,
+      data: {
+        id: "1e2f3a4b-5c6d-4e7f-8a9b-0c1d2e3f4a5b",
+        order_id: "7d8e9f0a-1b2c-4d3e-9f4a-5b6c7d8e9f0a",
+        customer_id: "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d",
+        amount: 2000,
+        currency: "usd",
+        status: "succeeded",
+        reason: "customer_request",
+        created_at: CREATED_AT,
+        metadata: METADATA,
+      },
+    },
+  },
+  creem: {
+    "checkout.completed": {
+      id: "evt_5WHHcZPv7VS0YUsberIuOz",
+      eventType: "checkout.completed",
+      created_at: CREATED * 1000,
+      object: {
+        id: "ch_4l0N34kxo16AhRKUHFUuXr",
+        object: "checkout",
+        status: "completed",
+        customer: { id: "cust_4fpU8kYkQmI1XKBwU2qeME" },
+        product: {
+          id: "prod_6tW66i0oZM7w1qXReHJrwg",
+          price: 2000,
+          currency: "USD",
+        },
+        subscription: "sub_5Ba7vHxSr3mbCRhM9ffqbd",
+        order: {
+          id: "ord_4aDwWXjMLpes4Kj4XqNnUA",
+          amount: 2000,
+          currency: "USD",
+          status: "paid",
+        },
+        metadata: METADATA,
+      },
+    },
+    "subscription.created": {
+      id: "evt_6EptlmjazyGhEPiNQ5f4lz",
+      eventType: "subscription.active",
+      created_at: CREATED * 1000,
+      object: creemSubscription("active"),
+    },
+    "subscription.updated": {
+      id: "evt_2iGTc600qGW6FBzloh2Nr7",
+      eventType: "subscription.update",
+      created_at: CREATED * 1000,
+      object: creemSubscription("active", {
+        items: [
+          {
+            id: "sitem_3xZ4yXKoTSDXpPk1A4XTVO",
+            product_id: "prod_6tW66i0oZM7w1qXReHJrwg",
+            units: 3,
+          },
+        ],
+      }),
+    },
+    "subscription.canceled": {
+      id: "evt_2iGTc600qGW6FBzloh2Nr8",
+      eventType: "subscription.canceled",
+      created_at: CREATED * 1000,
+      object: creemSubscription("canceled"),
+    },
+    "subscription.expired": {
+      id: "evt_2iGTc600qGW6FBzloh2Nr9",
+      eventType: "subscription.expired",
+      created_at: CREATED * 1000,
+      object: creemSubscription("expired"),
+    },
+    "payment.succeeded": {
+      id: "evt_21mO1jWmU2QHe7u2oFV7y1",
+      eventType: "subscription.paid",
+      created_at: CREATED * 1000,
+      object: creemSubscription("active"),
+    },
+    "refund.created": {
+      id: "evt_61eTsJHLgInYfDgFpZJMdy",
+      eventType: "refund.created",
+      created_at: CREATED * 1000,
+      object: {
+        id: "ref_3DB9NQFvk18TJwSqd0N6bd",
+        object: "refund",
+        status: "succeeded",
+        refund_amount: 2000,
+        refund_currency: "USD",
+        reason: "requested_by_customer",
+        transaction: { id: "tran_5yMaWzAl3jxuGJMCOrYWwk" },
+        customer: { id: "cust_4fpU8kYkQmI1XKBwU2qeME" },
+        metadata: METADATA,
+      },
+    },
+  },
+  dodopayments: {
+    "subscription.created": dodoEvent(
+      "subscription.active",
+      dodoSubscription("active")
+    ),
+    "subscription.updated": dodoEvent(
+      "subscription.on_hold",
+      dodoSubscription("on_hold")
+    ),
+    "subscription.canceled": dodoEvent(
+      "subscription.cancelled",
+      dodoSubscription("cancelled")
+    ),
+    "subscription.expired": dodoEvent(
+      "subscription.expired",
+      dodoSubscription("expired")
+    ),
+    "payment.succeeded": dodoEvent(
+      "payment.succeeded",
+      dodoPayment("succeeded")
+    ),
+    "payment.failed": dodoEvent("payment.failed", dodoPayment("failed")),
+    "refund.created": dodoEvent("refund.succeeded", {
+      payload_type: "Refund",
+      refund_id: "ref_1f2g3h4i5j6k",
+      payment_id: "pay_5z6a7b8c9d0e",
+      customer: DODO_CUSTOMER,
+      amount: 2000,
+      currency: "USD",
+      status: "succeeded",
+      reason: "Customer request",
+      created_at: CREATED_AT,
+      metadata: METADATA,
+    }),
+  },
+  tap: {
+    "checkout.completed": tapCharge("CHARGE.CAPTURED", "CAPTURED", {
+      product_id: "pro",
+    }),
+    "payment.succeeded": tapCharge("CHARGE.CAPTURED", "CAPTURED", {
+      subscription_id: "sub_0001",
+    }),
+    "payment.failed": tapCharge("CHARGE.FAILED", "DECLINED", {
+      subscription_id: "sub_0001",
+    }),
+    "refund.created": {
+      event: "REFUND.SUCCEEDED",
+      data: {
+        id: "re_TS04A5720231433Lp3w0809822",
+        object: "refund",
+        charge_id: "chg_TS02A5720231433Qs1w0809820",
+        status: "REFUNDED",
+        amount: 20,
+        currency: "USD",
+        reason: "requested_by_customer",
+        created: CREATED * 1000,
+        reference: { merchant: "refund_0001" },
+        customer: { id: "cus_TS03A5720231433Kx2w0809821" },
+        metadata: METADATA,
+      },
+    },
+  },
+  mock: {
+    "checkout.completed": mockEvent("evt_mock_0001", "checkout.completed", {
+      id: "cs_mock_0001",
+      status: "paid",
+      mode: "subscription",
+      url: "http://127.0.0.1:4010/checkout/cs_mock_0001",
+      items: [{ product_id: "pro", quantity: 1 }],
+      amount: 2000,
+      amount_subtotal: 2000,
+      currency: "USD",
+      customer_id: "cus_mock_0001",
+      email: "user@example.com",
+      name: null,
+      trial_period_days: null,
+      discount_id: null,
+      redirect_url: null,
+      subscription_id: "sub_mock_0001",
+      payment_id: "pay_mock_0001",
+      metadata: METADATA,
+      created_at: CREATED_AT,
+      expires_at: PERIOD_END_AT,
+    }),
+    "subscription.created": mockEvent(
+      "evt_mock_0002",
+      "subscription.created",
+      mockSubscription("active")
+    ),
+    "subscription.updated": mockEvent(
+      "evt_mock_0003",
+      "subscription.updated",
+      mockSubscription("past_due")
+    ),
+    "subscription.canceled": mockEvent(
+      "evt_mock_0004",
+      "subscription.canceled",
+      mockSubscription("active", { cancel_at_period_end: true })
+    ),
+    "subscription.expired": mockEvent(
+      "evt_mock_0005",
+      "subscription.expired",
+      mockSubscription("expired", { cancel_at_period_end: true })
+    ),
+    "payment.succeeded": mockEvent(
+      "evt_mock_0006",
+      "payment.succeeded",
+      mockPayment("succeeded")
+    ),
+    "payment.failed": mockEvent(
+      "evt_mock_0007",
+      "payment.failed",
+      mockPayment("failed")
+    ),
+    "refund.created": mockEvent("evt_mock_0008", "refund.created", {
+      id: "re_mock_0001",
+      status: "succeeded",
+      payment_id: "pay_mock_0001",
+      customer_id: "cus_mock_0001",
+      amount: 2000,
+      currency: "USD",
+      reason: "requested_by_customer",
+      metadata: METADATA,
+      created_at: CREATED_AT,
+    }),
+  },
+} satisfies Record<
+  WebhookProviderName,
+  Partial<Record<PaymentEventType, Record<string, unknown>>>
+>;
+
+type SampleEvents = typeof SAMPLE_EVENTS;
+
+/**
+ * Normalized event types with a sample for the provider.
+ */
+export type SampleEventType<P extends WebhookProviderName> =
+  keyof SampleEvents[P];
+
+/**
+ * A realistic webhook payload of a provider, in the provider's native format,
+ * that its webhook handler maps to the given normalized event type. Each call
+ * returns a fresh copy to change as needed. IDs and dates are fixed, and
+ * `organization_id` / `user_id` are `org_123` / `user_123`.
+ *
+ * @example
+ * ```ts
+ * const event = sampleEvent("stripe", "subscription.updated");
+ * event.data.object.status = "past_due";
+ * await handler(signWebhook("stripe", event, secret));
+ * ```
+ */
+export function sampleEvent<
+  P extends WebhookProviderName,
+  T extends SampleEventType<P>,
+>(provider: P, type: T): SampleEvents[P][T];
+/**
+ * A sample for an event type read at runtime, or `undefined` if the provider
+ * has none for it.
+ */
+export function sampleEvent(
+  provider: WebhookProviderName,
+  type: string
+): unknown;
+export function sampleEvent(
+  provider: WebhookProviderName,
+  type: string
+): unknown {
+  const samples: Record<string, unknown> = SAMPLE_EVENTS[provider];
+  return Object.prototype.hasOwnProperty.call(samples, type)
+    ? structuredClone(samples[type])
+    : undefined;
+}
@@ -0,0 +1,203 @@
+import { randomUUID } from "node:crypto";
+import { ApiConnectionError } from "./errors";
+import type { ProviderOptions } from "./types";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Statuses whose responses cannot carry a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Request options accepted by a transport.
+ */
+export type TransportRequestInit = RequestInit & {
+  /** Idempotency key; generated for mutating calls if supported */
+  idempotencyKey?: string;
+  /** Mark a mutating call as safe to retry without an idempotency key */
+  retryable?: boolean;
+};
+
+/**
+ * `fetch`-compatible function with timeouts, retries and idempotency keys.
+ */
+export type Transport = (
+  url: string,
+  init?: TransportRequestInit
+) => Promise<Response>;
+
+/**
+ * Provider-specific transport settings.
+ */
+export type TransportSettings = {
+  /** Provider name reported on connection errors */
+  provider: string;
+  /** Header the provider reads idempotency keys from, if it supports them */
+  idempotencyHeader?: string;
+};
+
+/**
+ * Wait before a retry. Rejects with the signal's reason when it aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Read the whole body before the attempt's timeout, and return an equivalent
+ * response. Also stops custom `fetch` functions that ignore the signal.
+ */
+async function bufferResponse(
+  response: Response,
+  signal: AbortSignal
+): Promise<Response> {
+  const body = NULL_BODY_STATUSES.has(response.status)
+    ? null
+    : await new Promise<ArrayBuffer>((resolve, reject) => {
+        if (signal.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        response
+          .arrayBuffer()
+          .then(resolve, reject)
+          .finally(() => signal.removeEventListener("abort", onAbort));
+      });
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Delay before the next attempt: `Retry-After` when the provider sends it,
+ * otherwise exponential backoff with jitter.
+ */
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isNaN(seconds)
+      ? new Date(retryAfter).getTime() - Date.now()
+      : seconds * 1000;
+    if (Number.isFinite(ms)) {
+      return Math.min(Math.max(ms, 0), MAX_RETRY_DELAY_MS);
+    }
+  }
+
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  return Math.min(jittered, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Create the transport a provider uses for its API calls.
+ *
+ * Rate-limited (429) requests are always retried, since the provider did not
+ * process them. Server errors and network failures are retried only when the
+ * request cannot be applied twice: reads, calls with an idempotency key, or
+ * calls marked `retryable`. The timeout covers reading the response body.
+ */
+export function createTransport(
+  options: ProviderOptions,
+  settings: TransportSettings
+): Transport {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  return async (url, init = {}) => {
+    const { idempotencyKey: key, retryable, ...requestInit } = init;
+    const fetchImpl = options.fetch ?? fetch;
+    const method = (requestInit.method ?? "GET").toUpperCase();
+    const isMutating = MUTATING_METHODS.has(method);
+    const headers = new Headers(requestInit.headers);
+
+    let idempotencyKey = key;
+    if (settings.idempotencyHeader && isMutating) {
+      idempotencyKey ??= randomUUID();
+      headers.set(settings.idempotencyHeader, idempotencyKey);
+    }
+
+    const isSafeToRetry =
+      !isMutating ||
+      retryable === true ||
+      (idempotencyKey !== undefined &&
+        settings.idempotencyHeader !== undefined);
+
+    for (let attempt = 0; ; attempt++) {
+      if (requestInit.signal?.aborted) {
+        throw requestInit.signal.reason;
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const onAbort = () => controller.abort();
+      requestInit.signal?.addEventListener("abort", onAbort);
+
+      try {
+        const response = await fetchImpl(url, {
+          ...requestInit,
+          headers,
+          signal: controller.signal,
+        });
+
+        const shouldRetry =
+          response.status === 429 ||
+          (response.status >= 500 && isSafeToRetry);
+        if (!shouldRetry || attempt >= maxRetries) {
+          return await bufferResponse(response, controller.signal);
+        }
+
+        // Release the connection of the discarded response
+        await response.body?.cancel();
+        await sleep(
+          retryDelay(attempt, response.headers.get("retry-after")),
+          requestInit.signal
+        );
+      } catch (error) {
+        if (requestInit.signal?.aborted) {
+          throw error;
+        }
+
+        const timedOut = controller.signal.aborted;
+        if (!isSafeToRetry || attempt >= maxRetries) {
+          throw new ApiConnectionError(
+            timedOut
+              ? `Request to ${url} timed out after ${timeoutMs}ms`
+              : `Request to ${url} failed: ${(error as Error).message}`,
+            {
+              provider: settings.provider,
+              retryable: isSafeToRetry,
+              raw: error,
+            }
+          );
+        }
+
+        await sleep(retryDelay(attempt, null), requestInit.signal);
+      } finally {
+        clearTimeout(timer);
+        requestInit.signal?.removeEventListener("abort", onAbort);
+      }
+    }
+  };
+}
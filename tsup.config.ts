@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["index.ts", "provider/*.ts"],
+  entry: ["index.ts", "testing.ts", "provider/*.ts", "adapters/*.ts"],
   format: ["cjs", "esm"],
   dts: true,
   clean: true,
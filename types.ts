@@ -1,11 +1,34 @@
+/**
+ * An amount of money in the currency's smallest unit, e.g.
+ * `{ amount: 2999, currency: "USD" }` for $29.99, `{ amount: 500,
+ * currency: "JPY" }` for ¥500 or `{ amount: 5000, currency: "KWD" }` for
+ * 5.000 KWD.
+ */
+export type Money = {
+  /** Whole number of minor units */
+  amount: number;
+  /** ISO 4217 currency code */
+  currency: string;
+};
+
+/**
+ * A product in a multi-item checkout.
+ */
+export type CheckoutItem = {
+  /** Product or price ID */
+  productId: string;
+  /** Quantity (default: 1) */
+  quantity?: number;
+};
+
 /**
  * Parameters for creating a checkout link.
  */
 export type CreateCheckoutLinkParams = {
   /** Payment type: subscription or one-time */
   type: "subscription" | "one-time";
-  /** Product or price ID */
-  productId: string;
+  /** Product or price ID; required unless `items` is set */
+  productId?: string;
   /** Customer email */
   email?: string;
   /** Customer name */
@@ -22,6 +45,48 @@ export type CreateCheckoutLinkParams = {
   trialPeriodDays?: number;
   /** Number of seats/quantity */
   seats?: number;
+  /** Discount code to apply */
+  discountCode?: string;
+  /** Let the customer enter a promotion code at checkout */
+  allowPromotionCodes?: boolean;
+  /**
+   * Several products in one checkout, e.g. a base plan plus add-ons.
+   * Replaces `productId` and `seats`.
+   */
+  items?: CheckoutItem[];
+};
+
+/**
+ * Normalized checkout session status.
+ * - `open`: waiting for the customer to pay
+ * - `processing`: paid, waiting for the payment to settle
+ * - `paid`: payment succeeded
+ * - `expired`: the session expired or was abandoned
+ * - `failed`: payment failed or was declined
+ */
+export type CheckoutSessionStatus =
+  | "open"
+  | "processing"
+  | "paid"
+  | "expired"
+  | "failed";
+
+/**
+ * Provider-agnostic checkout session.
+ */
+export type CheckoutSession = {
+  /** Provider the checkout session belongs to */
+  provider: string;
+  /** Checkout session, checkout or charge ID */
+  id: string;
+  /** URL to send the customer to */
+  url: string | null;
+  /** Normalized status */
+  status: CheckoutSessionStatus;
+  /** When the session stops accepting payment, if the provider reports it */
+  expiresAt: Date | null;
+  /** Checkout object as returned by the provider */
+  raw: unknown;
 };
 
 /**
@@ -36,6 +101,14 @@ export type CreateCustomerPortalLinkParams = {
   redirectUrl?: string;
 };
 
+/**
+ * How a seat change is billed.
+ * - `prorate`: charge or credit the difference on the next invoice
+ * - `invoice`: charge or credit the difference immediately
+ * - `none`: bill the new quantity from the next period without proration
+ */
+export type SeatProration = "prorate" | "invoice" | "none";
+
 /**
  * Parameters for setting subscription seats.
  */
@@ -44,6 +117,19 @@ export type SetSubscriptionSeatsParams = {
   id: string;
   /** Number of seats */
   seats: number;
+  /** Proration behavior (default: "prorate") */
+  proration?: SeatProration;
+};
+
+/**
+ * Options for canceling a subscription.
+ */
+export type CancelSubscriptionOptions = {
+  /**
+   * End the subscription now instead of at the end of the paid period
+   * (default: false)
+   */
+  immediately?: boolean;
 };
 
 /**
@@ -53,6 +139,19 @@ export type CreateCheckoutLink = (
   params: CreateCheckoutLinkParams
 ) => Promise<string | null>;
 
+/**
+ * Handler for creating a checkout session.
+ */
+export type CreateCheckoutSession = (
+  params: CreateCheckoutLinkParams
+) => Promise<CheckoutSession>;
+
+/**
+ * Handler for retrieving a checkout session.
+ * Throws `NotFoundError` if the session does not exist.
+ */
+export type GetCheckoutSession = (id: string) => Promise<CheckoutSession>;
+
 /**
  * Handler for creating a customer portal link.
  */
@@ -70,18 +169,579 @@ export type SetSubscriptionSeats = (
 /**
  * Handler for canceling a subscription.
  */
-export type CancelSubscription = (id: string) => Promise<void>;
+export type CancelSubscription = (
+  id: string,
+  options?: CancelSubscriptionOptions
+) => Promise<void>;
 
 /**
  * Handler for processing webhooks.
  */
 export type WebhookHandler = (req: Request) => Promise<Response>;
 
+/**
+ * Provider-agnostic customer.
+ */
+export type Customer = {
+  /** Provider the customer belongs to */
+  provider: string;
+  /** Customer ID */
+  id: string;
+  /** Customer email */
+  email: string | null;
+  /** Customer name */
+  name: string | null;
+  /** Organization ID from customer metadata */
+  organizationId: string | null;
+  /** User ID from customer metadata */
+  userId: string | null;
+  /** Customer metadata */
+  metadata: Record<string, string>;
+  /** Customer object as returned by the provider */
+  raw: unknown;
+};
+
+/**
+ * Parameters for creating a customer.
+ */
+export type CreateCustomerParams = {
+  /** Customer email */
+  email: string;
+  /** Customer name */
+  name?: string;
+  /** Organization ID for metadata */
+  organizationId?: string;
+  /** User ID for metadata */
+  userId?: string;
+  /** Additional metadata */
+  metadata?: Record<string, string>;
+};
+
+/**
+ * Parameters for updating a customer. Unset fields are left unchanged.
+ */
+export type UpdateCustomerParams = Partial<CreateCustomerParams> & {
+  /** Customer ID */
+  id: string;
+};
+
+/**
+ * Handler for creating a customer.
+ */
+export type CreateCustomer = (
+  params: CreateCustomerParams
+) => Promise<Customer>;
+
+/**
+ * Handler for retrieving a customer.
+ * Throws `NotFoundError` if the customer does not exist.
+ */
+export type GetCustomer = (id: string) => Promise<Customer>;
+
+/**
+ * Handler for updating a customer.
+ */
+export type UpdateCustomer = (
+  params: UpdateCustomerParams
+) => Promise<Customer>;
+
+/**
+ * Handler for finding a customer by email.
+ * Resolves `null` if no customer has the email.
+ */
+export type FindCustomerByEmail = (email: string) => Promise<Customer | null>;
+
+/**
+ * Normalized refund status.
+ */
+export type RefundStatus = "pending" | "succeeded" | "failed" | "canceled";
+
+/**
+ * Normalized refund reason.
+ */
+export type RefundReason =
+  | "duplicate"
+  | "fraudulent"
+  | "requested_by_customer"
+  | "other";
+
+/**
+ * Provider-agnostic refund.
+ */
+export type Refund = {
+  /** Provider the refund belongs to */
+  provider: string;
+  /** Refund ID */
+  id: string;
+  /** Refunded payment, order or charge ID */
+  paymentId: string | null;
+  /** Refunded amount in the currency's smallest unit */
+  amount: number | null;
+  /** ISO 4217 currency code */
+  currency: string | null;
+  /** Normalized status */
+  status: RefundStatus;
+  /** Reason given for the refund */
+  reason: string | null;
+  /** When the refund was created */
+  createdAt: Date | null;
+  /** Refund object as returned by the provider */
+  raw: unknown;
+};
+
+/**
+ * Parameters for creating a refund.
+ */
+export type CreateRefundParams = {
+  /** Payment, order or charge ID to refund */
+  paymentId: string;
+  /** Amount in the currency's smallest unit (default: the full amount) */
+  amount?: number;
+  /** Reason for the refund */
+  reason?: RefundReason;
+};
+
+/**
+ * Parameters for listing refunds.
+ */
+export type ListRefundsParams = {
+  /** Only list refunds of this payment */
+  paymentId?: string;
+  /** Maximum number of refunds, most recent first (default: 100) */
+  limit?: number;
+};
+
+/**
+ * Handler for refunding a payment in full or in part.
+ */
+export type CreateRefund = (params: CreateRefundParams) => Promise<Refund>;
+
+/**
+ * Handler for listing refunds.
+ */
+export type ListRefunds = (params?: ListRefundsParams) => Promise<Refund[]>;
+
+/**
+ * How long a discount applies to a subscription.
+ */
+export type DiscountDuration = "once" | "repeating" | "forever";
+
+/**
+ * Provider-agnostic discount code.
+ */
+export type Discount = {
+  /** Provider the discount belongs to */
+  provider: string;
+  /** Discount ID */
+  id: string;
+  /** Code customers enter at checkout */
+  code: string | null;
+  /** Display name */
+  name: string | null;
+  /** Percentage off, e.g. 20 for 20% */
+  percentOff: number | null;
+  /** Fixed amount off in the currency's smallest unit */
+  amountOff: number | null;
+  /** ISO 4217 currency code of `amountOff` */
+  currency: string | null;
+  /** How long the discount applies to a subscription */
+  duration: DiscountDuration | null;
+  /** Number of months, for `repeating` discounts */
+  durationInMonths: number | null;
+  /** Maximum number of redemptions */
+  maxRedemptions: number | null;
+  /** Number of times the discount was redeemed */
+  timesRedeemed: number | null;
+  /** When the code stops being accepted */
+  expiresAt: Date | null;
+  /** Whether the code is currently accepted */
+  active: boolean;
+  /** Discount object as returned by the provider */
+  raw: unknown;
+};
+
+/**
+ * Parameters for creating a discount code.
+ * Set either `percentOff` or `amountOff`.
+ */
+export type CreateDiscountParams = {
+  /** Code customers enter at checkout */
+  code: string;
+  /** Display name (default: the code) */
+  name?: string;
+  /** Percentage off, e.g. 20 for 20% */
+  percentOff?: number;
+  /** Fixed amount off */
+  amountOff?: Money;
+  /** How long the discount applies to a subscription (default: "once") */
+  duration?: DiscountDuration;
+  /** Number of months, required for `repeating` discounts */
+  durationInMonths?: number;
+  /** Maximum number of redemptions */
+  maxRedemptions?: number;
+  /** When the code stops being accepted */
+  expiresAt?: Date;
+  /** Products or prices the discount is limited to (default: all) */
+  productIds?: string[];
+};
+
+/**
+ * Parameters for listing discount codes.
+ */
+export type ListDiscountsParams = {
+  /** Maximum number of discounts to return (default: 100) */
+  limit?: number;
+};
+
+/**
+ * Handler for creating a discount code.
+ */
+export type CreateDiscount = (
+  params: CreateDiscountParams
+) => Promise<Discount>;
+
+/**
+ * Handler for listing discount codes.
+ */
+export type ListDiscounts = (
+  params?: ListDiscountsParams
+) => Promise<Discount[]>;
+
+/**
+ * Normalized subscription status.
+ */
+export type SubscriptionStatus =
+  | "trialing"
+  | "active"
+  | "past_due"
+  | "paused"
+  | "canceled"
+  | "expired"
+  | "incomplete";
+
+/**
+ * Provider-agnostic subscription state.
+ */
+export type Subscription = {
+  /** Provider the subscription belongs to */
+  provider: string;
+  /** Subscription ID */
+  id: string;
+  /** Provider customer ID */
+  customerId: string | null;
+  /** Normalized status */
+  status: SubscriptionStatus;
+  /** Product, price or variant ID */
+  productId: string | null;
+  /** Number of seats/quantity */
+  seats: number | null;
+  /** Start of the current billing period */
+  currentPeriodStart: Date | null;
+  /** End of the current billing period */
+  currentPeriodEnd: Date | null;
+  /** End of the trial, if the subscription has one */
+  trialEnd: Date | null;
+  /** Whether the subscription ends at the end of the current period */
+  cancelAtPeriodEnd: boolean;
+  /** Subscription object as returned by the provider */
+  raw: unknown;
+};
+
+/**
+ * Parameters for listing subscriptions.
+ */
+export type ListSubscriptionsParams = {
+  /** Customer ID */
+  customerId: string;
+};
+
+/**
+ * Handler for retrieving a subscription.
+ * Throws `NotFoundError` if the subscription does not exist.
+ */
+export type GetSubscription = (id: string) => Promise<Subscription>;
+
+/**
+ * Handler for listing a customer's subscriptions, including ended ones.
+ */
+export type ListSubscriptions = (
+  params: ListSubscriptionsParams
+) => Promise<Subscription[]>;
+
+/**
+ * Fields shared by every normalized webhook event.
+ */
+type PaymentEventBase = {
+  /** Provider that sent the event */
+  provider: string;
+  /** Event or delivery ID assigned by the provider, if any */
+  id: string | null;
+  /** Native event name, e.g. `customer.subscription.updated` */
+  providerEventType: string;
+  /** Provider customer ID */
+  customerId: string | null;
+  /** Organization ID from checkout metadata */
+  organizationId: string | null;
+  /** User ID from checkout metadata */
+  userId: string | null;
+  /** Webhook payload as received from the provider */
+  raw: unknown;
+};
+
+/**
+ * A checkout was completed by the customer.
+ */
+export type CheckoutCompletedEvent = PaymentEventBase & {
+  type: "checkout.completed";
+  /** Checkout, session or order ID */
+  checkoutId: string;
+  /** Subscription created by the checkout, if any */
+  subscriptionId: string | null;
+  /** Product or price ID */
+  productId: string | null;
+  /** Amount in the currency's smallest unit */
+  amount: number | null;
+  /** ISO 4217 currency code */
+  currency: string | null;
+};
+
+/**
+ * A subscription changed state.
+ */
+export type SubscriptionEvent = PaymentEventBase & {
+  type:
+    | "subscription.created"
+    | "subscription.updated"
+    | "subscription.canceled"
+    | "subscription.expired";
+  /** Subscription ID */
+  subscriptionId: string;
+  /** Product or price ID */
+  productId: string | null;
+  /** Normalized status */
+  status: SubscriptionStatus;
+  /** Number of seats/quantity */
+  seats: number | null;
+  /** End of the current billing period */
+  currentPeriodEnd: Date | null;
+  /** Whether the subscription ends at the end of the current period */
+  cancelAtPeriodEnd: boolean;
+};
+
+/**
+ * A payment succeeded or failed.
+ */
+export type PaymentTransactionEvent = PaymentEventBase & {
+  type: "payment.succeeded" | "payment.failed";
+  /** Payment, invoice, order or charge ID */
+  paymentId: string;
+  /** Subscription the payment belongs to, if any */
+  subscriptionId: string | null;
+  /** Amount in the currency's smallest unit */
+  amount: number | null;
+  /** ISO 4217 currency code */
+  currency: string | null;
+};
+
+/**
+ * A refund was issued or changed status.
+ */
+export type RefundEvent = PaymentEventBase & {
+  type: "refund.created" | "refund.updated";
+  /** Refund ID */
+  refundId: string;
+  /** Refunded payment, order or charge ID */
+  paymentId: string | null;
+  /** Refunded amount in the currency's smallest unit */
+  amount: number | null;
+  /** ISO 4217 currency code */
+  currency: string | null;
+  /** Normalized refund status */
+  status: RefundStatus;
+};
+
+/**
+ * @deprecated Use `RefundEvent`.
+ */
+export type RefundCreatedEvent = RefundEvent;
+
+/**
+ * Provider-agnostic webhook event.
+ */
+export type PaymentEvent =
+  | CheckoutCompletedEvent
+  | SubscriptionEvent
+  | PaymentTransactionEvent
+  | RefundEvent;
+
+/**
+ * Normalized webhook event type.
+ */
+export type PaymentEventType = PaymentEvent["type"];
+
+/**
+ * Callback invoked for a normalized webhook event.
+ */
+export type PaymentEventCallback<T extends PaymentEvent = PaymentEvent> = (
+  event: T
+) => void | Promise<void>;
+
+/**
+ * Store for webhook deliveries that have already been processed.
+ * Back it with Redis (`SET key 1 NX EX ttl`) or a SQL unique key to share it
+ * across instances.
+ */
+export interface WebhookDeliveryStore {
+  /** Record a delivery ID; resolves `false` if it was already recorded */
+  claim(id: string, ttlSeconds: number): Promise<boolean>;
+  /** Forget a delivery ID so a retry of it is processed again */
+  release(id: string): Promise<void>;
+}
+
+/**
+ * Options for building a webhook handler.
+ */
+export type WebhookHandlerOptions = {
+  /** Maximum age of a signed webhook timestamp in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Store used to detect replayed deliveries (default: in-memory) */
+  deliveryStore?: WebhookDeliveryStore;
+  /** How long delivery IDs are remembered in seconds (default: 7 days) */
+  deliveryTtlSeconds?: number;
+  /** Called for every recognized event */
+  onEvent?: PaymentEventCallback;
+  /** Called for events of a specific type */
+  on?: {
+    [T in PaymentEventType]?: PaymentEventCallback<
+      Extract<PaymentEvent, { type: T }>
+    >;
+  };
+};
+
+/**
+ * Factory for a webhook handler with event callbacks.
+ */
+export type CreateWebhookHandler = (
+  options?: WebhookHandlerOptions
+) => WebhookHandler;
+
+/**
+ * A provider served by a webhook router.
+ */
+export type WebhookRoute = {
+  /** Provider name, e.g. "stripe" */
+  provider: string;
+  /** Webhook handler, e.g. `usePayment("stripe").webhookHandler` */
+  handler: WebhookHandler;
+  /**
+   * Header that marks the provider's deliveries (default: the provider's
+   * signature header). Required for registered providers.
+   */
+  signatureHeader?: string;
+};
+
+/**
+ * Options for `createWebhookRouter`.
+ */
+export type WebhookRouterOptions = {
+  /** Providers to route to, tried in order when several match */
+  providers: WebhookRoute[];
+};
+
+/**
+ * Provider mode: sandbox/test or live.
+ */
+export type PaymentMode = "test" | "live";
+
+/**
+ * @deprecated Use `PaymentMode`.
+ */
+export type PaymentEnvironment = PaymentMode;
+
+/**
+ * Options shared by every provider factory.
+ */
+export type ProviderOptions = {
+  /** Sandbox or live mode (default: `PAYMENT_MODE`, the API key, or "test") */
+  mode?: PaymentMode;
+  /** @deprecated Use `mode`. */
+  environment?: PaymentMode;
+  /** Override the provider API base URL, e.g. for a proxy or local stand-in */
+  baseUrl?: string;
+  /** `fetch` implementation used for API calls (default: global `fetch`) */
+  fetch?: typeof fetch;
+  /** Timeout per API request attempt in milliseconds (default: 30000) */
+  timeoutMs?: number;
+  /** Retries for rate-limited or failed API requests (default: 2) */
+  maxRetries?: number;
+  /**
+   * Throw `ProviderUnsupportedError` when a checkout is given a parameter the
+   * provider would ignore, instead of dropping it (default: false)
+   */
+  strict?: boolean;
+};
+
+/**
+ * What a provider supports. Operations that are not supported throw
+ * `ProviderUnsupportedError`; checkout parameters that are not supported are
+ * ignored unless the provider is in strict mode.
+ */
+export type ProviderCapabilities = {
+  /** `createCustomerPortalLink` */
+  customerPortal: boolean;
+  /** `trialPeriodDays` at checkout */
+  trials: boolean;
+  /** `seats` and item quantities at checkout */
+  seats: boolean;
+  /** `customerId` at checkout, to reuse an existing customer */
+  customerId: boolean;
+  /** `email` at checkout */
+  email: boolean;
+  /** `name` at checkout */
+  name: boolean;
+  /** Several `items` in one checkout */
+  multiItem: boolean;
+  /** `discountCode` at checkout */
+  discountCodes: boolean;
+  /** `allowPromotionCodes` at checkout */
+  promotionCodes: boolean;
+  /** `getSubscription` and `cancelSubscription` */
+  subscriptions: boolean;
+  /** `listSubscriptions` */
+  listSubscriptions: boolean;
+  /** `cancelSubscription` with `immediately: true` */
+  cancelImmediately: boolean;
+  /** `setSubscriptionSeats` */
+  seatUpdates: boolean;
+  /** `createCustomer` and `updateCustomer` */
+  customerWrites: boolean;
+  /** `createRefund` and `listRefunds` */
+  refunds: boolean;
+  /** `createDiscount` */
+  discounts: boolean;
+};
+
 /**
  * Payment provider interface.
  */
 export interface PaymentProvider {
+  capabilities: ProviderCapabilities;
   createCheckoutLink: CreateCheckoutLink;
+  createCheckoutSession: CreateCheckoutSession;
+  getCheckoutSession: GetCheckoutSession;
   createCustomerPortalLink: CreateCustomerPortalLink;
+  cancelSubscription: CancelSubscription;
+  setSubscriptionSeats: SetSubscriptionSeats;
+  getSubscription: GetSubscription;
+  listSubscriptions: ListSubscriptions;
+  createCustomer: CreateCustomer;
+  getCustomer: GetCustomer;
+  updateCustomer: UpdateCustomer;
+  findCustomerByEmail: FindCustomerByEmail;
+  createRefund: CreateRefund;
+  listRefunds: ListRefunds;
+  createDiscount: CreateDiscount;
+  listDiscounts: ListDiscounts;
   webhookHandler: WebhookHandler;
+  createWebhookHandler: CreateWebhookHandler;
 }
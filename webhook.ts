@@ -0,0 +1,350 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { ConfigurationError, ValidationError } from "./errors";
+import { currencyDecimals } from "./money";
+import type {
+  PaymentEvent,
+  WebhookDeliveryStore,
+  WebhookHandler,
+  WebhookHandlerOptions,
+  WebhookRouterOptions,
+} from "./types";
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const DEFAULT_DELIVERY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Header each provider signs its webhook deliveries with
+const SIGNATURE_HEADERS: Record<string, string> = {
+  stripe: "stripe-signature",
+  lemonsqueezy: "x-signature",
+  creem: "creem-signature",
+  polar: "webhook-signature",
+  dodopayments: "webhook-signature",
+  tap: "hashstring",
+  mock: "webhook-signature",
+};
+
+/**
+ * Organization and user IDs read from checkout metadata.
+ */
+export type MetadataIds = {
+  organizationId: string | null;
+  userId: string | null;
+};
+
+/**
+ * Read the `organization_id` and `user_id` keys the providers attach to
+ * checkouts.
+ */
+export function readMetadataIds(metadata: unknown): MetadataIds {
+  const record = (metadata ?? {}) as Record<string, unknown>;
+  return {
+    organizationId:
+      typeof record.organization_id === "string" && record.organization_id
+        ? record.organization_id
+        : null,
+    userId:
+      typeof record.user_id === "string" && record.user_id
+        ? record.user_id
+        : null,
+  };
+}
+
+/**
+ * Build provider metadata with the `organization_id` and `user_id` keys read
+ * back by `readMetadataIds`.
+ */
+export function buildMetadata(params: {
+  organizationId?: string;
+  userId?: string;
+  metadata?: Record<string, string>;
+}): Record<string, string> {
+  const metadata: Record<string, string> = { ...params.metadata };
+  if (params.organizationId) metadata.organization_id = params.organizationId;
+  if (params.userId) metadata.user_id = params.userId;
+  return metadata;
+}
+
+/**
+ * Parse an ISO date string or unix timestamp (seconds) into a Date.
+ */
+export function toDate(value: unknown): Date | null {
+  if (typeof value === "number") {
+    return new Date(value * 1000);
+  }
+  if (typeof value === "string" && value) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * Run the callbacks registered for an event.
+ */
+export async function dispatchPaymentEvent(
+  event: PaymentEvent,
+  options: WebhookHandlerOptions
+): Promise<void> {
+  await options.onEvent?.(event);
+
+  const callback = options.on?.[event.type] as
+    | ((event: PaymentEvent) => void | Promise<void>)
+    | undefined;
+  await callback?.(event);
+}
+
+/**
+ * Create an in-memory delivery store.
+ * Entries are per process; use a shared store when running several instances.
+ */
+export function createMemoryDeliveryStore(): WebhookDeliveryStore {
+  const seen = new Map<string, number>();
+
+  return {
+    async claim(id, ttlSeconds) {
+      const now = Date.now();
+      // Entries are inserted in expiry order, so stop at the first live one
+      for (const [key, expiresAt] of seen) {
+        if (expiresAt > now) break;
+        seen.delete(key);
+      }
+
+      if (seen.has(id)) {
+        return false;
+      }
+      seen.set(id, now + ttlSeconds * 1000);
+      return true;
+    },
+    async release(id) {
+      seen.delete(id);
+    },
+  };
+}
+
+const defaultDeliveryStore = createMemoryDeliveryStore();
+
+/**
+ * Check a signed webhook timestamp (unix seconds) against the tolerance window.
+ */
+export function isWithinTolerance(
+  timestamp: number | string,
+  options: WebhookHandlerOptions
+): boolean {
+  const seconds = Number(timestamp);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  return (
+    Number.isFinite(seconds) && Math.abs(Date.now() / 1000 - seconds) <= tolerance
+  );
+}
+
+/**
+ * Delivery ID for providers that do not send one: a digest of the raw body.
+ */
+export function bodyDigest(body: string): string {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+/**
+ * Answer a verified webhook whose payload does not have the expected shape,
+ * e.g. after the provider changed its format, with `400`. Rethrows other
+ * errors.
+ */
+export function invalidPayloadResponse(error: unknown): Response {
+  if (!(error instanceof ValidationError)) {
+    throw error;
+  }
+  return new Response(error.message, { status: 400 });
+}
+
+/**
+ * Dispatch a verified event and build the webhook response.
+ * Deliveries already processed are acknowledged without running callbacks.
+ * Callback failures return 500 so the provider retries the delivery.
+ */
+export async function respondToEvent(params: {
+  provider: string;
+  deliveryId: string;
+  event: PaymentEvent | null;
+  options: WebhookHandlerOptions;
+  successStatus: number;
+}): Promise<Response> {
+  const { provider, deliveryId, event, options, successStatus } = params;
+
+  if (!event) {
+    return new Response(null, { status: successStatus });
+  }
+
+  const store = options.deliveryStore ?? defaultDeliveryStore;
+  const key = `${provider}:${deliveryId}`;
+  const isNew = await store.claim(
+    key,
+    options.deliveryTtlSeconds ?? DEFAULT_DELIVERY_TTL_SECONDS
+  );
+
+  if (!isNew) {
+    return new Response(null, { status: successStatus });
+  }
+
+  try {
+    await dispatchPaymentEvent(event, options);
+  } catch {
+    await store.release(key);
+    return new Response("Webhook callback failed", { status: 500 });
+  }
+
+  return new Response(null, { status: successStatus });
+}
+
+/**
+ * Compare two strings in constant time.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, "utf8");
+  const right = Buffer.from(b, "utf8");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Derive the HMAC key for a Standard Webhooks secret.
+ * `whsec_` secrets carry a base64 key; other secrets are used as raw bytes.
+ */
+export function standardWebhookKey(secret: string): Buffer {
+  return secret.startsWith("whsec_")
+    ? Buffer.from(secret.slice("whsec_".length), "base64")
+    : Buffer.from(secret, "utf8");
+}
+
+/**
+ * Sign a delivery with Standard Webhooks. Returns the `webhook-signature`
+ * header value, `v1,<base64>`.
+ */
+export function signStandardWebhook(params: {
+  id: string;
+  timestamp: string;
+  body: string;
+  key: Buffer;
+}): string {
+  const { id, timestamp, body, key } = params;
+  const signature = createHmac("sha256", key)
+    .update(`${id}.${timestamp}.${body}`)
+    .digest("base64");
+  return `v1,${signature}`;
+}
+
+/**
+ * Verify a Standard Webhooks signature (`webhook-id`, `webhook-timestamp`,
+ * `webhook-signature` headers). The signature header may list several
+ * space-separated `v1,<base64>` entries during secret rotation.
+ */
+export function verifyStandardWebhookSignature(params: {
+  id: string;
+  timestamp: string;
+  body: string;
+  signature: string;
+  key: Buffer;
+}): boolean {
+  const { signature, ...signed } = params;
+  const expected = signStandardWebhook(signed);
+  return signature.split(" ").some((entry) => safeEqual(entry, expected));
+}
+
+/**
+ * Read a JSON object's fields; anything else has none.
+ */
+function fieldsOf(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Compute Tap's `hashstring` header: an HMAC of selected fields of the
+ * charge or refund, with the amount formatted to the currency's decimal
+ * places. Used to verify deliveries and to sign test ones.
+ */
+export function tapHashString(payload: unknown, secret: string): string {
+  const record = fieldsOf(payload);
+  const data = fieldsOf(record.data ?? record);
+  const reference = fieldsOf(data.reference);
+  const currency = String(data.currency ?? "");
+  const amount = Number(data.amount ?? 0).toFixed(currencyDecimals(currency));
+  const isRefund = String(record.event ?? "").startsWith("REFUND.");
+
+  const fields = isRefund
+    ? [
+        ["x_id", data.id],
+        ["x_amount", amount],
+        ["x_currency", currency],
+        ["x_reference", reference.merchant],
+        ["x_status", data.status],
+        ["x_created", data.created],
+      ]
+    : [
+        ["x_id", data.id],
+        ["x_amount", amount],
+        ["x_currency", currency],
+        ["x_gateway_reference", reference.gateway],
+        ["x_payment_reference", reference.payment],
+        ["x_status", data.status],
+        ["x_created", fieldsOf(data.transaction).created],
+      ];
+  return createHmac("sha256", secret)
+    .update(fields.map(([key, value]) => `${key}${value ?? ""}`).join(""))
+    .digest("hex");
+}
+
+/**
+ * Create one webhook endpoint for several providers, e.g. while migrating
+ * from one to another. Each delivery goes to the provider whose signature
+ * header it carries. When several match, such as Polar, DodoPayments and the
+ * mock provider, which all send Standard Webhooks headers, they are tried in
+ * order: handlers answer `401` when they cannot verify the signature, so the
+ * next one gets the delivery. Deliveries no provider matches get `400`.
+ *
+ * @example
+ * ```ts
+ * import { createWebhookRouter, usePayment } from "@xyz/payment";
+ *
+ * const handler = createWebhookRouter({
+ *   providers: [
+ *     { provider: "stripe", handler: usePayment("stripe").webhookHandler },
+ *     { provider: "polar", handler: usePayment("polar").webhookHandler },
+ *   ],
+ * });
+ * ```
+ */
+export function createWebhookRouter(
+  options: WebhookRouterOptions
+): WebhookHandler {
+  const routes = options.providers.map((route) => {
+    const header = route.signatureHeader ?? SIGNATURE_HEADERS[route.provider];
+    if (!header) {
+      throw new ConfigurationError(
+        `No signature header is known for ${route.provider}; set signatureHeader`,
+        { provider: route.provider }
+      );
+    }
+    return { handler: route.handler, header: header.toLowerCase() };
+  });
+  const headers = [...new Set(routes.map((route) => route.header))];
+
+  return async (req) => {
+    const matches = routes.filter((route) => req.headers.has(route.header));
+    if (matches.length === 0) {
+      return new Response(
+        `No webhook provider matched the request. Expected one of these headers: ${headers.join(", ")}`,
+        { status: 400 }
+      );
+    }
+
+    // Every attempt but the last reads a copy, since a body is read once
+    const last = matches[matches.length - 1];
+    for (const route of matches.slice(0, -1)) {
+      const response = await route.handler(req.clone());
+      if (response.status !== 401) {
+        return response;
+      }
+    }
+    return last.handler(req);
+  };
+}